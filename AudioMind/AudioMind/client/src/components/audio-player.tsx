@@ -1,22 +1,53 @@
-import { useState, useRef, useEffect } from "react";
-import { Play, Pause, SkipBack, SkipForward, Download } from "lucide-react";
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Play, Pause, SkipBack, SkipForward, StepBack, StepForward, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import type { AudioContent } from "@shared/schema";
+import { usePlayback } from "@/components/playback-provider";
+import { Waveform } from "@/components/waveform";
+import { currentChapter } from "@/components/chapter-list";
+import type { AudioContent, Chapter, Highlight } from "@shared/schema";
 
 interface AudioPlayerProps {
   audioContent: AudioContent | null;
+  highlights: Highlight[];
   onProgressUpdate: (progress: number) => void;
 }
 
-export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps) {
-  const [isPlaying, setIsPlaying] = useState(false);
-  const [currentTime, setCurrentTime] = useState(0);
-  const [duration, setDuration] = useState(0);
+// Pressing "previous chapter" this far into a chapter restarts it instead
+const CHAPTER_RESTART_SECONDS = 3;
+
+// e.g. "AAC · 160 kbps · 44.1 kHz · Stereo"
+function formatAudioDetails(content: AudioContent) {
+  const channelNames: Record<number, string> = { 1: "Mono", 2: "Stereo" };
+  return [
+    content.codec?.toUpperCase(),
+    content.bitRate && `${Math.round(content.bitRate / 1000)} kbps`,
+    content.sampleRate && `${content.sampleRate / 1000} kHz`,
+    content.channels && (channelNames[content.channels] ?? `${content.channels} channels`),
+  ].filter(Boolean).join(" · ");
+}
+
+export function AudioPlayer({ audioContent, highlights, onProgressUpdate }: AudioPlayerProps) {
+  const {
+    audioRef,
+    currentTime,
+    duration,
+    isPlaying,
+    setCurrentTime,
+    setDuration,
+    setIsPlaying,
+    seek,
+    pendingSeek,
+  } = usePlayback();
   const [playbackSpeed, setPlaybackSpeed] = useState("1");
-  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const { data: chapters = [] } = useQuery<Chapter[]>({
+    queryKey: ["/api/audio-content", audioContent?.id, "chapters"],
+    enabled: !!audioContent,
+  });
 
   useEffect(() => {
     if (audioContent && audioRef.current) {
@@ -26,9 +57,13 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
       audio.src = `/api/audio/${audioContent.id}`;
       audio.preload = "metadata";
       
+      // Opened from a search result: start at the match rather than the saved position
+      const startAt = pendingSeek.current ?? (audioContent.progress || 0);
+      pendingSeek.current = null;
+
       // Reset states
       setIsPlaying(false);
-      setCurrentTime(audioContent.progress || 0);
+      setCurrentTime(startAt);
       setDuration(audioContent.duration || 0);
       
       // Add error handler
@@ -45,8 +80,8 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
       // Add load handler
       const handleLoad = () => {
         console.log("Audio loaded successfully");
-        if (audioContent.progress) {
-          audio.currentTime = audioContent.progress;
+        if (startAt) {
+          audio.currentTime = startAt;
         }
       };
       
@@ -61,7 +96,7 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
         audio.removeEventListener('canplaythrough', handleLoad);
       };
     }
-  }, [audioContent]);
+  }, [audioContent?.id]);
 
   const togglePlayPause = async () => {
     if (audioRef.current) {
@@ -81,26 +116,27 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
   };
 
   const skipBackward = () => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = Math.max(0, audioRef.current.currentTime - 10);
-    }
+    seek(currentTime - 10);
   };
 
   const skipForward = () => {
-    if (audioRef.current) {
-      audioRef.current.currentTime = Math.min(duration, audioRef.current.currentTime + 10);
-    }
+    seek(currentTime + 10);
   };
 
-  const handleProgressClick = (e: React.MouseEvent<HTMLDivElement>) => {
-    const rect = e.currentTarget.getBoundingClientRect();
-    const percent = (e.clientX - rect.left) / rect.width;
-    const newTime = percent * duration;
-    
-    if (audioRef.current) {
-      audioRef.current.currentTime = newTime;
+  const playingChapter = currentChapter(chapters, currentTime);
+
+  const previousChapter = () => {
+    const index = playingChapter ? chapters.indexOf(playingChapter) : -1;
+    if (playingChapter && (currentTime - playingChapter.startTime > CHAPTER_RESTART_SECONDS || index === 0)) {
+      seek(playingChapter.startTime);
+    } else if (index > 0) {
+      seek(chapters[index - 1].startTime);
     }
-    setCurrentTime(newTime);
+  };
+
+  const nextChapter = () => {
+    const next = chapters.find((chapter) => chapter.startTime > currentTime);
+    if (next) seek(next.startTime);
   };
 
   const formatTime = (time: number) => {
@@ -134,6 +170,8 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
         return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Transcribing...</Badge>;
       case "error":
         return <Badge variant="destructive">Error</Badge>;
+      case "skipped":
+        return <Badge variant="outline">Not transcribed</Badge>;
       default:
         return <Badge variant="outline">Pending</Badge>;
     }
@@ -149,11 +187,20 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
 
         {/* Audio Info */}
         <div className="flex items-start space-x-4 mb-6">
-          <div className="w-16 h-16 bg-gradient-to-r from-primary to-secondary rounded-lg flex items-center justify-center flex-shrink-0">
-            <span className="text-white text-sm font-bold">
-              {audioContent.title.charAt(0).toUpperCase()}
-            </span>
-          </div>
+          {audioContent.artworkUrl ? (
+            <img
+              src={audioContent.artworkUrl}
+              alt=""
+              className="w-16 h-16 rounded-lg object-cover flex-shrink-0"
+              data-testid="audio-artwork"
+            />
+          ) : (
+            <div className="w-16 h-16 bg-gradient-to-r from-primary to-secondary rounded-lg flex items-center justify-center flex-shrink-0">
+              <span className="text-white text-sm font-bold">
+                {audioContent.title.charAt(0).toUpperCase()}
+              </span>
+            </div>
+          )}
           <div className="flex-1 min-w-0">
             <h3 className="text-base font-medium text-gray-900 dark:text-white truncate" data-testid="audio-title">
               {audioContent.title}
@@ -165,40 +212,55 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
             )}
             <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
               {duration > 0 ? `Duration: ${formatTime(duration)}` : "Duration: Unknown"} • 
-              Added {new Date(audioContent.createdAt || Date.now()).toLocaleDateString()}
+              {audioContent.publishedAt
+                ? `Published ${new Date(audioContent.publishedAt).toLocaleDateString()}`
+                : `Added ${new Date(audioContent.createdAt || Date.now()).toLocaleDateString()}`}
             </p>
+            {audioContent.codec && (
+              <p className="text-xs text-gray-500 dark:text-gray-500" data-testid="audio-format">
+                {formatAudioDetails(audioContent)}
+              </p>
+            )}
+            {audioContent.showNotes && (
+              <details className="mt-2 text-sm text-gray-600 dark:text-gray-400" data-testid="audio-show-notes">
+                <summary className="cursor-pointer text-xs text-primary">Show notes</summary>
+                <p className="mt-2 whitespace-pre-line max-h-48 overflow-y-auto">{audioContent.showNotes}</p>
+              </details>
+            )}
           </div>
         </div>
 
         {/* Audio Player Controls */}
         <div className="space-y-4">
-          {/* Waveform Visualization (Simulated) */}
-          <div 
-            className="relative h-16 bg-gray-100 dark:bg-gray-700 rounded-lg overflow-hidden cursor-pointer"
-            onClick={handleProgressClick}
-            data-testid="audio-waveform"
-          >
-            <div className="absolute inset-0 flex items-center justify-center opacity-50">
-              <div className="flex space-x-1">
-                {Array.from({ length: 50 }).map((_, i) => (
-                  <div
-                    key={i}
-                    className="w-1 bg-primary rounded-full"
-                    style={{ height: `${20 + Math.random() * 60}%` }}
-                  />
-                ))}
-              </div>
-            </div>
-            {/* Progress indicator */}
-            <div
-              className="absolute top-0 left-0 h-full bg-primary/20 rounded-lg transition-all duration-300"
-              style={{ width: duration > 0 ? `${(currentTime / duration) * 100}%` : "0%" }}
-            />
-          </div>
+          <Waveform
+            audioContentId={audioContent.id}
+            duration={duration}
+            currentTime={currentTime}
+            highlights={highlights}
+            chapters={chapters}
+            onSeek={seek}
+          />
+
+          {playingChapter && (
+            <p className="text-sm text-gray-600 dark:text-gray-400 truncate" data-testid="current-chapter">
+              {playingChapter.title}
+            </p>
+          )}
 
           {/* Player Controls */}
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
+              {chapters.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={previousChapter}
+                  title="Previous chapter"
+                  data-testid="button-previous-chapter"
+                >
+                  <StepBack className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 variant="outline"
                 size="icon"
@@ -223,6 +285,17 @@ export function AudioPlayer({ audioContent, onProgressUpdate }: AudioPlayerProps
               >
                 <SkipForward className="h-4 w-4" />
               </Button>
+              {chapters.length > 0 && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={nextChapter}
+                  title="Next chapter"
+                  data-testid="button-next-chapter"
+                >
+                  <StepForward className="h-4 w-4" />
+                </Button>
+              )}
             </div>
 
             {/* Time and Speed */}
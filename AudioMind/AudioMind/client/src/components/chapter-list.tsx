@@ -0,0 +1,113 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { ListOrdered, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { usePlayback } from "@/components/playback-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { AudioContent, Chapter } from "@shared/schema";
+
+interface ChapterListProps {
+  audioContent: AudioContent | null;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// The chapter playing at `time`, if any
+export function currentChapter(chapters: Chapter[], time: number): Chapter | undefined {
+  return chapters.find((chapter) => time >= chapter.startTime && time < chapter.endTime);
+}
+
+export function ChapterList({ audioContent }: ChapterListProps) {
+  const { currentTime, seek } = usePlayback();
+  const { toast } = useToast();
+
+  const { data: chapters = [] } = useQuery<Chapter[]>({
+    queryKey: ["/api/audio-content", audioContent?.id, "chapters"],
+    enabled: !!audioContent,
+  });
+
+  // The job reports back over the event stream, which refreshes the list
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/audio-content/${audioContent!.id}/chapters`);
+    },
+    onSuccess: () => {
+      toast({ title: "Generating chapters", description: "They'll appear here when ready" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Failed to generate chapters", description: errorMessage(error) });
+    },
+  });
+
+  if (!audioContent) return null;
+
+  const playing = currentChapter(chapters, currentTime);
+
+  return (
+    <Card data-testid="chapter-list">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <ListOrdered className="h-5 w-5" />
+          <span>Chapters</span>
+        </CardTitle>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => regenerateMutation.mutate()}
+          disabled={!audioContent.transcriptionText || regenerateMutation.isPending}
+          title={chapters.length > 0 ? "Regenerate chapters from the transcript" : "Generate chapters"}
+          data-testid="button-regenerate-chapters"
+        >
+          <RefreshCw className={`h-4 w-4 ${regenerateMutation.isPending ? "animate-spin" : ""}`} />
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {chapters.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="chapters-empty">
+            {audioContent.transcriptionText
+              ? "No chapters yet."
+              : "Chapters are generated once the transcript is ready."}
+          </p>
+        ) : (
+          <div className="space-y-1 max-h-80 overflow-y-auto">
+            {chapters.map((chapter) => (
+              <button
+                key={chapter.id}
+                className={`w-full text-left rounded-lg px-3 py-2 ${
+                  chapter.id === playing?.id ? "bg-primary/10" : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                }`}
+                onClick={() => seek(chapter.startTime)}
+                data-testid={`chapter-${chapter.id}`}
+              >
+                <div className="flex items-center justify-between">
+                  <span
+                    className={`text-sm font-medium truncate ${
+                      chapter.id === playing?.id ? "text-primary" : "text-gray-900 dark:text-white"
+                    }`}
+                  >
+                    {chapter.title}
+                  </span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+                    {formatTime(chapter.startTime)}
+                  </span>
+                </div>
+                {chapter.synopsis && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400 mt-0.5 line-clamp-2">{chapter.synopsis}</p>
+                )}
+              </button>
+            ))}
+            {chapters[0].source === "embedded" && (
+              <Badge variant="outline" className="mt-2">From the publisher</Badge>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,289 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { MessageSquare, Plus, Send, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { AudioContent, ChatCitation, ChatConversation, ChatMessage, ChatScope, PodcastFeed } from "@shared/schema";
+
+interface ChatPanelProps {
+  selectedContent: AudioContent | null;
+  onOpenCitation: (audioContentId: string, startTime: number) => void;
+}
+
+const scopeLabels: Record<string, string> = {
+  item: "Episode",
+  feed: "Podcast",
+  library: "Library",
+};
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Select values are strings; "item:<id>", "feed:<id>" or "library"
+function parseScope(value: string): ChatScope {
+  const [type, id] = value.split(":");
+  return type === "library" ? { type: "library" } : { type: type as "item" | "feed", id };
+}
+
+// Turns the answer's [n] markers into buttons that play the cited passage
+function AnswerText({ message, onOpenCitation }: { message: ChatMessage } & Pick<ChatPanelProps, "onOpenCitation">) {
+  const citations = new Map<number, ChatCitation>(message.citations.map((citation) => [citation.index, citation]));
+
+  return (
+    <>
+      {message.content.split(/(\[\d+\])/).map((part, index) => {
+        const citation = /^\[\d+\]$/.test(part) ? citations.get(parseInt(part.slice(1, -1), 10)) : undefined;
+        if (!citation) return <Fragment key={index}>{part}</Fragment>;
+        return (
+          <button
+            key={index}
+            className="inline-flex items-center mx-0.5 px-1.5 rounded bg-primary/10 text-primary text-xs font-medium hover:bg-primary/20 align-baseline"
+            title={`${citation.audioTitle} at ${formatTime(citation.startTime)}`}
+            onClick={() => onOpenCitation(citation.audioContentId, citation.startTime)}
+            data-testid={`citation-${message.id}-${citation.index}`}
+          >
+            {formatTime(citation.startTime)}
+          </button>
+        );
+      })}
+    </>
+  );
+}
+
+export function ChatPanel({ selectedContent, onOpenCitation }: ChatPanelProps) {
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [scope, setScope] = useState(selectedContent ? `item:${selectedContent.id}` : "library");
+  const [question, setQuestion] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: conversations = [] } = useQuery<ChatConversation[]>({
+    queryKey: ["/api/chat/conversations"],
+  });
+
+  const { data: feeds = [] } = useQuery<PodcastFeed[]>({
+    queryKey: ["/api/feeds"],
+  });
+
+  const activeConversation = conversations.find((conversation) => conversation.id === activeId) ?? null;
+
+  const { data: messages = [] } = useQuery<ChatMessage[]>({
+    queryKey: ["/api/chat/conversations", activeId, "messages"],
+    enabled: !!activeId,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ variant: "destructive", title, description: errorMessage(error) });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/chat/conversations", { scope: parseScope(scope) });
+      return (await res.json()) as ChatConversation;
+    },
+    onSuccess: (conversation) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+      setActiveId(conversation.id);
+    },
+    onError: onError("Failed to start conversation"),
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async ({ conversationId, content }: { conversationId: string; content: string }) => {
+      const res = await apiRequest("POST", `/api/chat/conversations/${conversationId}/messages`, { content });
+      return (await res.json()) as ChatMessage[];
+    },
+    onSuccess: (newMessages, { conversationId }) => {
+      queryClient.setQueryData<ChatMessage[]>(
+        ["/api/chat/conversations", conversationId, "messages"],
+        (existing = []) => [...existing, ...newMessages],
+      );
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"], exact: true });
+      setQuestion("");
+    },
+    onError: onError("Failed to answer question"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (conversationId: string) => {
+      return apiRequest("DELETE", `/api/chat/conversations/${conversationId}`);
+    },
+    onSuccess: (_data, conversationId) => {
+      if (conversationId === activeId) setActiveId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/chat/conversations"] });
+    },
+    onError: onError("Failed to delete conversation"),
+  });
+
+  const handleSend = () => {
+    const content = question.trim();
+    if (activeId && content) {
+      sendMutation.mutate({ conversationId: activeId, content });
+    }
+  };
+
+  return (
+    <div className="grid lg:grid-cols-3 gap-8" data-testid="chat-panel">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <MessageSquare className="h-5 w-5" />
+            <span>Ask your library</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex space-x-2">
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger className="flex-1" data-testid="select-chat-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="library">Whole library</SelectItem>
+                {selectedContent && (
+                  <SelectItem value={`item:${selectedContent.id}`}>Episode: {selectedContent.title}</SelectItem>
+                )}
+                {feeds.map((feed) => (
+                  <SelectItem key={feed.id} value={`feed:${feed.id}`}>Podcast: {feed.title}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending}
+              title="New conversation"
+              data-testid="button-new-conversation"
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {conversations.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="conversations-empty">
+              Start a conversation to ask questions about what you've listened to.
+            </p>
+          ) : (
+            <div className="space-y-1">
+              {conversations.map((conversation) => (
+                <div
+                  key={conversation.id}
+                  className={`flex items-center justify-between rounded-lg px-3 py-2 cursor-pointer ${
+                    conversation.id === activeId
+                      ? "bg-primary/10"
+                      : "hover:bg-gray-50 dark:hover:bg-gray-700/50"
+                  }`}
+                  onClick={() => setActiveId(conversation.id)}
+                  data-testid={`conversation-${conversation.id}`}
+                >
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{conversation.title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {scopeLabels[conversation.scopeType]}
+                      {conversation.updatedAt &&
+                        ` · ${formatDistanceToNow(new Date(conversation.updatedAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      deleteMutation.mutate(conversation.id);
+                    }}
+                    title="Delete conversation"
+                    data-testid={`button-delete-conversation-${conversation.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="lg:col-span-2 flex flex-col">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between">
+            <span className="truncate">{activeConversation?.title ?? "No conversation selected"}</span>
+            {activeConversation && (
+              <Badge variant="secondary">{scopeLabels[activeConversation.scopeType]}</Badge>
+            )}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="flex-1 flex flex-col space-y-4">
+          <div className="flex-1 space-y-4 max-h-[32rem] overflow-y-auto" data-testid="chat-messages">
+            {activeId && messages.length === 0 && !sendMutation.isPending && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Ask anything, like "What did the guest recommend reading?" Answers link to the moments they come from.
+              </p>
+            )}
+            {messages.map((message) => (
+              <div
+                key={message.id}
+                className={`flex ${message.role === "user" ? "justify-end" : "justify-start"}`}
+                data-testid={`chat-message-${message.id}`}
+              >
+                <div
+                  className={`max-w-[85%] rounded-lg px-4 py-2 text-sm leading-relaxed whitespace-pre-wrap ${
+                    message.role === "user"
+                      ? "bg-primary text-white"
+                      : "bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100"
+                  }`}
+                >
+                  {message.role === "assistant" ? (
+                    <AnswerText message={message} onOpenCitation={onOpenCitation} />
+                  ) : (
+                    message.content
+                  )}
+                </div>
+              </div>
+            ))}
+            {sendMutation.isPending && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 animate-pulse">Searching transcripts...</p>
+            )}
+          </div>
+
+          <form
+            className="flex space-x-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSend();
+            }}
+          >
+            <Textarea
+              placeholder={activeId ? "Ask a question..." : "Start or pick a conversation first"}
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  handleSend();
+                }
+              }}
+              disabled={!activeId}
+              rows={2}
+              className="resize-none"
+              data-testid="input-chat-question"
+            />
+            <Button
+              type="submit"
+              disabled={!activeId || !question.trim() || sendMutation.isPending}
+              data-testid="button-send-question"
+            >
+              <Send className="h-4 w-4" />
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,17 +1,85 @@
+import { useState } from "react";
 import { formatDistanceToNow } from "date-fns";
-import { Play, Highlighter, Clock, Calendar } from "lucide-react";
+import { Play, Highlighter, Clock, Calendar, MoreVertical, Pencil, Trash2 } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import type { AudioContent } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { AudioContent, UpdateAudioContent } from "@shared/schema";
 
 interface ContentLibraryProps {
   audioContent: AudioContent[];
   onSelectContent: (content: AudioContent) => void;
+  onUpdateContent: (contentId: string, updates: UpdateAudioContent) => Promise<unknown>;
+  onDeleteContent: (contentId: string) => Promise<unknown>;
   selectedContentId?: string;
 }
 
-export function ContentLibrary({ audioContent, onSelectContent, selectedContentId }: ContentLibraryProps) {
+export function ContentLibrary({
+  audioContent,
+  onSelectContent,
+  onUpdateContent,
+  onDeleteContent,
+  selectedContentId,
+}: ContentLibraryProps) {
+  const [editingContent, setEditingContent] = useState<AudioContent | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editSource, setEditSource] = useState("");
+  const [deletingContent, setDeletingContent] = useState<AudioContent | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startEditing = (content: AudioContent) => {
+    setEditingContent(content);
+    setEditTitle(content.title);
+    setEditSource(content.source || "");
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editingContent || !editTitle.trim()) return;
+
+    setIsSaving(true);
+    try {
+      await onUpdateContent(editingContent.id, { title: editTitle.trim(), source: editSource.trim() });
+      setEditingContent(null);
+    } catch {
+      // The dashboard already reports the failure
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deletingContent) return;
+
+    setIsSaving(true);
+    try {
+      await onDeleteContent(deletingContent.id);
+      setDeletingContent(null);
+    } catch {
+      // The dashboard already reports the failure
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const formatDuration = (seconds: number) => {
     if (!seconds) return "Unknown";
     const hours = Math.floor(seconds / 3600);
@@ -28,7 +96,7 @@ export function ContentLibrary({ audioContent, onSelectContent, selectedContentI
     return Math.round((progress / duration) * 100);
   };
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: string | null) => {
     switch (status) {
       case "completed":
         return <Badge variant="secondary" className="bg-green-100 text-green-800">Transcribed</Badge>;
@@ -36,6 +104,8 @@ export function ContentLibrary({ audioContent, onSelectContent, selectedContentI
         return <Badge variant="secondary" className="bg-blue-100 text-blue-800">Processing</Badge>;
       case "error":
         return <Badge variant="destructive">Error</Badge>;
+      case "skipped":
+        return <Badge variant="outline">Not transcribed</Badge>;
       default:
         return <Badge variant="outline">Pending</Badge>;
     }
@@ -77,9 +147,18 @@ export function ContentLibrary({ audioContent, onSelectContent, selectedContentI
               data-testid={`content-card-${content.id}`}
             >
               <div className="aspect-video bg-gradient-to-br from-primary/20 to-secondary/20 flex items-center justify-center relative overflow-hidden">
-                <div className="text-4xl font-bold text-primary/60">
-                  {content.title.charAt(0).toUpperCase()}
-                </div>
+                {content.artworkUrl ? (
+                  <img
+                    src={content.artworkUrl}
+                    alt=""
+                    className="absolute inset-0 w-full h-full object-cover"
+                    data-testid={`content-artwork-${content.id}`}
+                  />
+                ) : (
+                  <div className="text-4xl font-bold text-primary/60">
+                    {content.title.charAt(0).toUpperCase()}
+                  </div>
+                )}
                 {isSelected && (
                   <div className="absolute top-2 right-2">
                     <Badge className="bg-primary text-white">Now Playing</Badge>
@@ -127,28 +206,122 @@ export function ContentLibrary({ audioContent, onSelectContent, selectedContentI
                     )}
                     <div className="flex items-center space-x-1">
                       <Calendar className="h-3 w-3" />
-                      <span>{formatDistanceToNow(new Date(content.lastAccessedAt || content.createdAt), { addSuffix: true })}</span>
+                      <span>{formatDistanceToNow(new Date(content.lastAccessedAt || content.createdAt || Date.now()), { addSuffix: true })}</span>
                     </div>
                   </div>
                   
-                  <Button
-                    variant="ghost"
-                    size="icon"
-                    className="h-8 w-8"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      onSelectContent(content);
-                    }}
-                    data-testid={`button-play-${content.id}`}
-                  >
-                    <Play className="h-4 w-4" />
-                  </Button>
+                  <div className="flex items-center">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onSelectContent(content);
+                      }}
+                      data-testid={`button-play-${content.id}`}
+                    >
+                      <Play className="h-4 w-4" />
+                    </Button>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={(e) => e.stopPropagation()}
+                          data-testid={`button-content-menu-${content.id}`}
+                        >
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" onClick={(e) => e.stopPropagation()}>
+                        <DropdownMenuItem
+                          onClick={() => startEditing(content)}
+                          data-testid={`button-edit-content-${content.id}`}
+                        >
+                          <Pencil className="h-4 w-4 mr-2" />
+                          Edit details
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          className="text-red-600 focus:text-red-600"
+                          onClick={() => setDeletingContent(content)}
+                          data-testid={`button-delete-content-${content.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </div>
                 </div>
               </CardContent>
             </Card>
           );
         })}
       </div>
+
+      <Dialog open={!!editingContent} onOpenChange={(open) => !open && setEditingContent(null)}>
+        <DialogContent className="max-w-md" data-testid="dialog-edit-content">
+          <DialogHeader>
+            <DialogTitle>Edit details</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-title">Title *</Label>
+              <Input
+                id="edit-title"
+                value={editTitle}
+                onChange={(e) => setEditTitle(e.target.value)}
+                data-testid="input-edit-title"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-source">Source (Optional)</Label>
+              <Input
+                id="edit-source"
+                placeholder="e.g., Podcast name, Book title"
+                value={editSource}
+                onChange={(e) => setEditSource(e.target.value)}
+                data-testid="input-edit-source"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingContent(null)} data-testid="button-cancel-edit">
+              Cancel
+            </Button>
+            <Button onClick={handleSaveEdit} disabled={isSaving || !editTitle.trim()} data-testid="button-save-edit">
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={!!deletingContent} onOpenChange={(open) => !open && setDeletingContent(null)}>
+        <AlertDialogContent data-testid="dialog-delete-content">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deletingContent?.title}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The audio file, its transcript and all of its highlights will be permanently removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-red-600 hover:bg-red-700"
+              onClick={(e) => {
+                e.preventDefault();
+                handleConfirmDelete();
+              }}
+              disabled={isSaving}
+              data-testid="button-confirm-delete"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,283 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileDown, Layers, Pencil, PlayCircle, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { ReviewGradeButtons } from "@/components/review-grade-buttons";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/download";
+import type { AudioContent, Flashcard, ReviewGrade, UpdateFlashcard } from "@shared/schema";
+
+interface FlashcardsPanelProps {
+  onOpen: (audioContentId: string, startTime: number) => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+export function FlashcardsPanel({ onOpen }: FlashcardsPanelProps) {
+  const [showAnswer, setShowAnswer] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<Required<UpdateFlashcard>>({ question: "", answer: "" });
+  const [exporting, setExporting] = useState<"zip" | "csv" | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: dueCards = [] } = useQuery<Flashcard[]>({ queryKey: ["/api/flashcards/due"] });
+  const { data: cards = [] } = useQuery<Flashcard[]>({ queryKey: ["/api/flashcards"] });
+  const { data: audioContent = [] } = useQuery<AudioContent[]>({ queryKey: ["/api/audio-content"] });
+
+  const titleOf = (audioContentId: string) =>
+    audioContent.find((content) => content.id === audioContentId)?.title ?? "Unknown item";
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ variant: "destructive", title, description: errorMessage(error) });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, grade }: { id: string; grade: ReviewGrade }) => {
+      return apiRequest("POST", `/api/flashcards/${id}/review`, { grade });
+    },
+    onSuccess: () => {
+      setShowAnswer(false);
+      refresh();
+    },
+    onError: onError("Failed to record review"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: UpdateFlashcard }) => {
+      return apiRequest("PATCH", `/api/flashcards/${id}`, updates);
+    },
+    onSuccess: () => {
+      setEditingId(null);
+      refresh();
+    },
+    onError: onError("Failed to update flashcard"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/flashcards/${id}`);
+    },
+    onSuccess: refresh,
+    onError: onError("Failed to delete flashcard"),
+  });
+
+  const exportDeck = async (kind: "zip" | "csv") => {
+    setExporting(kind);
+    try {
+      await downloadFromApi(`/api/flashcards/export?audio=${kind === "zip"}`, `pensieve-flashcards.${kind}`);
+    } catch (error) {
+      toast({ variant: "destructive", title: "Export failed", description: errorMessage(error as Error) });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const current = dueCards[0];
+
+  return (
+    <div className="space-y-8" data-testid="flashcards-panel">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center">
+            <Layers className="h-5 w-5 mr-2 text-primary" />
+            Review
+          </CardTitle>
+          <Badge variant="outline" data-testid="badge-due-count">
+            {dueCards.length} due
+          </Badge>
+        </CardHeader>
+        <CardContent>
+          {current ? (
+            <div className="space-y-4" data-testid={`review-card-${current.id}`}>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {titleOf(current.audioContentId)} · {formatTime(current.startTime)}
+              </p>
+              <p className="text-lg font-medium text-gray-900 dark:text-white" data-testid="review-question">
+                {current.question}
+              </p>
+              {showAnswer ? (
+                <>
+                  <p className="text-gray-700 dark:text-gray-300" data-testid="review-answer">
+                    {current.answer}
+                  </p>
+                  {/* The media fragment limits playback to the card's passage */}
+                  <audio
+                    key={current.id}
+                    controls
+                    preload="none"
+                    src={`/api/audio/${current.audioContentId}#t=${current.startTime},${current.endTime}`}
+                    className="w-full"
+                    data-testid="review-audio"
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    <ReviewGradeButtons
+                      onGrade={(grade) => reviewMutation.mutate({ id: current.id, grade })}
+                      disabled={reviewMutation.isPending}
+                    />
+                    <Button
+                      variant="ghost"
+                      onClick={() => onOpen(current.audioContentId, current.startTime)}
+                      data-testid="button-open-card-source"
+                    >
+                      <PlayCircle className="h-4 w-4 mr-2" />
+                      Open in player
+                    </Button>
+                  </div>
+                </>
+              ) : (
+                <Button onClick={() => setShowAnswer(true)} data-testid="button-show-answer">
+                  Show answer
+                </Button>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="review-empty">
+              {cards.length > 0
+                ? "Nothing due. Come back later for your next review."
+                : "No flashcards yet. Use Make Flashcards next to an item's highlights to write some."}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>All cards</CardTitle>
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => exportDeck("zip")}
+              disabled={cards.length === 0 || exporting !== null}
+              data-testid="button-export-flashcards-zip"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              {exporting === "zip" ? "Exporting..." : "Anki deck with audio (.zip)"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => exportDeck("csv")}
+              disabled={cards.length === 0 || exporting !== null}
+              data-testid="button-export-flashcards-csv"
+            >
+              CSV
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            To import into Anki, copy the files in the zip's <code>collection.media</code> folder into your Anki
+            profile's <code>collection.media</code> folder, then use File › Import on the CSV. Importing again
+            updates cards instead of duplicating them.
+          </p>
+          {cards.length > 0 && (
+            <div className="space-y-2" data-testid="flashcards-list">
+              {cards.map((card) => (
+                <div
+                  key={card.id}
+                  className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+                  data-testid={`flashcard-${card.id}`}
+                >
+                  {editingId === card.id ? (
+                    <form
+                      className="space-y-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        updateMutation.mutate({ id: card.id, updates: draft });
+                      }}
+                    >
+                      <Textarea
+                        value={draft.question}
+                        onChange={(e) => setDraft({ ...draft, question: e.target.value })}
+                        rows={2}
+                        autoFocus
+                        data-testid={`textarea-flashcard-question-${card.id}`}
+                      />
+                      <Textarea
+                        value={draft.answer}
+                        onChange={(e) => setDraft({ ...draft, answer: e.target.value })}
+                        rows={3}
+                        data-testid={`textarea-flashcard-answer-${card.id}`}
+                      />
+                      <div className="flex space-x-2">
+                        <Button
+                          type="submit"
+                          size="sm"
+                          disabled={!draft.question.trim() || !draft.answer.trim() || updateMutation.isPending}
+                          data-testid={`button-save-flashcard-${card.id}`}
+                        >
+                          Save
+                        </Button>
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => setEditingId(null)}
+                          data-testid={`button-cancel-flashcard-${card.id}`}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </form>
+                  ) : (
+                    <>
+                      <p className="text-sm font-medium text-gray-900 dark:text-gray-100">{card.question}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">{card.answer}</p>
+                      <div className="flex items-center justify-between mt-2 text-xs text-gray-600 dark:text-gray-400">
+                        <button
+                          type="button"
+                          className="hover:text-primary truncate"
+                          onClick={() => onOpen(card.audioContentId, card.startTime)}
+                          data-testid={`button-open-flashcard-${card.id}`}
+                        >
+                          {titleOf(card.audioContentId)} · <span className="font-mono">{formatTime(card.startTime)}</span>
+                        </button>
+                        <div className="flex items-center shrink-0">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6"
+                            onClick={() => {
+                              setDraft({ question: card.question, answer: card.answer });
+                              setEditingId(card.id);
+                            }}
+                            title="Edit"
+                            data-testid={`button-edit-flashcard-${card.id}`}
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 text-red-500 hover:text-red-700"
+                            onClick={() => deleteMutation.mutate(card.id)}
+                            title="Delete"
+                            data-testid={`button-delete-flashcard-${card.id}`}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    </>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
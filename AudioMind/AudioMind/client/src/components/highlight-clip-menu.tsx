@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { Scissors } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/download";
+import type { ClipFormat, Highlight } from "@shared/schema";
+
+interface HighlightClipMenuProps {
+  highlight: Highlight;
+  title: string;
+}
+
+const formats: { format: ClipFormat; label: string; extension: string }[] = [
+  { format: "mp3", label: "MP3 audio (.mp3)", extension: "mp3" },
+  { format: "ogg", label: "Ogg Opus audio (.ogg)", extension: "ogg" },
+  { format: "audiogram", label: "Audiogram video (.mp4)", extension: "mp4" },
+];
+
+// "Title 2-05.mp3" for a clip starting at 2:05, as the server names it
+const clipFileName = (title: string, startTime: number, extension: string) =>
+  `${title} ${Math.floor(startTime / 60)}-${Math.floor(startTime % 60).toString().padStart(2, "0")}.${extension}`;
+
+export function HighlightClipMenu({ highlight, title }: HighlightClipMenuProps) {
+  const [padding, setPadding] = useState(false);
+  const [fade, setFade] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const { toast } = useToast();
+
+  const download = async (format: ClipFormat, extension: string) => {
+    const params = new URLSearchParams({
+      format,
+      padding: padding ? "1" : "0",
+      fade: fade ? "0.5" : "0",
+    });
+
+    setExporting(true);
+    // The first download of a clip waits for it to render; audiograms take a while
+    if (format === "audiogram") {
+      toast({ title: "Rendering audiogram", description: "The video downloads when it's ready." });
+    }
+    try {
+      await downloadFromApi(`/api/highlights/${highlight.id}/clip?${params}`, clipFileName(title, highlight.startTime, extension));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Clip export failed",
+        description: errorMessage(error as Error),
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6"
+          disabled={exporting}
+          title="Export clip"
+          data-testid={`button-export-clip-${highlight.id}`}
+        >
+          <Scissors className="h-3 w-3" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-60">
+        <DropdownMenuLabel>Export clip as</DropdownMenuLabel>
+        {formats.map(({ format, label, extension }) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => download(format, extension)}
+            data-testid={`clip-${format}-${highlight.id}`}
+          >
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={padding}
+          onCheckedChange={setPadding}
+          // Keep the menu open while adjusting options
+          onSelect={(e) => e.preventDefault()}
+          data-testid={`clip-option-padding-${highlight.id}`}
+        >
+          Extra second either side
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuCheckboxItem
+          checked={fade}
+          onCheckedChange={setFade}
+          onSelect={(e) => e.preventDefault()}
+          data-testid={`clip-option-fade-${highlight.id}`}
+        >
+          Fade in and out
+        </DropdownMenuCheckboxItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
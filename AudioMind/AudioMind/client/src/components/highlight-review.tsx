@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Flame, PlayCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ReviewGradeButtons } from "@/components/review-grade-buttons";
+import { useToast } from "@/hooks/use-toast";
+import { highlightReviewKey, useHighlightReview } from "@/hooks/use-highlight-review";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { AudioContent, ReviewGrade } from "@shared/schema";
+
+interface HighlightReviewProps {
+  onOpen: (audioContentId: string, startTime: number) => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Daily spaced-repetition review of the user's highlights: recall the
+// passage from its source and note, then check against the text and audio
+export function HighlightReview({ onOpen }: HighlightReviewProps) {
+  const [revealed, setRevealed] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: session, isLoading } = useHighlightReview();
+  const { data: audioContent = [] } = useQuery<AudioContent[]>({ queryKey: ["/api/audio-content"] });
+
+  const titleOf = (audioContentId: string) =>
+    audioContent.find((content) => content.id === audioContentId)?.title ?? "Unknown item";
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, grade }: { id: string; grade: ReviewGrade }) => {
+      return apiRequest("POST", `/api/highlights/${id}/review`, { grade });
+    },
+    onSuccess: () => {
+      setRevealed(false);
+      queryClient.invalidateQueries({ queryKey: highlightReviewKey });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Failed to record review", description: errorMessage(error) });
+    },
+  });
+
+  const current = session?.queue[0];
+
+  return (
+    <Card data-testid="highlight-review">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center">
+          <Bookmark className="h-5 w-5 mr-2 text-primary" />
+          Daily review
+        </CardTitle>
+        {session && (
+          <div className="flex items-center space-x-2">
+            <Badge variant="outline" data-testid="badge-review-due">
+              {session.queue.length} due
+            </Badge>
+            <Badge variant="outline" data-testid="badge-review-streak">
+              <Flame className="h-3 w-3 mr-1 text-orange-500" />
+              {session.streak}-day streak
+            </Badge>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading review...</p>
+        ) : current ? (
+          <div className="space-y-4" data-testid={`review-highlight-${current.id}`}>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {titleOf(current.audioContentId)} · {formatTime(current.startTime)}
+            </p>
+            {current.note && (
+              <p className="text-sm text-gray-600 dark:text-gray-400 italic" data-testid="review-highlight-note">
+                Note: {current.note}
+              </p>
+            )}
+            {revealed ? (
+              <>
+                <p className="text-gray-900 dark:text-gray-100" data-testid="review-highlight-text">
+                  "{current.text}"
+                </p>
+                {/* The media fragment limits playback to the highlighted range */}
+                <audio
+                  key={current.id}
+                  controls
+                  autoPlay
+                  src={`/api/audio/${current.audioContentId}#t=${current.startTime},${current.endTime}`}
+                  className="w-full"
+                  data-testid="review-highlight-audio"
+                />
+                <div className="flex flex-wrap gap-2">
+                  <ReviewGradeButtons
+                    onGrade={(grade) => reviewMutation.mutate({ id: current.id, grade })}
+                    disabled={reviewMutation.isPending}
+                  />
+                  <Button
+                    variant="ghost"
+                    onClick={() => onOpen(current.audioContentId, current.startTime)}
+                    data-testid="button-open-review-highlight"
+                  >
+                    <PlayCircle className="h-4 w-4 mr-2" />
+                    Open in player
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                  What was said here? Recall it, then reveal the highlight and listen back.
+                </p>
+                <Button onClick={() => setRevealed(true)} data-testid="button-reveal-highlight">
+                  Reveal
+                </Button>
+              </>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="review-highlights-empty">
+            {session?.reviewedToday
+              ? `All done for today: ${session.reviewedToday} review${session.reviewedToday === 1 ? "" : "s"}.`
+              : "Nothing to review. Highlight passages in a transcript to add them to your reviews."}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,13 +1,18 @@
 import { useState } from "react";
-import { Wand2, List, StickyNote, X, Trash2 } from "lucide-react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Wand2, List, Layers, StickyNote, FileDown, X, Trash2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import type { AudioContent, Highlight } from "@shared/schema";
+import { usePlayback } from "@/components/playback-provider";
+import { KeyPointList } from "@/components/key-point-list";
+import { HighlightClipMenu } from "@/components/highlight-clip-menu";
+import type { AudioContent, Flashcard, Highlight } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/download";
 
 interface HighlightsSidebarProps {
   audioContent: AudioContent | null;
@@ -28,9 +33,31 @@ export function HighlightsSidebar({
 }: HighlightsSidebarProps) {
   const [showNoteDialog, setShowNoteDialog] = useState(false);
   const [noteText, setNoteText] = useState("");
-  const [keyPoints, setKeyPoints] = useState<string[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const { seek } = usePlayback();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Cards for the highlights and key points that don't have one yet
+  const flashcardsMutation = useMutation({
+    mutationFn: async (contentId: string) => {
+      const res = await apiRequest("POST", `/api/audio-content/${contentId}/flashcards`);
+      return (await res.json()) as Flashcard[];
+    },
+    onSuccess: (cards) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+      toast({
+        title: cards.length > 0 ? `${cards.length} flashcard${cards.length === 1 ? "" : "s"} added` : "No new flashcards",
+        description: cards.length > 0
+          ? "Review them under Flashcards"
+          : "There are no highlights or key points without a card",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Failed to make flashcards", description: errorMessage(error) });
+    },
+  });
 
   const formatTime = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
@@ -38,7 +65,7 @@ export function HighlightsSidebar({
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
-  const getHighlightColor = (color: string) => {
+  const getHighlightColor = (color: string | null) => {
     const colorMap = {
       yellow: 'bg-yellow-50 dark:bg-yellow-900/20 border-yellow-400',
       blue: 'bg-blue-50 dark:bg-blue-900/20 border-blue-400',
@@ -74,13 +101,7 @@ export function HighlightsSidebar({
     
     setIsGenerating(true);
     try {
-      const response = await apiRequest(
-        'POST',
-        `/api/audio-content/${audioContent.id}/key-points`
-      );
-      const data = await response.json();
-      setKeyPoints(data.keyPoints || []);
-      
+      await onExtractKeyPoints();
       toast({
         title: "Key points extracted",
         description: "Important points have been identified",
@@ -96,6 +117,20 @@ export function HighlightsSidebar({
     }
   };
 
+  const handleExportNote = async () => {
+    if (!audioContent) return;
+
+    try {
+      await downloadFromApi(`/api/audio-content/${audioContent.id}/markdown`, `${audioContent.title}.md`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: errorMessage(error as Error),
+      });
+    }
+  };
+
   const handleAddNote = async () => {
     if (!noteText.trim() || !audioContent) return;
     
@@ -144,6 +179,26 @@ export function HighlightsSidebar({
             <List className="h-4 w-4 mr-2" />
             Extract Key Points
           </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={() => audioContent && flashcardsMutation.mutate(audioContent.id)}
+            disabled={!audioContent || flashcardsMutation.isPending}
+            data-testid="button-make-flashcards"
+          >
+            <Layers className="h-4 w-4 mr-2" />
+            {flashcardsMutation.isPending ? "Writing cards..." : "Make Flashcards"}
+          </Button>
+          <Button
+            variant="outline"
+            className="w-full"
+            onClick={handleExportNote}
+            disabled={!audioContent}
+            data-testid="button-export-note"
+          >
+            <FileDown className="h-4 w-4 mr-2" />
+            Export to Markdown
+          </Button>
           <Dialog open={showNoteDialog} onOpenChange={setShowNoteDialog}>
             <DialogTrigger asChild>
               <Button
@@ -206,16 +261,26 @@ export function HighlightsSidebar({
                     "{highlight.text}"
                   </p>
                   <div className="flex items-center justify-between text-xs text-gray-600 dark:text-gray-400">
-                    <span>{formatTime(highlight.startTime)}</span>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onRemoveHighlight(highlight.id)}
-                      className="h-6 w-6 text-red-500 hover:text-red-700"
-                      data-testid={`button-remove-highlight-${highlight.id}`}
+                    <button
+                      type="button"
+                      className="font-mono hover:text-primary"
+                      onClick={() => seek(highlight.startTime)}
+                      data-testid={`button-seek-highlight-${highlight.id}`}
                     >
-                      <Trash2 className="h-3 w-3" />
-                    </Button>
+                      {formatTime(highlight.startTime)}
+                    </button>
+                    <div className="flex items-center">
+                      {audioContent && <HighlightClipMenu highlight={highlight} title={audioContent.title} />}
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onRemoveHighlight(highlight.id)}
+                        className="h-6 w-6 text-red-500 hover:text-red-700"
+                        data-testid={`button-remove-highlight-${highlight.id}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
                   </div>
                   {highlight.note && (
                     <p className="text-xs text-gray-600 dark:text-gray-400 mt-2 italic">
@@ -234,28 +299,12 @@ export function HighlightsSidebar({
       </Card>
 
       {/* Key Points */}
-      {keyPoints.length > 0 && (
-        <Card>
-          <CardHeader>
-            <CardTitle className="text-lg flex items-center">
-              <List className="h-5 w-5 mr-2 text-accent" />
-              Key Points
-            </CardTitle>
-          </CardHeader>
-          <CardContent>
-            <div className="space-y-2" data-testid="key-points-list">
-              {keyPoints.map((point, index) => (
-                <div
-                  key={index}
-                  className="p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
-                  data-testid={`key-point-${index}`}
-                >
-                  <p className="text-sm text-gray-900 dark:text-gray-100">{point}</p>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+      {audioContent && (
+        <KeyPointList
+          audioContent={audioContent}
+          highlights={highlights}
+          onHighlightCreated={onRefreshHighlights}
+        />
       )}
 
       {/* AI Summary */}
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { List, Pencil, Highlighter, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { usePlayback } from "@/components/playback-provider";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { AudioContent, Highlight, KeyPoint } from "@shared/schema";
+
+interface KeyPointListProps {
+  audioContent: AudioContent;
+  highlights: Highlight[];
+  onHighlightCreated: () => void;
+}
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+export function KeyPointList({ audioContent, highlights, onHighlightCreated }: KeyPointListProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState("");
+  const { seek } = usePlayback();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const queryKey = ["/api/audio-content", audioContent.id, "key-points"];
+
+  const { data: keyPoints = [] } = useQuery<KeyPoint[]>({ queryKey });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ variant: "destructive", title, description: errorMessage(error) });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, text }: { id: string; text: string }) => {
+      const res = await apiRequest("PATCH", `/api/key-points/${id}`, { text });
+      return (await res.json()) as KeyPoint;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData<KeyPoint[]>(queryKey, (existing = []) =>
+        existing.map((keyPoint) => (keyPoint.id === updated.id ? updated : keyPoint)),
+      );
+      setEditingId(null);
+    },
+    onError: onError("Failed to update key point"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("DELETE", `/api/key-points/${id}`);
+    },
+    onSuccess: (_data, id) => {
+      queryClient.setQueryData<KeyPoint[]>(queryKey, (existing = []) =>
+        existing.filter((keyPoint) => keyPoint.id !== id),
+      );
+    },
+    onError: onError("Failed to delete key point"),
+  });
+
+  const highlightMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest("POST", `/api/key-points/${id}/highlight`);
+    },
+    onSuccess: () => {
+      onHighlightCreated();
+      toast({ title: "Highlight added" });
+    },
+    onError: onError("Failed to create highlight"),
+  });
+
+  // A highlight over the same span means the key point was already converted
+  const isHighlighted = (keyPoint: KeyPoint) =>
+    highlights.some(
+      (highlight) => highlight.startTime === keyPoint.startTime && highlight.endTime === keyPoint.endTime,
+    );
+
+  if (keyPoints.length === 0) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center">
+          <List className="h-5 w-5 mr-2 text-accent" />
+          Key Points
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-2" data-testid="key-points-list">
+          {keyPoints.map((keyPoint) => (
+            <div
+              key={keyPoint.id}
+              className="p-2 bg-gray-50 dark:bg-gray-700/50 rounded-lg"
+              data-testid={`key-point-${keyPoint.id}`}
+            >
+              {editingId === keyPoint.id ? (
+                <form
+                  className="space-y-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    updateMutation.mutate({ id: keyPoint.id, text: draft });
+                  }}
+                >
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    rows={3}
+                    autoFocus
+                    data-testid={`textarea-key-point-${keyPoint.id}`}
+                  />
+                  <div className="flex space-x-2">
+                    <Button
+                      type="submit"
+                      size="sm"
+                      disabled={!draft.trim() || updateMutation.isPending}
+                      data-testid={`button-save-key-point-${keyPoint.id}`}
+                    >
+                      Save
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setEditingId(null)}
+                      data-testid={`button-cancel-key-point-${keyPoint.id}`}
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </form>
+              ) : (
+                <>
+                  <p className="text-sm text-gray-900 dark:text-gray-100">{keyPoint.text}</p>
+                  <div className="flex items-center justify-between mt-1 text-xs text-gray-600 dark:text-gray-400">
+                    <button
+                      type="button"
+                      className="font-mono hover:text-primary"
+                      onClick={() => seek(keyPoint.startTime)}
+                      data-testid={`button-seek-key-point-${keyPoint.id}`}
+                    >
+                      {formatTime(keyPoint.startTime)}
+                    </button>
+                    <div className="flex items-center">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => highlightMutation.mutate(keyPoint.id)}
+                        disabled={isHighlighted(keyPoint) || highlightMutation.isPending}
+                        title={isHighlighted(keyPoint) ? "Already highlighted" : "Highlight this passage"}
+                        data-testid={`button-highlight-key-point-${keyPoint.id}`}
+                      >
+                        <Highlighter className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        onClick={() => {
+                          setDraft(keyPoint.text);
+                          setEditingId(keyPoint.id);
+                        }}
+                        title="Edit"
+                        data-testid={`button-edit-key-point-${keyPoint.id}`}
+                      >
+                        <Pencil className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6 text-red-500 hover:text-red-700"
+                        onClick={() => deleteMutation.mutate(keyPoint.id)}
+                        title="Delete"
+                        data-testid={`button-delete-key-point-${keyPoint.id}`}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,7 +1,16 @@
 import { useState } from "react";
-import { Search, Moon, Sun, Upload, User, Menu } from "lucide-react";
+import { Search, Moon, Sun, Upload, User, Menu, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useAuth } from "@/hooks/use-auth";
 import { useTheme } from "./theme-provider";
 import { UploadModal } from "./upload-modal";
 
@@ -12,6 +21,7 @@ interface NavigationHeaderProps {
 
 export function NavigationHeader({ onMenuClick, onSearch }: NavigationHeaderProps) {
   const { theme, setTheme } = useTheme();
+  const { user, logoutMutation } = useAuth();
   const [searchQuery, setSearchQuery] = useState("");
   const [showUploadModal, setShowUploadModal] = useState(false);
 
@@ -53,7 +63,7 @@ export function NavigationHeader({ onMenuClick, onSearch }: NavigationHeaderProp
               <form onSubmit={handleSearch} className="relative w-full">
                 <Input
                   type="text"
-                  placeholder="Search transcripts, highlights, summaries..."
+                  placeholder="Search transcripts, highlights, notes..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10"
@@ -90,9 +100,25 @@ export function NavigationHeader({ onMenuClick, onSearch }: NavigationHeaderProp
               </Button>
 
               {/* Profile */}
-              <Button variant="ghost" size="icon" data-testid="button-profile">
-                <User className="h-4 w-4" />
-              </Button>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button variant="ghost" size="icon" data-testid="button-profile">
+                    <User className="h-4 w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuLabel data-testid="text-username">{user?.username}</DropdownMenuLabel>
+                  <DropdownMenuSeparator />
+                  <DropdownMenuItem
+                    onClick={() => logoutMutation.mutate()}
+                    disabled={logoutMutation.isPending}
+                    data-testid="button-logout"
+                  >
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign out
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
             </div>
           </div>
         </div>
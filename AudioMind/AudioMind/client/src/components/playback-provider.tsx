@@ -0,0 +1,64 @@
+import { createContext, useCallback, useContext, useRef, useState } from "react";
+
+type PlaybackProviderProps = {
+  children: React.ReactNode;
+};
+
+type PlaybackProviderState = {
+  audioRef: React.RefObject<HTMLAudioElement>;
+  currentTime: number;
+  duration: number;
+  isPlaying: boolean;
+  setCurrentTime: (time: number) => void;
+  setDuration: (duration: number) => void;
+  setIsPlaying: (isPlaying: boolean) => void;
+  seek: (time: number) => void;
+  // Where the next item to load should start instead of its saved progress
+  pendingSeek: React.MutableRefObject<number | null>;
+};
+
+const PlaybackProviderContext = createContext<PlaybackProviderState | undefined>(undefined);
+
+export function PlaybackProvider({ children }: PlaybackProviderProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const pendingSeek = useRef<number | null>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  const seek = useCallback((time: number) => {
+    const audio = audioRef.current;
+    const clamped = Math.max(0, duration > 0 ? Math.min(time, duration) : time);
+    if (audio) {
+      audio.currentTime = clamped;
+    }
+    setCurrentTime(clamped);
+  }, [duration]);
+
+  const value = {
+    audioRef,
+    currentTime,
+    duration,
+    isPlaying,
+    setCurrentTime,
+    setDuration,
+    setIsPlaying,
+    seek,
+    pendingSeek,
+  };
+
+  return (
+    <PlaybackProviderContext.Provider value={value}>
+      {children}
+    </PlaybackProviderContext.Provider>
+  );
+}
+
+export const usePlayback = () => {
+  const context = useContext(PlaybackProviderContext);
+
+  if (context === undefined)
+    throw new Error("usePlayback must be used within a PlaybackProvider");
+
+  return context;
+};
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Rss, RefreshCw, Trash2, AlertCircle } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { PodcastFeed, UpdatePodcastFeed } from "@shared/schema";
+
+function parseKeepLast(value: string): number | null {
+  const count = parseInt(value, 10);
+  return Number.isFinite(count) && count > 0 ? count : null;
+}
+
+interface FeedRowProps {
+  feed: PodcastFeed;
+  onUpdate: (updates: UpdatePodcastFeed) => void;
+  onRefresh: () => void;
+  onUnsubscribe: () => void;
+  isRefreshing: boolean;
+}
+
+function FeedRow({ feed, onUpdate, onRefresh, onUnsubscribe, isRefreshing }: FeedRowProps) {
+  const [keepLast, setKeepLast] = useState(feed.keepLastEpisodes?.toString() ?? "");
+
+  return (
+    <div className="flex items-start space-x-4 py-4" data-testid={`feed-row-${feed.id}`}>
+      {feed.artworkUrl ? (
+        <img src={feed.artworkUrl} alt="" className="w-14 h-14 rounded-lg object-cover flex-shrink-0" />
+      ) : (
+        <div className="w-14 h-14 bg-gradient-to-r from-primary to-secondary rounded-lg flex items-center justify-center flex-shrink-0">
+          <Rss className="h-5 w-5 text-white" />
+        </div>
+      )}
+
+      <div className="flex-1 min-w-0 space-y-2">
+        <div>
+          <h3 className="font-medium text-gray-900 dark:text-white truncate" data-testid={`feed-title-${feed.id}`}>
+            {feed.title}
+          </h3>
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate">{feed.feedUrl}</p>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {feed.lastPolledAt
+              ? `Checked ${formatDistanceToNow(new Date(feed.lastPolledAt), { addSuffix: true })}`
+              : "Not checked yet"}
+          </p>
+          {feed.lastError && (
+            <p className="text-xs text-red-500 flex items-center mt-1" data-testid={`feed-error-${feed.id}`}>
+              <AlertCircle className="h-3 w-3 mr-1" />
+              {feed.lastError}
+            </p>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex items-center space-x-2">
+            <Switch
+              id={`auto-transcribe-${feed.id}`}
+              checked={feed.autoTranscribe}
+              onCheckedChange={(checked) => onUpdate({ autoTranscribe: checked })}
+              data-testid={`switch-auto-transcribe-${feed.id}`}
+            />
+            <Label htmlFor={`auto-transcribe-${feed.id}`} className="text-sm">Auto-transcribe</Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Label htmlFor={`keep-last-${feed.id}`} className="text-sm">Keep last</Label>
+            <Input
+              id={`keep-last-${feed.id}`}
+              type="number"
+              min={1}
+              placeholder="All"
+              value={keepLast}
+              onChange={(e) => setKeepLast(e.target.value)}
+              onBlur={() => {
+                const count = parseKeepLast(keepLast);
+                if (count !== feed.keepLastEpisodes) onUpdate({ keepLastEpisodes: count });
+              }}
+              className="w-20 h-8"
+              data-testid={`input-keep-last-${feed.id}`}
+            />
+            <span className="text-sm text-gray-500 dark:text-gray-400">episodes</span>
+          </div>
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRefresh}
+          disabled={isRefreshing}
+          title="Check for new episodes"
+          data-testid={`button-refresh-feed-${feed.id}`}
+        >
+          <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onUnsubscribe}
+          title="Unsubscribe"
+          data-testid={`button-unsubscribe-feed-${feed.id}`}
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function PodcastFeeds() {
+  const [feedUrl, setFeedUrl] = useState("");
+  const [autoTranscribe, setAutoTranscribe] = useState(true);
+  const [keepLast, setKeepLast] = useState("");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: feeds = [], isLoading } = useQuery<PodcastFeed[]>({
+    queryKey: ["/api/feeds"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/feeds"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audio-content"] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ variant: "destructive", title, description: errorMessage(error) });
+  };
+
+  const subscribeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/feeds", {
+        feedUrl: feedUrl.trim(),
+        autoTranscribe,
+        keepLastEpisodes: parseKeepLast(keepLast),
+      });
+      return (await res.json()) as PodcastFeed;
+    },
+    onSuccess: (feed) => {
+      invalidate();
+      setFeedUrl("");
+      setKeepLast("");
+      toast({ title: "Subscribed", description: feed.title });
+    },
+    onError: onError("Subscription failed"),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ feedId, updates }: { feedId: string; updates: UpdatePodcastFeed }) => {
+      return apiRequest("PATCH", `/api/feeds/${feedId}`, updates);
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to update feed"),
+  });
+
+  const refreshMutation = useMutation({
+    mutationFn: async (feedId: string) => {
+      const res = await apiRequest("POST", `/api/feeds/${feedId}/refresh`);
+      return (await res.json()) as { imported: number };
+    },
+    onSuccess: ({ imported }) => {
+      invalidate();
+      toast({
+        title: imported > 0 ? `${imported} new episode${imported === 1 ? "" : "s"}` : "No new episodes",
+      });
+    },
+    onError: (error: Error) => {
+      invalidate();
+      onError("Failed to check feed")(error);
+    },
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async (feedId: string) => {
+      return apiRequest("DELETE", `/api/feeds/${feedId}`);
+    },
+    onSuccess: invalidate,
+    onError: onError("Failed to unsubscribe"),
+  });
+
+  return (
+    <div className="space-y-8" data-testid="podcast-feeds">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Rss className="h-5 w-5" />
+            <span>Subscribe to a podcast</span>
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (feedUrl.trim()) subscribeMutation.mutate();
+            }}
+          >
+            <div className="space-y-2">
+              <Label htmlFor="feed-url">RSS or Atom feed URL</Label>
+              <Input
+                id="feed-url"
+                type="url"
+                placeholder="https://example.com/podcast.xml"
+                value={feedUrl}
+                onChange={(e) => setFeedUrl(e.target.value)}
+                data-testid="input-feed-url"
+              />
+            </div>
+            <div className="flex flex-wrap items-center gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="feed-auto-transcribe"
+                  checked={autoTranscribe}
+                  onCheckedChange={setAutoTranscribe}
+                  data-testid="switch-feed-auto-transcribe"
+                />
+                <Label htmlFor="feed-auto-transcribe">Transcribe new episodes automatically</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Label htmlFor="feed-keep-last">Keep last</Label>
+                <Input
+                  id="feed-keep-last"
+                  type="number"
+                  min={1}
+                  placeholder="All"
+                  value={keepLast}
+                  onChange={(e) => setKeepLast(e.target.value)}
+                  className="w-20"
+                  data-testid="input-feed-keep-last"
+                />
+                <span className="text-sm text-gray-500 dark:text-gray-400">episodes</span>
+              </div>
+            </div>
+            <Button type="submit" disabled={subscribeMutation.isPending || !feedUrl.trim()} data-testid="button-subscribe-feed">
+              {subscribeMutation.isPending ? "Subscribing..." : "Subscribe"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Subscriptions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">Loading feeds...</p>
+          ) : feeds.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="feeds-empty">
+              No subscriptions yet. New episodes from feeds you subscribe to appear in your library automatically.
+            </p>
+          ) : (
+            <div className="divide-y divide-gray-200 dark:divide-gray-700">
+              {feeds.map((feed) => (
+                <FeedRow
+                  key={feed.id}
+                  feed={feed}
+                  onUpdate={(updates) => updateMutation.mutate({ feedId: feed.id, updates })}
+                  onRefresh={() => refreshMutation.mutate(feed.id)}
+                  onUnsubscribe={() => unsubscribeMutation.mutate(feed.id)}
+                  isRefreshing={refreshMutation.isPending && refreshMutation.variables === feed.id}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
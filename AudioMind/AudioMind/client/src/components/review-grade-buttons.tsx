@@ -0,0 +1,34 @@
+import { Button } from "@/components/ui/button";
+import type { ReviewGrade } from "@shared/schema";
+
+interface ReviewGradeButtonsProps {
+  onGrade: (grade: ReviewGrade) => void;
+  disabled?: boolean;
+}
+
+const grades: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: "again", label: "Again", className: "border-red-300 text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20" },
+  { grade: "hard", label: "Hard", className: "border-amber-300 text-amber-600 hover:bg-amber-50 dark:hover:bg-amber-900/20" },
+  { grade: "good", label: "Good", className: "border-green-300 text-green-600 hover:bg-green-50 dark:hover:bg-green-900/20" },
+  { grade: "easy", label: "Easy", className: "border-blue-300 text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20" },
+];
+
+// How well the answer was recalled, shared by flashcard and highlight review
+export function ReviewGradeButtons({ onGrade, disabled }: ReviewGradeButtonsProps) {
+  return (
+    <>
+      {grades.map(({ grade, label, className }) => (
+        <Button
+          key={grade}
+          variant="outline"
+          className={className}
+          onClick={() => onGrade(grade)}
+          disabled={disabled}
+          data-testid={`button-grade-${grade}`}
+        >
+          {label}
+        </Button>
+      ))}
+    </>
+  );
+}
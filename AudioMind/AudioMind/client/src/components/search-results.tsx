@@ -0,0 +1,160 @@
+import { Fragment, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, FileText, Highlighter, StickyNote, Sparkles, Play } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import type { SearchHit, SearchHitKind, SemanticSearchHit } from "@shared/search";
+
+type SearchMode = "keyword" | "semantic";
+
+interface SearchResultsProps {
+  query: string;
+  onOpen: (audioContentId: string, startTime: number) => void;
+}
+
+const hitKinds: Record<SearchHitKind, { label: string; icon: typeof FileText }> = {
+  segment: { label: "Transcript", icon: FileText },
+  highlight: { label: "Highlight", icon: Highlighter },
+  note: { label: "Note", icon: StickyNote },
+};
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+// Snippets mark matches with <mark> tags around otherwise plain text, so split
+// on the tags rather than rendering the snippet as HTML
+function Snippet({ text }: { text: string }) {
+  return (
+    <>
+      {text.split(/(<mark>.*?<\/mark>)/).map((part, index) =>
+        part.startsWith("<mark>") ? (
+          <mark key={index} className="bg-yellow-200 dark:bg-yellow-700/60 text-inherit rounded px-0.5">
+            {part.slice("<mark>".length, -"</mark>".length)}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        ),
+      )}
+    </>
+  );
+}
+
+interface ResultRowProps {
+  title: string;
+  startTime: number;
+  label: string;
+  icon: typeof FileText;
+  onClick: () => void;
+  testId: string;
+  children: React.ReactNode;
+}
+
+function ResultRow({ title, startTime, label, icon: Icon, onClick, testId, children }: ResultRowProps) {
+  return (
+    <button
+      className="w-full text-left py-4 px-2 -mx-2 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 group"
+      onClick={onClick}
+      data-testid={testId}
+    >
+      <div className="flex items-center justify-between mb-1">
+        <div className="flex items-center space-x-2 min-w-0">
+          <Icon className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          <span className="font-medium text-gray-900 dark:text-white truncate">{title}</span>
+          <Badge variant="secondary" className="flex-shrink-0">{label}</Badge>
+        </div>
+        <span className="flex items-center text-sm text-primary flex-shrink-0 ml-4">
+          <Play className="h-3 w-3 mr-1 opacity-0 group-hover:opacity-100" />
+          {formatTime(startTime)}
+        </span>
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-300 leading-relaxed line-clamp-3">{children}</p>
+    </button>
+  );
+}
+
+function useSearch<T>(mode: SearchMode, query: string, enabled: boolean) {
+  const path = mode === "semantic" ? "/api/search/semantic" : "/api/search";
+  return useQuery<T[]>({
+    queryKey: [path, query],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `${path}?q=${encodeURIComponent(query)}`);
+      return res.json();
+    },
+    enabled,
+    // Results go stale as transcripts and highlights change
+    staleTime: 0,
+  });
+}
+
+export function SearchResults({ query, onOpen }: SearchResultsProps) {
+  const [mode, setMode] = useState<SearchMode>("keyword");
+  const keyword = useSearch<SearchHit>("keyword", query, mode === "keyword");
+  const semantic = useSearch<SemanticSearchHit>("semantic", query, mode === "semantic");
+  const { isLoading, error } = mode === "keyword" ? keyword : semantic;
+  const count = mode === "keyword" ? keyword.data?.length ?? 0 : semantic.data?.length ?? 0;
+
+  return (
+    <Card data-testid="search-results">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center space-x-2">
+          <Search className="h-5 w-5" />
+          <span>Results for "{query}"</span>
+        </CardTitle>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as SearchMode)}>
+          <TabsList>
+            <TabsTrigger value="keyword" data-testid="tab-search-keyword">Exact words</TabsTrigger>
+            <TabsTrigger value="semantic" data-testid="tab-search-semantic">Similar meaning</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Searching...</p>
+        ) : error ? (
+          <p className="text-sm text-red-500" data-testid="search-error">{errorMessage(error)}</p>
+        ) : count === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400" data-testid="search-empty">
+            {mode === "keyword"
+              ? `Nothing in your transcripts, highlights or notes matches "${query}".`
+              : "No transcribed passages found yet."}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-200 dark:divide-gray-700">
+            {mode === "keyword"
+              ? keyword.data?.map((hit) => (
+                  <ResultRow
+                    key={`${hit.kind}-${hit.id}`}
+                    title={hit.audioTitle}
+                    startTime={hit.startTime}
+                    label={hitKinds[hit.kind].label}
+                    icon={hitKinds[hit.kind].icon}
+                    onClick={() => onOpen(hit.audioContentId, hit.startTime)}
+                    testId={`search-hit-${hit.kind}-${hit.id}`}
+                  >
+                    <Snippet text={hit.snippet} />
+                  </ResultRow>
+                ))
+              : semantic.data?.map((hit) => (
+                  <ResultRow
+                    key={hit.chunkId}
+                    title={hit.audioTitle}
+                    startTime={hit.startTime}
+                    label={`${Math.round(hit.score * 100)}% match`}
+                    icon={Sparkles}
+                    onClick={() => onOpen(hit.audioContentId, hit.startTime)}
+                    testId={`search-hit-passage-${hit.chunkId}`}
+                  >
+                    {hit.text}
+                  </ResultRow>
+                ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { FileDown, RotateCcw, Save } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/download";
+import { DEFAULT_MARKDOWN_TEMPLATE, MARKDOWN_TEMPLATE_VARIABLES } from "@shared/markdown-template";
+import type { UpdateUserSettings, UserSettings } from "@shared/schema";
+
+export function SettingsPanel() {
+  const [template, setTemplate] = useState(DEFAULT_MARKDOWN_TEMPLATE);
+  const [isExporting, setIsExporting] = useState(false);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: settings } = useQuery<UserSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  useEffect(() => {
+    if (settings) setTemplate(settings.markdownTemplate ?? DEFAULT_MARKDOWN_TEMPLATE);
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (updates: UpdateUserSettings) => {
+      const res = await apiRequest("PATCH", "/api/settings", updates);
+      return (await res.json()) as UserSettings;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(["/api/settings"], saved);
+      toast({ title: "Template saved" });
+    },
+    onError: (error: Error) => {
+      toast({ variant: "destructive", title: "Failed to save template", description: errorMessage(error) });
+    },
+  });
+
+  const exportLibrary = async () => {
+    setIsExporting(true);
+    try {
+      await downloadFromApi("/api/export/markdown", "pensieve-notes.zip");
+    } catch (error) {
+      toast({ variant: "destructive", title: "Export failed", description: errorMessage(error as Error) });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-8" data-testid="settings-panel">
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Markdown notes</CardTitle>
+          <Button onClick={exportLibrary} disabled={isExporting} data-testid="button-export-library">
+            <FileDown className="h-4 w-4 mr-2" />
+            {isExporting ? "Exporting..." : "Export library (.zip)"}
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Notes are written from this template, one file per item, ready to drop into an Obsidian vault.
+            It uses Handlebars-style tags: <code>{"{{name}}"}</code>, <code>{"{{quote name}}"}</code> for
+            front matter values, <code>{"{{#each list}}...{{/each}}"}</code> and{" "}
+            <code>{"{{#if name}}...{{else}}...{{/if}}"}</code>.
+          </p>
+          <Textarea
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            rows={20}
+            spellCheck={false}
+            className="font-mono text-xs"
+            data-testid="textarea-markdown-template"
+          />
+          <div className="flex space-x-2">
+            <Button
+              onClick={() => saveMutation.mutate({ markdownTemplate: template })}
+              disabled={saveMutation.isPending}
+              data-testid="button-save-template"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save template
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => saveMutation.mutate({ markdownTemplate: null })}
+              disabled={saveMutation.isPending || settings?.markdownTemplate == null}
+              data-testid="button-reset-template"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Reset to default
+            </Button>
+          </div>
+          <div className="text-sm" data-testid="template-variables">
+            <p className="font-medium text-gray-900 dark:text-white mb-2">Available values</p>
+            <dl className="grid sm:grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-gray-600 dark:text-gray-400">
+              {MARKDOWN_TEMPLATE_VARIABLES.map((variable) => (
+                <div key={variable.name} className="contents">
+                  <dt className="font-mono text-xs pt-0.5">{variable.name}</dt>
+                  <dd>{variable.description}</dd>
+                </div>
+              ))}
+            </dl>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,8 @@
-import { Home, Headphones, FileText, Bookmark, BarChart3, Settings } from "lucide-react";
+import { Home, Headphones, Rss, MessageSquare, FileText, Bookmark, Layers, BarChart3, Settings } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useHighlightReview } from "@/hooks/use-highlight-review";
 
 interface SidebarProps {
   activeTab: string;
@@ -12,13 +14,20 @@ interface SidebarProps {
 const navigation = [
   { id: "dashboard", name: "Dashboard", icon: Home },
   { id: "library", name: "Audio Library", icon: Headphones },
+  { id: "podcasts", name: "Podcasts", icon: Rss },
+  { id: "chat", name: "Ask", icon: MessageSquare },
   { id: "transcripts", name: "Transcripts", icon: FileText },
   { id: "highlights", name: "Highlights", icon: Bookmark },
+  { id: "flashcards", name: "Flashcards", icon: Layers },
   { id: "analytics", name: "Analytics", icon: BarChart3 },
   { id: "settings", name: "Settings", icon: Settings },
 ];
 
 export function Sidebar({ activeTab, onTabChange, isOpen, onClose }: SidebarProps) {
+  const { data: reviewSession } = useHighlightReview();
+  // Shown next to the nav item whose page reviews them
+  const dueCounts: Record<string, number> = { highlights: reviewSession?.queue.length ?? 0 };
+
   return (
     <>
       {/* Mobile overlay */}
@@ -60,6 +69,11 @@ export function Sidebar({ activeTab, onTabChange, isOpen, onClose }: SidebarProp
                 >
                   <Icon className="h-4 w-4 mr-3" />
                   {item.name}
+                  {dueCounts[item.id] > 0 && (
+                    <Badge variant="secondary" className="ml-auto" data-testid={`badge-due-${item.id}`}>
+                      {dueCounts[item.id]}
+                    </Badge>
+                  )}
                 </Button>
               );
             })}
@@ -0,0 +1,120 @@
+import { useState } from "react";
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useToast } from "@/hooks/use-toast";
+import { errorMessage } from "@/lib/queryClient";
+import { downloadFromApi } from "@/lib/download";
+import type { AudioContent, TranscriptExportFormat } from "@shared/schema";
+
+interface TranscriptExportMenuProps {
+  audioContent: AudioContent;
+}
+
+const formats: { format: TranscriptExportFormat; label: string }[] = [
+  { format: "srt", label: "SubRip subtitles (.srt)" },
+  { format: "vtt", label: "WebVTT captions (.vtt)" },
+  { format: "ttml", label: "TTML captions (.ttml)" },
+  { format: "txt", label: "Plain text (.txt)" },
+  { format: "json", label: "JSON with timings (.json)" },
+];
+
+// Characters per caption line; 42 is the common broadcast limit
+const lineLengths = ["32", "42", "60"];
+
+export function TranscriptExportMenu({ audioContent }: TranscriptExportMenuProps) {
+  const [speakers, setSpeakers] = useState(true);
+  const [maxLineLength, setMaxLineLength] = useState("42");
+  const [offset, setOffset] = useState("0");
+  const { toast } = useToast();
+
+  const download = async (format: TranscriptExportFormat) => {
+    const params = new URLSearchParams({
+      format,
+      speakers: String(speakers),
+      maxLineLength,
+      offset: offset.trim() || "0",
+    });
+
+    try {
+      await downloadFromApi(`/api/audio-content/${audioContent.id}/export?${params}`, `${audioContent.title}.${format}`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Export failed",
+        description: errorMessage(error as Error),
+      });
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" data-testid="button-export-transcript">
+          <Download className="h-4 w-4 mr-1" />
+          Export
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-64">
+        <DropdownMenuLabel>Download transcript as</DropdownMenuLabel>
+        {formats.map(({ format, label }) => (
+          <DropdownMenuItem key={format} onSelect={() => download(format)} data-testid={`export-${format}`}>
+            {label}
+          </DropdownMenuItem>
+        ))}
+        <DropdownMenuSeparator />
+        <DropdownMenuCheckboxItem
+          checked={speakers}
+          onCheckedChange={setSpeakers}
+          // Keep the menu open while adjusting options
+          onSelect={(e) => e.preventDefault()}
+          data-testid="export-option-speakers"
+        >
+          Speaker names
+        </DropdownMenuCheckboxItem>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger data-testid="export-option-line-length">
+            Caption line length: {maxLineLength}
+          </DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            <DropdownMenuRadioGroup value={maxLineLength} onValueChange={setMaxLineLength}>
+              {lineLengths.map((length) => (
+                <DropdownMenuRadioItem key={length} value={length} onSelect={(e) => e.preventDefault()}>
+                  {length} characters
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <div className="flex items-center justify-between px-2 py-1.5 text-sm">
+          <label htmlFor="export-offset">Time offset (s)</label>
+          <Input
+            id="export-offset"
+            type="number"
+            step="0.1"
+            value={offset}
+            onChange={(e) => setOffset(e.target.value)}
+            // The menu's type-ahead would otherwise swallow the keystrokes
+            onKeyDown={(e) => e.stopPropagation()}
+            className="h-7 w-20"
+            data-testid="input-export-offset"
+          />
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
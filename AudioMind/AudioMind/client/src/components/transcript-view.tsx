@@ -1,18 +1,28 @@
-import { useState, useEffect } from "react";
-import { CornerLeftUp, Download, Highlighter } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Check, CornerLeftUp, Highlighter, Pencil, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { AudioContent, Highlight } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { usePlayback } from "@/components/playback-provider";
+import { TranscriptExportMenu } from "@/components/transcript-export-menu";
+import type { AudioContent, Highlight, Speaker, TranscriptSegment } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { useLatestJobEvent } from "@/hooks/use-job-events";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
 
-interface TranscriptSegment {
-  id: string;
-  timestamp: string;
-  text: string;
-  isActive?: boolean;
-}
+// Picked by speaker position, so a speaker keeps its colour across renders
+const speakerColors = [
+  "bg-sky-100 text-sky-800 dark:bg-sky-900/40 dark:text-sky-200",
+  "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-200",
+  "bg-emerald-100 text-emerald-800 dark:bg-emerald-900/40 dark:text-emerald-200",
+  "bg-rose-100 text-rose-800 dark:bg-rose-900/40 dark:text-rose-200",
+  "bg-violet-100 text-violet-800 dark:bg-violet-900/40 dark:text-violet-200",
+  "bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-200",
+];
+
+const speakerColor = (speaker: Speaker) => speakerColors[speaker.position % speakerColors.length];
 
 interface TranscriptViewProps {
   audioContent: AudioContent | null;
@@ -22,28 +32,97 @@ interface TranscriptViewProps {
 
 export function TranscriptView({ audioContent, highlights, onAddHighlight }: TranscriptViewProps) {
   const [autoScroll, setAutoScroll] = useState(true);
-  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
   const [selectedText, setSelectedText] = useState("");
+  // Speaker label to show, or null for everyone
+  const [speakerFilter, setSpeakerFilter] = useState<string | null>(null);
+  const [editingSpeakerId, setEditingSpeakerId] = useState<string | null>(null);
+  const [speakerName, setSpeakerName] = useState("");
+  const { currentTime, seek } = usePlayback();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const segmentRefs = useRef<Record<string, HTMLDivElement | null>>({});
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const latestEvent = useLatestJobEvent(audioContent?.id);
+
+  const retranscribeMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest("POST", `/api/audio-content/${audioContent?.id}/retranscribe`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio-content"] });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Retry failed",
+        description: "The transcription could not be requeued",
+      });
+    },
+  });
+
+  const { data: transcriptSegments = [] } = useQuery<TranscriptSegment[]>({
+    queryKey: ["/api/audio-content", audioContent?.id, "transcript"],
+    enabled: audioContent?.transcriptionStatus === "completed",
+  });
+
+  const { data: speakers = [] } = useQuery<Speaker[]>({
+    queryKey: ["/api/audio-content", audioContent?.id, "speakers"],
+    enabled: audioContent?.transcriptionStatus === "completed",
+  });
+
+  const renameSpeakerMutation = useMutation({
+    mutationFn: async ({ speakerId, name }: { speakerId: string; name: string }) => {
+      return apiRequest("PATCH", `/api/audio-content/${audioContent?.id}/speakers/${speakerId}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio-content", audioContent?.id, "speakers"] });
+      setEditingSpeakerId(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Rename failed",
+        description: errorMessage(error),
+      });
+    },
+  });
 
   useEffect(() => {
-    if (audioContent?.transcriptionText) {
-      // For demo purposes, split the transcript into segments
-      // In a real implementation, this would come from the transcript segments API
-      const sentences = audioContent.transcriptionText.split('. ');
-      const segments = sentences.map((sentence, index) => ({
-        id: `segment-${index}`,
-        timestamp: formatTimestamp(index * 15), // Simulate 15-second intervals
-        text: sentence + (index < sentences.length - 1 ? '.' : ''),
-        isActive: index === 2, // Simulate currently playing segment
-      }));
-      setTranscriptSegments(segments);
+    setSpeakerFilter(null);
+    setEditingSpeakerId(null);
+  }, [audioContent?.id]);
+
+  const speakersByLabel: Record<string, Speaker> = {};
+  for (const speaker of speakers) {
+    speakersByLabel[speaker.label] = speaker;
+  }
+
+  const visibleSegments = speakerFilter
+    ? transcriptSegments.filter((segment) => segment.speaker === speakerFilter)
+    : transcriptSegments;
+
+  // The segment under the playhead is the last one that has already started
+  const activeSegment = transcriptSegments.reduce<TranscriptSegment | undefined>(
+    (active, segment) => (segment.startTime <= currentTime ? segment : active),
+    undefined,
+  );
+
+  useEffect(() => {
+    if (!autoScroll || !activeSegment) return;
+
+    const container = containerRef.current;
+    const element = segmentRefs.current[activeSegment.id];
+    if (container && element) {
+      container.scrollTo({
+        top: element.offsetTop - container.offsetTop - container.clientHeight / 3,
+        behavior: "smooth",
+      });
     }
-  }, [audioContent]);
+  }, [autoScroll, activeSegment?.id]);
 
   const formatTimestamp = (seconds: number) => {
     const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
+    const remainingSeconds = Math.floor(seconds % 60);
     return `${minutes}:${remainingSeconds.toString().padStart(2, '0')}`;
   };
 
@@ -54,12 +133,10 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
     }
   };
 
-  const handleAddHighlight = (segmentText: string, segmentIndex: number) => {
-    const text = selectedText || segmentText;
-    const startTime = segmentIndex * 15; // Simulate timing
-    const endTime = startTime + 15;
+  const handleAddHighlight = (segment: TranscriptSegment) => {
+    const text = selectedText || segment.text;
     
-    onAddHighlight(text, startTime, endTime);
+    onAddHighlight(text, segment.startTime, segment.endTime);
     setSelectedText("");
     
     toast({
@@ -68,42 +145,8 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
     });
   };
 
-  const exportTranscript = async () => {
-    if (!audioContent?.transcriptionText) {
-      toast({
-        variant: "destructive",
-        title: "No transcript available",
-        description: "The transcript is not ready for export",
-      });
-      return;
-    }
-
-    try {
-      const blob = new Blob([audioContent.transcriptionText], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `${audioContent.title}-transcript.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-      
-      toast({
-        title: "Export successful",
-        description: "Transcript has been downloaded",
-      });
-    } catch (error) {
-      toast({
-        variant: "destructive",
-        title: "Export failed",
-        description: "There was an error exporting the transcript",
-      });
-    }
-  };
-
-  const getHighlightStyle = (text: string) => {
-    const highlight = highlights.find(h => h.text.includes(text.slice(0, 50)));
+  const getHighlightStyle = (segment: TranscriptSegment) => {
+    const highlight = highlights.find(h => h.startTime < segment.endTime && h.endTime > segment.startTime);
     if (!highlight) return {};
     
     const colorMap: Record<string, string> = {
@@ -113,7 +156,7 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
       purple: 'bg-purple-200 dark:bg-purple-800/50',
     };
     
-    return { className: colorMap[highlight.color] || colorMap.yellow };
+    return { className: colorMap[highlight.color || 'yellow'] || colorMap.yellow };
   };
 
   if (!audioContent) {
@@ -130,7 +173,25 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
     return (
       <Card data-testid="transcript-view-pending">
         <CardContent className="p-6 text-center">
-          <p className="text-gray-500 dark:text-gray-400">Transcription pending...</p>
+          <p className="text-gray-500 dark:text-gray-400">
+            {latestEvent?.jobType === "import" ? "Downloading audio..." : "Transcription pending..."}
+          </p>
+          {latestEvent?.jobType === "import" && latestEvent.type === "progress" && (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2" data-testid="transcript-download-message">
+              {latestEvent.message}
+            </p>
+          )}
+          {latestEvent?.type === "retrying" ? (
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-2" data-testid="transcript-retry-message">
+              Last attempt failed. {latestEvent.message}
+            </p>
+          ) : (
+            audioContent.transcriptionError && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-2" data-testid="transcript-retry-message">
+                {audioContent.transcriptionError}
+              </p>
+            )
+          )}
         </CardContent>
       </Card>
     );
@@ -141,11 +202,45 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
       <Card data-testid="transcript-view-processing">
         <CardContent className="p-6 text-center">
           <div className="animate-pulse">
-            <p className="text-blue-600 dark:text-blue-400 mb-2">Transcribing audio...</p>
+            <p className="text-blue-600 dark:text-blue-400 mb-2">
+              Transcribing audio... {audioContent.transcriptionProgress ? `${audioContent.transcriptionProgress}%` : ""}
+            </p>
+            {latestEvent?.type === "progress" && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-2" data-testid="transcript-progress-message">
+                {latestEvent.message}
+              </p>
+            )}
             <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
-              <div className="bg-blue-600 h-2 rounded-full animate-pulse" style={{ width: "60%" }} />
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${audioContent.transcriptionProgress || 0}%` }}
+              />
             </div>
           </div>
+          {audioContent.transcriptionText && (
+            <p className="mt-4 text-left text-sm text-gray-700 dark:text-gray-300 max-h-48 overflow-y-auto" data-testid="transcript-partial">
+              {audioContent.transcriptionText}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (audioContent.transcriptionStatus === "skipped") {
+    return (
+      <Card data-testid="transcript-view-skipped">
+        <CardContent className="p-6 text-center space-y-4">
+          <p className="text-gray-500 dark:text-gray-400">This episode has not been transcribed yet.</p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => retranscribeMutation.mutate()}
+            disabled={retranscribeMutation.isPending}
+            data-testid="button-transcribe"
+          >
+            Transcribe now
+          </Button>
         </CardContent>
       </Card>
     );
@@ -154,8 +249,20 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
   if (audioContent.transcriptionStatus === "error") {
     return (
       <Card data-testid="transcript-view-error">
-        <CardContent className="p-6 text-center">
-          <p className="text-red-500">Failed to transcribe audio. Please try uploading again.</p>
+        <CardContent className="p-6 text-center space-y-4">
+          <p className="text-red-500">
+            {audioContent.transcriptionError || "Failed to transcribe audio."}
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => retranscribeMutation.mutate()}
+            disabled={retranscribeMutation.isPending}
+            data-testid="button-retranscribe"
+          >
+            <RotateCcw className="h-4 w-4 mr-1" />
+            Retry transcription
+          </Button>
         </CardContent>
       </Card>
     );
@@ -168,63 +275,155 @@ export function TranscriptView({ audioContent, highlights, onAddHighlight }: Tra
           <h3 className="text-lg font-semibold text-gray-900 dark:text-white">Live Transcript</h3>
           <div className="flex items-center space-x-2">
             <Button
-              variant="outline"
+              variant={autoScroll ? "secondary" : "outline"}
               size="sm"
               onClick={() => setAutoScroll(!autoScroll)}
+              aria-pressed={autoScroll}
               data-testid="button-auto-scroll"
             >
               <CornerLeftUp className="h-4 w-4 mr-1" />
               Auto-scroll
             </Button>
+            <TranscriptExportMenu audioContent={audioContent} />
+          </div>
+        </div>
+
+        {/* Speakers: filter by clicking, rename with the pencil */}
+        {speakers.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 mb-4" data-testid="speaker-filter">
             <Button
-              variant="outline"
+              variant={speakerFilter === null ? "secondary" : "ghost"}
               size="sm"
-              onClick={exportTranscript}
-              data-testid="button-export-transcript"
+              onClick={() => setSpeakerFilter(null)}
+              data-testid="button-speaker-all"
             >
-              <Download className="h-4 w-4 mr-1" />
-              Export
+              All speakers
             </Button>
-          </div>
-        </div>
-
-        {/* Transcript Content */}
-        <div className="space-y-4 max-h-96 overflow-y-auto" onMouseUp={handleTextSelection} data-testid="transcript-content">
-          {transcriptSegments.length > 0 ? (
-            transcriptSegments.map((segment, index) => (
-              <div
-                key={segment.id}
-                className={`group p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
-                  segment.isActive ? 'bg-primary/5 dark:bg-primary/10 border-l-4 border-primary' : ''
-                }`}
-                data-testid={`transcript-segment-${index}`}
-              >
-                <div className="flex items-start space-x-3">
-                  <span className="text-xs text-gray-500 dark:text-gray-400 font-mono mt-1 flex-shrink-0">
-                    {segment.timestamp}
-                  </span>
-                  <p className="text-sm text-gray-900 dark:text-gray-100 leading-relaxed flex-1">
-                    <span className={getHighlightStyle(segment.text).className}>
-                      {segment.text}
-                    </span>
-                    {segment.isActive && (
-                      <Badge variant="secondary" className="ml-2 text-xs">
-                        Currently playing
-                      </Badge>
-                    )}
-                  </p>
+            {speakers.map((speaker) =>
+              editingSpeakerId === speaker.id ? (
+                <form
+                  key={speaker.id}
+                  className="flex items-center space-x-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    renameSpeakerMutation.mutate({ speakerId: speaker.id, name: speakerName });
+                  }}
+                >
+                  <Input
+                    value={speakerName}
+                    onChange={(e) => setSpeakerName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Escape" && setEditingSpeakerId(null)}
+                    className="h-8 w-36"
+                    autoFocus
+                    data-testid={`input-speaker-name-${speaker.id}`}
+                  />
+                  <Button
+                    type="submit"
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    disabled={renameSpeakerMutation.isPending}
+                    data-testid={`button-save-speaker-${speaker.id}`}
+                  >
+                    <Check className="h-4 w-4" />
+                  </Button>
+                </form>
+              ) : (
+                <div key={speaker.id} className="flex items-center">
+                  <button
+                    type="button"
+                    className={`px-2 py-1 rounded-full text-xs font-medium ${speakerColor(speaker)} ${
+                      speakerFilter === speaker.label ? "ring-2 ring-primary" : ""
+                    }`}
+                    onClick={() => setSpeakerFilter(speakerFilter === speaker.label ? null : speaker.label)}
+                    data-testid={`button-speaker-${speaker.id}`}
+                  >
+                    {speaker.name}
+                  </button>
                   <Button
                     variant="ghost"
                     size="icon"
-                    className="opacity-0 group-hover:opacity-100 transition-opacity"
-                    onClick={() => handleAddHighlight(segment.text, index)}
-                    data-testid={`button-highlight-${index}`}
+                    className="h-6 w-6"
+                    onClick={() => {
+                      setEditingSpeakerId(speaker.id);
+                      setSpeakerName(speaker.name);
+                    }}
+                    title="Rename speaker"
+                    data-testid={`button-rename-speaker-${speaker.id}`}
                   >
-                    <Highlighter className="h-4 w-4" />
+                    <Pencil className="h-3 w-3" />
                   </Button>
                 </div>
-              </div>
-            ))
+              ),
+            )}
+          </div>
+        )}
+
+        {/* Transcript Content */}
+        <div
+          ref={containerRef}
+          className="relative space-y-4 max-h-96 overflow-y-auto"
+          onMouseUp={handleTextSelection}
+          data-testid="transcript-content"
+        >
+          {visibleSegments.length > 0 ? (
+            visibleSegments.map((segment, index) => {
+              const isActive = segment.id === activeSegment?.id;
+              const speaker = segment.speaker ? speakersByLabel[segment.speaker] : undefined;
+              // Name the speaker only where the voice changes
+              const showSpeaker = speaker && visibleSegments[index - 1]?.speaker !== segment.speaker;
+
+              return (
+                <div
+                  key={segment.id}
+                  ref={(element) => {
+                    segmentRefs.current[segment.id] = element;
+                  }}
+                  className={`group p-3 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700/50 transition-colors ${
+                    isActive ? 'bg-primary/5 dark:bg-primary/10 border-l-4 border-primary' : ''
+                  }`}
+                  data-testid={`transcript-segment-${index}`}
+                >
+                  <div className="flex items-start space-x-3">
+                    <button
+                      type="button"
+                      className="text-xs text-gray-500 dark:text-gray-400 hover:text-primary font-mono mt-1 flex-shrink-0"
+                      onClick={() => seek(segment.startTime)}
+                      data-testid={`button-seek-${index}`}
+                    >
+                      {formatTimestamp(segment.startTime)}
+                    </button>
+                    <p className="text-sm text-gray-900 dark:text-gray-100 leading-relaxed flex-1">
+                      {showSpeaker && (
+                        <span
+                          className={`inline-block mr-2 px-2 py-0.5 rounded-full text-xs font-medium ${speakerColor(speaker)}`}
+                          data-testid={`segment-speaker-${index}`}
+                        >
+                          {speaker.name}
+                        </span>
+                      )}
+                      <span className={getHighlightStyle(segment).className}>
+                        {segment.text}
+                      </span>
+                      {isActive && (
+                        <Badge variant="secondary" className="ml-2 text-xs">
+                          Currently playing
+                        </Badge>
+                      )}
+                    </p>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="opacity-0 group-hover:opacity-100 transition-opacity"
+                      onClick={() => handleAddHighlight(segment)}
+                      data-testid={`button-highlight-${index}`}
+                    >
+                      <Highlighter className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
           ) : (
             <div className="text-center py-8">
               <p className="text-gray-500 dark:text-gray-400">No transcript available</p>
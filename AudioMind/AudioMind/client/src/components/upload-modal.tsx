@@ -1,4 +1,4 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { Upload, X, CloudUpload } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,7 +6,9 @@ import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, errorMessage } from "@/lib/queryClient";
+import { useLatestJobEvent } from "@/hooks/use-job-events";
+import type { AudioContent } from "@shared/schema";
 
 interface UploadModalProps {
   open: boolean;
@@ -20,19 +22,56 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(0);
+  // Item being downloaded from a URL; its job events drive the progress bar
+  const [importingId, setImportingId] = useState<string>();
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const importEvent = useLatestJobEvent(importingId);
+
+  const resetForm = () => {
+    setTitle("");
+    setSource("");
+    setUrl("");
+    setFile(null);
+  };
+
+  useEffect(() => {
+    if (!importingId || !importEvent) return;
+
+    if (importEvent.jobType === "import" && importEvent.type === "progress" && importEvent.totalBytes) {
+      setUploadProgress(Math.round(((importEvent.bytesReceived ?? 0) / importEvent.totalBytes) * 100));
+    } else if (importEvent.jobType === "import" && importEvent.type === "error") {
+      // The error toast itself comes from useJobEvents
+      setImportingId(undefined);
+      setIsUploading(false);
+      setUploadProgress(0);
+    } else if (importEvent.jobType !== "import") {
+      toast({
+        title: "Download complete",
+        description: "Your audio file is being processed and transcribed",
+      });
+      setImportingId(undefined);
+      setIsUploading(false);
+      setUploadProgress(0);
+      resetForm();
+      onOpenChange(false);
+    }
+  }, [importingId, importEvent, toast, onOpenChange]);
 
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0];
     if (selectedFile) {
       // Check file type
-      const validTypes = ['audio/mpeg', 'audio/wav', 'audio/m4a', 'audio/flac', 'audio/mp3'];
+      const validTypes = [
+        'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/m4a', 'audio/x-m4a', 'audio/mp4',
+        'audio/flac', 'audio/x-flac', 'audio/mp3', 'audio/ogg', 'audio/opus', 'audio/webm', 'video/webm',
+        'audio/aac', 'audio/x-aac',
+      ];
       if (!validTypes.includes(selectedFile.type)) {
         toast({
           variant: "destructive",
           title: "Invalid file type",
-          description: "Please select an audio file (MP3, WAV, M4A, FLAC)",
+          description: "Please select an audio file (MP3, WAV, M4A, FLAC, OGG, OPUS, WEBM, AAC)",
         });
         return;
       }
@@ -67,6 +106,28 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
     }
   };
 
+  const handleImportUrl = async () => {
+    setIsUploading(true);
+    setUploadProgress(0);
+
+    try {
+      const response = await apiRequest("POST", "/api/audio-content/import-url", {
+        url: url.trim(),
+        title: title.trim(),
+        source: source.trim() || undefined,
+      });
+      const content: AudioContent = await response.json();
+      setImportingId(content.id);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Import failed",
+        description: errorMessage(error as Error),
+      });
+      setIsUploading(false);
+    }
+  };
+
   const handleUpload = async () => {
     if (!file && !url) {
       toast({
@@ -86,55 +147,46 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
       return;
     }
 
+    if (!file) {
+      await handleImportUrl();
+      return;
+    }
+
     setIsUploading(true);
     setUploadProgress(0);
 
     try {
-      if (file) {
-        // File upload
-        const formData = new FormData();
-        formData.append('audioFile', file);
-        formData.append('title', title.trim());
-        if (source.trim()) {
-          formData.append('source', source.trim());
-        }
-
-        // Simulate progress
-        const progressInterval = setInterval(() => {
-          setUploadProgress(prev => Math.min(prev + 10, 90));
-        }, 200);
+      // File upload
+      const formData = new FormData();
+      formData.append('audioFile', file);
+      formData.append('title', title.trim());
+      if (source.trim()) {
+        formData.append('source', source.trim());
+      }
 
-        const response = await fetch('/api/audio-content/upload', {
-          method: 'POST',
-          body: formData,
-        });
+      // Simulate progress
+      const progressInterval = setInterval(() => {
+        setUploadProgress(prev => Math.min(prev + 10, 90));
+      }, 200);
 
-        clearInterval(progressInterval);
-        setUploadProgress(100);
+      const response = await fetch('/api/audio-content/upload', {
+        method: 'POST',
+        body: formData,
+      });
 
-        if (!response.ok) {
-          throw new Error('Upload failed');
-        }
+      clearInterval(progressInterval);
+      setUploadProgress(100);
 
-        toast({
-          title: "Upload successful",
-          description: "Your audio file is being processed and transcribed",
-        });
-      } else if (url) {
-        // URL processing (would need backend support)
-        toast({
-          variant: "destructive",
-          title: "URL upload not implemented",
-          description: "URL processing is not yet available",
-        });
-        return;
+      if (!response.ok) {
+        throw new Error('Upload failed');
       }
 
-      // Reset form
-      setTitle("");
-      setSource("");
-      setUrl("");
-      setFile(null);
+      toast({
+        title: "Upload successful",
+        description: "Your audio file is being processed and transcribed",
+      });
+
+      resetForm();
       onOpenChange(false);
       
     } catch (error) {
@@ -180,7 +232,7 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
                   Drag & drop your audio file here, or click to browse
                 </p>
                 <p className="text-xs text-gray-500 dark:text-gray-500">
-                  Supports MP3, WAV, M4A, FLAC (Max 500MB)
+                  Supports MP3, WAV, M4A, FLAC, OGG, OPUS, WEBM, AAC (Max 500MB)
                 </p>
               </div>
             )}
@@ -238,7 +290,9 @@ export function UploadModal({ open, onOpenChange }: UploadModalProps) {
           {isUploading && (
             <div className="space-y-2" data-testid="upload-progress">
               <div className="flex items-center justify-between text-sm">
-                <span className="text-gray-600 dark:text-gray-400">Uploading...</span>
+                <span className="text-gray-600 dark:text-gray-400">
+                  {importingId ? importEvent?.message || "Waiting to download..." : "Uploading..."}
+                </span>
                 <span className="text-primary font-medium">{uploadProgress}%</span>
               </div>
               <Progress value={uploadProgress} className="h-2" />
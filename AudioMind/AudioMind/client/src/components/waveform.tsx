@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { currentChapter } from "@/components/chapter-list";
+import type { Chapter, Highlight } from "@shared/schema";
+
+// Bars drawn across the player; the server reduces its stored peaks to this many
+const WAVEFORM_BARS = 150;
+
+interface WaveformData {
+  resolution: number;
+  peaks: number[];
+}
+
+interface WaveformProps {
+  audioContentId: string;
+  duration: number;
+  currentTime: number;
+  highlights: Highlight[];
+  chapters: Chapter[];
+  onSeek: (time: number) => void;
+}
+
+const highlightColors: Record<string, string> = {
+  yellow: "bg-yellow-300/40",
+  blue: "bg-blue-300/40",
+  green: "bg-green-300/40",
+  purple: "bg-purple-300/40",
+};
+
+const formatTime = (time: number) => {
+  const minutes = Math.floor(time / 60);
+  const seconds = Math.floor(time % 60);
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
+
+export function Waveform({ audioContentId, duration, currentTime, highlights, chapters, onSeek }: WaveformProps) {
+  const [hoverPercent, setHoverPercent] = useState<number | null>(null);
+
+  const { data: waveform } = useQuery<WaveformData | null>({
+    queryKey: ["/api/audio-content", audioContentId, "waveform", WAVEFORM_BARS],
+    queryFn: async () => {
+      const res = await fetch(`/api/audio-content/${audioContentId}/waveform?resolution=${WAVEFORM_BARS}`, {
+        credentials: "include",
+      });
+      // Not generated yet (or ffmpeg unavailable); draw the placeholder
+      if (res.status === 404) return null;
+      if (!res.ok) throw new Error(`${res.status}: ${res.statusText}`);
+      return res.json();
+    },
+    retry: false,
+  });
+
+  const peaks = waveform?.peaks ?? Array.from({ length: WAVEFORM_BARS }, () => 0.3);
+  const playedPercent = duration > 0 ? Math.min(currentTime / duration, 1) : 0;
+
+  const percentAt = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(Math.max((e.clientX - rect.left) / rect.width, 0), 1);
+  };
+
+  const hoverChapter = hoverPercent !== null ? currentChapter(chapters, hoverPercent * duration) : undefined;
+
+  return (
+    <div
+      className="relative h-16 bg-gray-100 dark:bg-gray-700 rounded-lg overflow-hidden cursor-pointer"
+      onClick={(e) => duration > 0 && onSeek(percentAt(e) * duration)}
+      onMouseMove={(e) => setHoverPercent(percentAt(e))}
+      onMouseLeave={() => setHoverPercent(null)}
+      data-testid="audio-waveform"
+    >
+      {/* Highlight regions */}
+      {duration > 0 &&
+        highlights.map((highlight) => (
+          <div
+            key={highlight.id}
+            className={`absolute top-0 h-full pointer-events-none ${highlightColors[highlight.color || "yellow"] || highlightColors.yellow}`}
+            style={{
+              left: `${(highlight.startTime / duration) * 100}%`,
+              width: `${(Math.max(highlight.endTime - highlight.startTime, 1) / duration) * 100}%`,
+            }}
+            data-testid={`waveform-highlight-${highlight.id}`}
+          />
+        ))}
+
+      {/* Chapter boundaries; the first chapter starts at 0 and needs no marker */}
+      {duration > 0 &&
+        chapters.slice(1).map((chapter) => (
+          <div
+            key={chapter.id}
+            className="absolute top-0 h-full w-0.5 bg-gray-900/30 dark:bg-white/40 pointer-events-none z-10"
+            style={{ left: `${(chapter.startTime / duration) * 100}%` }}
+            data-testid={`waveform-chapter-${chapter.id}`}
+          />
+        ))}
+
+      {/* Peaks */}
+      <div className="absolute inset-0 flex items-center gap-px px-1">
+        {peaks.map((peak, index) => {
+          const played = (index + 0.5) / peaks.length <= playedPercent;
+          return (
+            <div
+              key={index}
+              className={`flex-1 rounded-full ${played ? "bg-primary" : "bg-gray-300 dark:bg-gray-500"}`}
+              style={{ height: `${Math.max(peak * 90, 4)}%` }}
+            />
+          );
+        })}
+      </div>
+
+      {/* Hover position and time */}
+      {hoverPercent !== null && duration > 0 && (
+        <>
+          <div
+            className="absolute top-0 h-full w-px bg-gray-900/50 dark:bg-white/60 pointer-events-none"
+            style={{ left: `${hoverPercent * 100}%` }}
+          />
+          <div
+            className="absolute top-1 px-1.5 py-0.5 rounded bg-gray-900 text-white text-xs pointer-events-none -translate-x-1/2 max-w-[60%] truncate z-20"
+            style={{ left: `${Math.min(Math.max(hoverPercent * 100, 4), 96)}%` }}
+            data-testid="waveform-hover-time"
+          >
+            {formatTime(hoverPercent * duration)}
+            {hoverChapter && ` · ${hoverChapter.title}`}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+import { useQuery } from "@tanstack/react-query";
+import type { HighlightReviewSession } from "@shared/review";
+import { apiRequest } from "@/lib/queryClient";
+
+// Days, and so the streak, follow the browser's time zone
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const highlightReviewKey = ["/api/highlights/review", timeZone];
+
+// Today's highlight review queue, shared by the sidebar, dashboard and review page
+export function useHighlightReview() {
+  return useQuery<HighlightReviewSession>({
+    queryKey: highlightReviewKey,
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/highlights/review?timeZone=${encodeURIComponent(timeZone)}`);
+      return res.json();
+    },
+    // Highlights become due with the passing of time, not only after changes
+    refetchInterval: 60 * 1000,
+  });
+}
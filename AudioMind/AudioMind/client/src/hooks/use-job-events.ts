@@ -0,0 +1,81 @@
+import { useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { AudioContent } from "@shared/schema";
+import type { JobEvent } from "@shared/events";
+import { queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+const latestEventKey = (audioContentId: string | undefined) => ["/api/events", audioContentId];
+
+// Keeps the audio content cache in step with job events pushed by the server,
+// replacing the old polling loop. Call once, high in the tree.
+export function useJobEvents(enabled: boolean) {
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const source = new EventSource("/api/events", { withCredentials: true });
+    let hasConnected = false;
+
+    source.onopen = () => {
+      // Anything may have changed while the stream was down
+      if (hasConnected) {
+        queryClient.invalidateQueries({ queryKey: ["/api/audio-content"] });
+      }
+      hasConnected = true;
+    };
+
+    source.addEventListener("job", (message) => {
+      const event: JobEvent = JSON.parse((message as MessageEvent).data);
+      queryClient.setQueryData(latestEventKey(event.audioContentId), event);
+
+      if (event.content) {
+        const content = event.content;
+        queryClient.setQueryData<AudioContent[]>(["/api/audio-content"], (items) => {
+          if (!items) return items;
+          return items.some((item) => item.id === content.id)
+            ? items.map((item) => (item.id === content.id ? content : item))
+            : [content, ...items];
+        });
+      }
+
+      if (event.waveformReady) {
+        queryClient.invalidateQueries({ queryKey: ["/api/audio-content", event.audioContentId, "waveform"] });
+      }
+
+      if (event.chaptersReady) {
+        queryClient.invalidateQueries({ queryKey: ["/api/audio-content", event.audioContentId, "chapters"] });
+      }
+
+      switch (event.type) {
+        case "transcribed":
+          queryClient.invalidateQueries({ queryKey: ["/api/audio-content", event.audioContentId, "transcript"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/audio-content", event.audioContentId, "speakers"] });
+          toast({ title: "Transcription ready", description: event.content?.title });
+          break;
+        case "summary_ready":
+          toast({ title: "Summary ready", description: event.content?.title });
+          break;
+        case "error":
+          toast({
+            variant: "destructive",
+            title: event.message,
+            description: event.content?.title,
+          });
+          break;
+      }
+    });
+
+    return () => source.close();
+  }, [enabled, toast]);
+}
+
+// Most recent job event for an item, e.g. "Chunk 2 of 5 transcribed"
+export function useLatestJobEvent(audioContentId: string | undefined) {
+  const { data } = useQuery<JobEvent>({
+    queryKey: latestEventKey(audioContentId),
+    enabled: false,
+  });
+  return data;
+}
@@ -0,0 +1,15 @@
+import { apiRequest } from "@/lib/queryClient";
+
+// Fetches an API response and saves it as a file. Throws like apiRequest, so
+// callers can show the server's error message.
+export async function downloadFromApi(url: string, fileName: string) {
+  const res = await apiRequest("GET", url);
+  const objectUrl = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = objectUrl;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(objectUrl);
+}
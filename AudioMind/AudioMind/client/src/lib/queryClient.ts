@@ -23,6 +23,16 @@ export async function apiRequest(
   return res;
 }
 
+// apiRequest errors look like "401: {"message":"..."}"; show just the message
+export function errorMessage(error: Error) {
+  const body = error.message.replace(/^\d+: /, "");
+  try {
+    return JSON.parse(body).message || body;
+  } catch {
+    return body;
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,34 +1,67 @@
 import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Flame } from "lucide-react";
 import { NavigationHeader } from "@/components/navigation-header";
 import { Sidebar } from "@/components/sidebar";
 import { AudioPlayer } from "@/components/audio-player";
 import { TranscriptView } from "@/components/transcript-view";
 import { HighlightsSidebar } from "@/components/highlights-sidebar";
+import { ChapterList } from "@/components/chapter-list";
 import { ContentLibrary } from "@/components/content-library";
+import { PodcastFeeds } from "@/components/podcast-feeds";
+import { SearchResults } from "@/components/search-results";
+import { ChatPanel } from "@/components/chat-panel";
+import { SettingsPanel } from "@/components/settings-panel";
+import { FlashcardsPanel } from "@/components/flashcards-panel";
+import { HighlightReview } from "@/components/highlight-review";
+import { Button } from "@/components/ui/button";
+import { usePlayback } from "@/components/playback-provider";
 import { useToast } from "@/hooks/use-toast";
+import { useJobEvents } from "@/hooks/use-job-events";
+import { highlightReviewKey, useHighlightReview } from "@/hooks/use-highlight-review";
 import { apiRequest } from "@/lib/queryClient";
-import type { AudioContent, Highlight } from "@shared/schema";
+import type { AudioContent, Highlight, KeyPoint, UpdateAudioContent } from "@shared/schema";
 
 export default function Dashboard() {
   const [activeTab, setActiveTab] = useState("dashboard");
   const [sidebarOpen, setSidebarOpen] = useState(false);
-  const [selectedContent, setSelectedContent] = useState<AudioContent | null>(null);
+  // Exported notes link back as /?item=<id>&t=<seconds>
+  const [selectedContentId, setSelectedContentId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("item"),
+  );
+  const [searchQuery, setSearchQuery] = useState("");
+  const { pendingSeek } = usePlayback();
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch audio content
-  const { data: audioContent = [], isLoading: contentLoading } = useQuery({
+  const { data: audioContent = [], isLoading: contentLoading } = useQuery<AudioContent[]>({
     queryKey: ["/api/audio-content"],
-    refetchInterval: 5000, // Refetch every 5 seconds to check transcription status
   });
 
+  // Transcription status changes arrive as server-sent events
+  useJobEvents(true);
+
+  // Derived from the list so status and progress changes show up as they arrive
+  const selectedContent = audioContent.find((content) => content.id === selectedContentId) ?? null;
+
   // Fetch highlights for selected content
-  const { data: highlights = [] } = useQuery({
+  const { data: highlights = [] } = useQuery<Highlight[]>({
     queryKey: ["/api/audio-content", selectedContent?.id, "highlights"],
     enabled: !!selectedContent,
   });
 
+  const { data: reviewSession } = useHighlightReview();
+
+  // New and removed highlights change the review queue too, and removing one
+  // removes its flashcards
+  const refreshHighlights = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/audio-content", selectedContent?.id, "highlights"] });
+    queryClient.invalidateQueries({ queryKey: highlightReviewKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/flashcards/due"] });
+  };
+
   // Update progress mutation
   const updateProgressMutation = useMutation({
     mutationFn: async ({ contentId, progress }: { contentId: string; progress: number }) => {
@@ -44,9 +77,7 @@ export default function Dashboard() {
     mutationFn: async (highlight: { audioContentId: string; text: string; startTime: number; endTime: number; color?: string }) => {
       return apiRequest("POST", "/api/highlights", highlight);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/audio-content", selectedContent?.id, "highlights"] });
-    },
+    onSuccess: refreshHighlights,
   });
 
   // Remove highlight mutation
@@ -54,9 +85,7 @@ export default function Dashboard() {
     mutationFn: async (highlightId: string) => {
       return apiRequest("DELETE", `/api/highlights/${highlightId}`);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/audio-content", selectedContent?.id, "highlights"] });
-    },
+    onSuccess: refreshHighlights,
   });
 
   // Generate summary mutation
@@ -69,37 +98,84 @@ export default function Dashboard() {
     },
   });
 
-  // Auto-select first content item
-  useEffect(() => {
-    if (audioContent.length > 0 && !selectedContent) {
-      setSelectedContent(audioContent[0]);
-    }
-  }, [audioContent, selectedContent]);
+  // Extract key points mutation; replaces the item's stored key points
+  const extractKeyPointsMutation = useMutation({
+    mutationFn: async (contentId: string) => {
+      const res = await apiRequest("POST", `/api/audio-content/${contentId}/key-points`);
+      return (await res.json()) as KeyPoint[];
+    },
+    onSuccess: (keyPoints, contentId) => {
+      queryClient.setQueryData(["/api/audio-content", contentId, "key-points"], keyPoints);
+    },
+  });
 
-  const handleSearch = async (query: string) => {
-    try {
-      const response = await apiRequest("GET", `/api/audio-content/search?q=${encodeURIComponent(query)}`);
-      const results = await response.json();
-      
-      if (results.length === 0) {
-        toast({
-          title: "No results found",
-          description: `No content found matching "${query}"`,
-        });
-      } else {
-        toast({
-          title: "Search completed",
-          description: `Found ${results.length} result(s)`,
-        });
-        // You could update the content list with search results here
+  // Edit audio content details mutation
+  const updateContentMutation = useMutation({
+    mutationFn: async ({ contentId, updates }: { contentId: string; updates: UpdateAudioContent }) => {
+      return apiRequest("PATCH", `/api/audio-content/${contentId}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio-content"] });
+      toast({ title: "Details updated" });
+    },
+    onError: () => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: "There was an error saving your changes",
+      });
+    },
+  });
+
+  // Delete audio content mutation
+  const deleteContentMutation = useMutation({
+    mutationFn: async (contentId: string) => {
+      return apiRequest("DELETE", `/api/audio-content/${contentId}`);
+    },
+    onSuccess: (_data, contentId) => {
+      if (contentId === selectedContentId) {
+        setSelectedContentId(null);
       }
-    } catch (error) {
+      queryClient.invalidateQueries({ queryKey: ["/api/audio-content"] });
+      toast({ title: "Audio content deleted" });
+    },
+    onError: () => {
       toast({
         variant: "destructive",
-        title: "Search failed",
-        description: "There was an error searching your content",
+        title: "Delete failed",
+        description: "There was an error deleting the audio content",
       });
+    },
+  });
+
+  // Start a deep-linked item at the linked moment, then tidy the address bar
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const startTime = parseInt(params.get("t") || "", 10);
+    if (params.has("item")) {
+      if (Number.isFinite(startTime)) pendingSeek.current = startTime;
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, []);
+
+  // Auto-select first content item
+  useEffect(() => {
+    if (audioContent.length > 0 && !selectedContent) {
+      setSelectedContentId(audioContent[0].id);
     }
+  }, [audioContent, selectedContent]);
+
+  const handleSearch = (query: string) => {
+    setSearchQuery(query);
+    setActiveTab("search");
+  };
+
+  // Opens a search hit or chat citation. The player mounts with the dashboard
+  // tab and starts at the pending position.
+  const handleOpenMoment = (audioContentId: string, startTime: number) => {
+    pendingSeek.current = startTime;
+    setSelectedContentId(audioContentId);
+    setActiveTab("dashboard");
   };
 
   const handleProgressUpdate = (progress: number) => {
@@ -134,19 +210,39 @@ export default function Dashboard() {
   };
 
   const handleExtractKeyPoints = async () => {
-    // This would be implemented as a separate API call
-    toast({
-      title: "Feature coming soon",
-      description: "Key point extraction will be available soon",
-    });
+    if (selectedContent) {
+      await extractKeyPointsMutation.mutateAsync(selectedContent.id);
+    }
   };
 
   const renderMainContent = () => {
     if (activeTab === "dashboard") {
       return (
         <div className="space-y-8">
+          {reviewSession && (reviewSession.queue.length > 0 || reviewSession.streak > 0) && (
+            <div
+              className="flex items-center justify-between p-4 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700"
+              data-testid="review-banner"
+            >
+              <div className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <Flame className="h-5 w-5 mr-2 text-orange-500" />
+                <span data-testid="text-review-streak">
+                  {reviewSession.streak}-day review streak
+                  {reviewSession.queue.length > 0 &&
+                    ` · ${reviewSession.queue.length} highlight${reviewSession.queue.length === 1 ? "" : "s"} to review`}
+                </span>
+              </div>
+              {reviewSession.queue.length > 0 && (
+                <Button size="sm" onClick={() => setActiveTab("highlights")} data-testid="button-start-review">
+                  Review now
+                </Button>
+              )}
+            </div>
+          )}
+
           <AudioPlayer
             audioContent={selectedContent}
+            highlights={highlights}
             onProgressUpdate={handleProgressUpdate}
           />
           
@@ -158,31 +254,54 @@ export default function Dashboard() {
                 onAddHighlight={handleAddHighlight}
               />
             </div>
-            <div>
+            <div className="space-y-8">
+              <ChapterList audioContent={selectedContent} />
               <HighlightsSidebar
                 audioContent={selectedContent}
                 highlights={highlights}
                 onGenerateSummary={handleGenerateSummary}
                 onExtractKeyPoints={handleExtractKeyPoints}
                 onRemoveHighlight={handleRemoveHighlight}
-                onRefreshHighlights={() => {
-                  queryClient.invalidateQueries({ 
-                    queryKey: ["/api/audio-content", selectedContent?.id, "highlights"] 
-                  });
-                }}
+                onRefreshHighlights={refreshHighlights}
               />
             </div>
           </div>
           
           <ContentLibrary
             audioContent={audioContent}
-            onSelectContent={setSelectedContent}
+            onSelectContent={(content) => setSelectedContentId(content.id)}
+            onUpdateContent={(contentId, updates) => updateContentMutation.mutateAsync({ contentId, updates })}
+            onDeleteContent={(contentId) => deleteContentMutation.mutateAsync(contentId)}
             selectedContentId={selectedContent?.id}
           />
         </div>
       );
     }
 
+    if (activeTab === "podcasts") {
+      return <PodcastFeeds />;
+    }
+
+    if (activeTab === "chat") {
+      return <ChatPanel selectedContent={selectedContent} onOpenCitation={handleOpenMoment} />;
+    }
+
+    if (activeTab === "highlights") {
+      return <HighlightReview onOpen={handleOpenMoment} />;
+    }
+
+    if (activeTab === "flashcards") {
+      return <FlashcardsPanel onOpen={handleOpenMoment} />;
+    }
+
+    if (activeTab === "settings") {
+      return <SettingsPanel />;
+    }
+
+    if (activeTab === "search" && searchQuery) {
+      return <SearchResults query={searchQuery} onOpen={handleOpenMoment} />;
+    }
+
     // Other tabs would be implemented here
     return (
       <div className="text-center py-12">
@@ -0,0 +1,47 @@
+CREATE TABLE "audio_content" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"source" text,
+	"file_name" text NOT NULL,
+	"file_path" text NOT NULL,
+	"duration" integer,
+	"file_size" integer,
+	"mime_type" text,
+	"transcription_status" text DEFAULT 'pending',
+	"transcription_text" text,
+	"ai_summary" text,
+	"keywords" jsonb DEFAULT '[]'::jsonb,
+	"progress" integer DEFAULT 0,
+	"created_at" timestamp DEFAULT now(),
+	"last_accessed_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "highlights" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"text" text NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"color" text DEFAULT 'yellow',
+	"note" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "transcript_segments" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"text" text NOT NULL,
+	"confidence" integer,
+	"sequence_number" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
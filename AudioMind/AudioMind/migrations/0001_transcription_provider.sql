@@ -0,0 +1 @@
+ALTER TABLE "audio_content" ADD COLUMN "transcription_provider" text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "audio_content" ADD COLUMN "transcription_progress" integer DEFAULT 0;
\ No newline at end of file
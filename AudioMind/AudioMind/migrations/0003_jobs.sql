@@ -0,0 +1,14 @@
+CREATE TABLE "jobs" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"type" text NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"payload" jsonb DEFAULT '{}'::jsonb,
+	"status" text DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 5 NOT NULL,
+	"next_run_at" timestamp DEFAULT now() NOT NULL,
+	"last_error" text,
+	"locked_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
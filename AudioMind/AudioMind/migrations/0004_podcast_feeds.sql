@@ -0,0 +1,20 @@
+CREATE TABLE "podcast_feeds" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"feed_url" text NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"artwork_url" text,
+	"auto_transcribe" boolean DEFAULT true NOT NULL,
+	"keep_last_episodes" integer,
+	"last_episode_at" timestamp,
+	"last_polled_at" timestamp,
+	"last_error" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "feed_id" varchar;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "episode_guid" text;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "published_at" timestamp;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "artwork_url" text;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "show_notes" text;
\ No newline at end of file
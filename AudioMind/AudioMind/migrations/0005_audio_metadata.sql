@@ -0,0 +1,4 @@
+ALTER TABLE "audio_content" ADD COLUMN "codec" text;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "bit_rate" integer;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "channels" integer;--> statement-breakpoint
+ALTER TABLE "audio_content" ADD COLUMN "sample_rate" integer;
\ No newline at end of file
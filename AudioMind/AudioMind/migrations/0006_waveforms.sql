@@ -0,0 +1,5 @@
+CREATE TABLE "waveforms" (
+	"audio_content_id" varchar PRIMARY KEY NOT NULL,
+	"peaks" jsonb NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,9 @@
+CREATE TABLE "speakers" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"label" text NOT NULL,
+	"name" text NOT NULL,
+	"position" integer NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "transcript_segments" ADD COLUMN "speaker" text;
\ No newline at end of file
@@ -0,0 +1,3 @@
+CREATE INDEX "highlights_text_search_idx" ON "highlights" USING gin (to_tsvector('english', "text"));--> statement-breakpoint
+CREATE INDEX "highlights_note_search_idx" ON "highlights" USING gin (to_tsvector('english', "note"));--> statement-breakpoint
+CREATE INDEX "transcript_segments_text_search_idx" ON "transcript_segments" USING gin (to_tsvector('english', "text"));
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE EXTENSION IF NOT EXISTS vector;--> statement-breakpoint
+CREATE TABLE "transcript_chunks" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"text" text NOT NULL,
+	"model" text NOT NULL,
+	"embedding" vector NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "transcript_chunks_audio_content_id_idx" ON "transcript_chunks" USING btree ("audio_content_id");
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "chapters" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"title" text NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"synopsis" text,
+	"source" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "chapters_audio_content_id_idx" ON "chapters" USING btree ("audio_content_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE "key_points" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"position" integer NOT NULL,
+	"text" text NOT NULL,
+	"segment_ids" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "key_points_audio_content_id_idx" ON "key_points" USING btree ("audio_content_id");
\ No newline at end of file
@@ -0,0 +1,5 @@
+CREATE TABLE "user_settings" (
+	"user_id" varchar PRIMARY KEY NOT NULL,
+	"markdown_template" text,
+	"updated_at" timestamp DEFAULT now()
+);
@@ -0,0 +1,18 @@
+CREATE TABLE "flashcards" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar NOT NULL,
+	"audio_content_id" varchar NOT NULL,
+	"highlight_id" varchar,
+	"key_point_id" varchar,
+	"question" text NOT NULL,
+	"answer" text NOT NULL,
+	"start_time" integer NOT NULL,
+	"end_time" integer NOT NULL,
+	"box" integer DEFAULT 0 NOT NULL,
+	"due_at" timestamp DEFAULT now() NOT NULL,
+	"last_reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "flashcards_user_id_due_at_idx" ON "flashcards" USING btree ("user_id","due_at");--> statement-breakpoint
+CREATE INDEX "flashcards_audio_content_id_idx" ON "flashcards" USING btree ("audio_content_id");
\ No newline at end of file
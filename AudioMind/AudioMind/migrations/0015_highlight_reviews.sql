@@ -0,0 +1,14 @@
+CREATE TABLE "highlight_reviews" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"highlight_id" varchar NOT NULL,
+	"user_id" varchar NOT NULL,
+	"grade" text NOT NULL,
+	"repetitions" integer NOT NULL,
+	"ease_factor" real NOT NULL,
+	"interval_days" integer NOT NULL,
+	"due_at" timestamp NOT NULL,
+	"reviewed_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "highlight_reviews_user_id_reviewed_at_idx" ON "highlight_reviews" USING btree ("user_id","reviewed_at");--> statement-breakpoint
+CREATE INDEX "highlight_reviews_highlight_id_reviewed_at_idx" ON "highlight_reviews" USING btree ("highlight_id","reviewed_at");
\ No newline at end of file
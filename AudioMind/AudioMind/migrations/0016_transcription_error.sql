@@ -0,0 +1,4 @@
+ALTER TABLE "audio_content" ADD COLUMN "transcription_error" text;--> statement-breakpoint
+-- Status and error notices used to be written into the transcript text
+UPDATE "audio_content" SET "transcription_error" = regexp_replace("transcription_text", '^Error: ', ''), "transcription_text" = NULL WHERE "transcription_status" = 'error' AND "transcription_text" LIKE 'Error: %';--> statement-breakpoint
+UPDATE "audio_content" SET "transcription_error" = "transcription_text", "transcription_text" = NULL WHERE "transcription_status" = 'pending' AND "transcription_text" LIKE '%retrying shortly...';
@@ -0,0 +1,2 @@
+ALTER TABLE "podcast_feeds" ADD COLUMN "seen_episode_guids" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+UPDATE "podcast_feeds" SET "seen_episode_guids" = (SELECT coalesce(jsonb_agg(DISTINCT "episode_guid"), '[]'::jsonb) FROM "audio_content" WHERE "audio_content"."feed_id" = "podcast_feeds"."id" AND "episode_guid" IS NOT NULL);
@@ -0,0 +1 @@
+ALTER TABLE "chat_conversations" ADD COLUMN "auto_title" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { askQuestion } from "./chat";
+import { embeddingProvider } from "./services/embeddings";
+
+describe("askQuestion", () => {
+  let userId: string;
+  let audioContentId: string;
+
+  before(async () => {
+    userId = (await storage.createUser({ username: "asker", password: "hash" })).id;
+    const content = await storage.createAudioContent({ userId, title: "Tides", fileName: "tides.mp3", filePath: "/tmp/tides.mp3" });
+    audioContentId = content.id;
+
+    const text = "The moon's gravity pulls the oceans and causes the tides";
+    const [embedding] = await embeddingProvider.embed([text]);
+    await storage.replaceTranscriptChunks(content.id, [
+      { audioContentId, startTime: 30, endTime: 90, text, model: embeddingProvider.model, embedding },
+    ]);
+  });
+
+  it("saves the question and the answer with the passages it cites", async () => {
+    const conversation = await storage.createChatConversation({ userId, title: "Tides", scopeType: "item", scopeId: audioContentId });
+
+    const [question, answer] = await askQuestion(conversation, "What causes the tides?");
+
+    assert.equal(question.role, "user");
+    assert.equal(answer.role, "assistant");
+    assert.deepEqual(answer.citations, [{ index: 1, audioContentId, audioTitle: "Tides", startTime: 30, endTime: 90 }]);
+    assert.equal((await storage.getChatMessages(conversation.id)).length, 2);
+  });
+
+  it("names the conversation after its first question", async () => {
+    const conversation = await storage.createChatConversation({ userId, title: "Whole library", scopeType: "library", scopeId: null });
+
+    await askQuestion(conversation, "What causes the tides?");
+    assert.equal((await storage.getChatConversation(conversation.id))?.title, "What causes the tides?");
+
+    const renamed = (await storage.getChatConversation(conversation.id))!;
+    await askQuestion(renamed, "And the moon?");
+    assert.equal((await storage.getChatConversation(conversation.id))?.title, "What causes the tides?");
+  });
+
+  it("keeps a title the user gave the conversation", async () => {
+    const conversation = await storage.createChatConversation({
+      userId,
+      title: "Revision notes",
+      scopeType: "library",
+      scopeId: null,
+      autoTitle: false,
+    });
+
+    await askQuestion(conversation, "What causes the tides?");
+    assert.equal((await storage.getChatConversation(conversation.id))?.title, "Revision notes");
+  });
+});
@@ -0,0 +1,85 @@
+import { storage } from "./storage";
+import { embeddingProvider } from "./services/embeddings";
+import { answerQuestion, type AnswerPassage } from "./services/ai";
+import type { ChatCitation, ChatConversation, ChatMessage } from "@shared/schema";
+
+// Passages retrieved for each question
+const PASSAGE_COUNT = 8;
+// Earlier messages sent along so follow-up questions have context
+const HISTORY_MESSAGES = 10;
+const TITLE_MAX_LENGTH = 80;
+
+// Items the conversation draws on; undefined means the whole library
+async function scopeAudioContentIds(conversation: ChatConversation): Promise<string[] | undefined> {
+  switch (conversation.scopeType) {
+    case "item":
+      return [conversation.scopeId!];
+    case "feed":
+      return (await storage.getAudioContentByFeed(conversation.scopeId!)).map((content) => content.id);
+    default:
+      return undefined;
+  }
+}
+
+// Numbers the answer cites, e.g. 1 and 3 from "... [1][3]"
+function citedIndexes(answer: string): number[] {
+  return (answer.match(/\[\d+\]/g) ?? []).map((marker) => parseInt(marker.slice(1, -1), 10));
+}
+
+// Answers the question from the closest transcript passages in the
+// conversation's scope, then saves the question and the answer with the
+// passages it cites. Nothing is saved if answering fails.
+export async function askQuestion(conversation: ChatConversation, question: string): Promise<ChatMessage[]> {
+  const previous = await storage.getChatMessages(conversation.id);
+  const history = previous.slice(-HISTORY_MESSAGES).map((message) => ({
+    role: message.role as "user" | "assistant",
+    content: message.content,
+  }));
+
+  const [embedding] = await embeddingProvider.embed([question]);
+  const hits = await storage.searchTranscriptChunks(
+    conversation.userId,
+    embedding,
+    embeddingProvider.model,
+    PASSAGE_COUNT,
+    await scopeAudioContentIds(conversation),
+  );
+  const passages: AnswerPassage[] = hits.map((hit, index) => ({ ...hit, index: index + 1 }));
+
+  const answer = await answerQuestion(question, passages, history);
+
+  const cited = citedIndexes(answer);
+  const citations: ChatCitation[] = hits
+    .map((hit, index) => ({
+      index: index + 1,
+      audioContentId: hit.audioContentId,
+      audioTitle: hit.audioTitle,
+      startTime: hit.startTime,
+      endTime: hit.endTime,
+    }))
+    .filter((citation) => cited.includes(citation.index));
+
+  const userMessage = await storage.createChatMessage({
+    conversationId: conversation.id,
+    role: "user",
+    content: question,
+    citations: [],
+  });
+  const assistantMessage = await storage.createChatMessage({
+    conversationId: conversation.id,
+    role: "assistant",
+    content: answer,
+    citations,
+  });
+
+  // The first question names the conversation unless the user already did;
+  // later ones just mark it active
+  await storage.updateChatConversation(
+    conversation.id,
+    previous.length === 0 && conversation.autoTitle
+      ? { title: question.length > TITLE_MAX_LENGTH ? `${question.slice(0, TITLE_MAX_LENGTH - 1)}…` : question }
+      : {},
+  );
+
+  return [userMessage, assistantMessage];
+}
@@ -0,0 +1,120 @@
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { clipCacheDir } from "./uploads";
+import { extractAudioClip, renderAudiogram } from "./services/ffmpeg";
+import { wrap } from "./services/subtitles";
+import type { AudioContent, ClipFormat, Highlight, HighlightClipOptions } from "@shared/schema";
+
+export const clipTypes: Record<ClipFormat, { extension: string; contentType: string }> = {
+  mp3: { extension: "mp3", contentType: "audio/mpeg" },
+  ogg: { extension: "ogg", contentType: "audio/ogg" },
+  audiogram: { extension: "mp4", contentType: "video/mp4" },
+};
+
+// Audiograms are rendered frame by frame while the user waits
+export const MAX_AUDIOGRAM_SECONDS = 120;
+
+// Audiogram caption layout: lines that fit the 1080px frame at the caption's
+// font size, and as many as fit above the waveform
+const CAPTION_LINE_LENGTH = 36;
+const CAPTION_LINES = 6;
+const TITLE_LENGTH = 50;
+
+// The highlight's range widened by the padding, kept within the audio
+export function clipRange(highlight: Highlight, content: AudioContent, padding: number): { start: number; end: number } {
+  const start = Math.max(0, highlight.startTime - padding);
+  const end = highlight.endTime + padding;
+  return { start, end: content.duration ? Math.min(end, content.duration) : end };
+}
+
+// Shortens text to at most maxLength characters, ending with an ellipsis when cut
+const truncate = (text: string, maxLength: number) =>
+  text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+
+function captionLines(text: string): string {
+  const lines = wrap(`“${text.trim()}”`, CAPTION_LINE_LENGTH);
+  if (lines.length <= CAPTION_LINES) return lines.join("\n");
+  const kept = lines.slice(0, CAPTION_LINES);
+  kept[CAPTION_LINES - 1] = truncate(`${kept[CAPTION_LINES - 1]} ${lines[CAPTION_LINES]}`, CAPTION_LINE_LENGTH);
+  return kept.join("\n");
+}
+
+async function renderClip(
+  highlight: Highlight,
+  content: AudioContent,
+  options: HighlightClipOptions,
+  outputPath: string,
+): Promise<void> {
+  const { start, end } = clipRange(highlight, content, options.padding);
+  const range = { start, duration: Math.max(end - start, 1), fade: options.fade };
+
+  if (options.format !== "audiogram") {
+    await extractAudioClip(content.filePath, outputPath, options.format, range);
+    return;
+  }
+
+  // drawtext reads the text from files, which avoids escaping it into the filter graph
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pensieve-audiogram-"));
+  try {
+    const captionFile = path.join(workDir, "caption.txt");
+    const titleFile = path.join(workDir, "title.txt");
+    await fs.promises.writeFile(captionFile, captionLines(highlight.text));
+    await fs.promises.writeFile(titleFile, truncate(content.title, TITLE_LENGTH));
+    await renderAudiogram(content.filePath, outputPath, range, { captionFile, titleFile });
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+// Renders in progress, by cache path, so concurrent requests share one ffmpeg run
+const rendering = new Map<string, Promise<void>>();
+
+// Path of the rendered clip, rendering it on first request. Cached files are
+// named after the highlight and a hash of everything that shapes the output,
+// so changed options, a re-processed file or edited text render afresh.
+export async function getHighlightClip(
+  highlight: Highlight,
+  content: AudioContent,
+  options: HighlightClipOptions,
+): Promise<string> {
+  const inputs = [
+    content.filePath,
+    highlight.startTime,
+    highlight.endTime,
+    options,
+    options.format === "audiogram" ? [highlight.text, content.title] : null,
+  ];
+  const hash = crypto.createHash("sha1").update(JSON.stringify(inputs)).digest("hex").slice(0, 16);
+  const clipPath = path.join(clipCacheDir, `${highlight.id}-${hash}.${clipTypes[options.format].extension}`);
+  if (fs.existsSync(clipPath)) return clipPath;
+
+  let pending = rendering.get(clipPath);
+  if (!pending) {
+    // Rendered under a temporary name so a half-written file is never served
+    const partialPath = `${clipPath}.${crypto.randomBytes(4).toString("hex")}.partial`;
+    pending = renderClip(highlight, content, options, partialPath)
+      .then(() => fs.promises.rename(partialPath, clipPath))
+      .catch(async (error) => {
+        await fs.promises.rm(partialPath, { force: true });
+        throw error;
+      })
+      .finally(() => rendering.delete(clipPath));
+    rendering.set(clipPath, pending);
+  }
+  await pending;
+  return clipPath;
+}
+
+// Deletes every cached clip of the highlights
+export async function removeHighlightClips(highlightIds: string[]): Promise<void> {
+  if (highlightIds.length === 0) return;
+  const prefixes = highlightIds.map((id) => `${id}-`);
+  const files = await fs.promises.readdir(clipCacheDir);
+  await Promise.all(
+    files
+      .filter((file) => prefixes.some((prefix) => file.startsWith(prefix)))
+      .map((file) => fs.promises.rm(path.join(clipCacheDir, file), { force: true })),
+  );
+}
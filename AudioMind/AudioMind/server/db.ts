@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any drizzle Postgres driver (neon, node-postgres, PGlite) satisfies this,
+// so DbStorage can be pointed at a local database in tests.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDb(connectionString: string): { pool: Pool; db: Database } {
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle({ client: pool, schema }) };
+}
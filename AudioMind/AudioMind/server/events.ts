@@ -0,0 +1,17 @@
+import { EventEmitter } from "events";
+import type { JobEvent } from "@shared/events";
+
+// In-process fan-out of job events to the SSE connections of each user
+const emitter = new EventEmitter();
+emitter.setMaxListeners(0);
+
+export function publishEvent(userId: string, event: JobEvent) {
+  emitter.emit(userId, event);
+}
+
+export function subscribeToEvents(userId: string, listener: (event: JobEvent) => void): () => void {
+  emitter.on(userId, listener);
+  return () => {
+    emitter.off(userId, listener);
+  };
+}
@@ -0,0 +1,72 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { pollFeed } from "./feeds";
+import type { FeedEpisode, ParsedFeed } from "./services/feeds";
+import type { PodcastFeed } from "@shared/schema";
+
+// Undated, as in feeds that leave out pubDate, so only guids tell episodes apart
+const episode = (guid: string): FeedEpisode => ({
+  guid,
+  title: `Episode ${guid}`,
+  enclosureUrl: `https://example.com/${guid}.mp3`,
+  enclosureType: "audio/mpeg",
+});
+
+const parsedFeed = (...guids: string[]): ParsedFeed => ({ title: "Undated Show", episodes: guids.map(episode) });
+
+// Imports stay queued without a worker, and episodes with active jobs are never pruned
+async function finishImports(feed: PodcastFeed) {
+  for (const content of await storage.getAudioContentByFeed(feed.id)) {
+    for (const job of await storage.getJobsByAudioContent(content.id)) {
+      await storage.updateJob(job.id, { status: "completed" });
+    }
+  }
+}
+
+const libraryGuids = async (feed: PodcastFeed) =>
+  (await storage.getAudioContentByFeed(feed.id)).map((content) => content.episodeGuid).sort();
+
+describe("pollFeed", () => {
+  let userId: string;
+
+  before(async () => {
+    userId = (await storage.createUser({ username: "listener", password: "hash" })).id;
+  });
+
+  const subscribe = (keepLastEpisodes: number | null) =>
+    storage.createPodcastFeed({ userId, feedUrl: "https://example.com/feed.xml", title: "Undated Show", keepLastEpisodes });
+
+  it("imports only the most recent few episodes of a new subscription", async () => {
+    const feed = await subscribe(2);
+
+    assert.equal(await pollFeed(feed, parsedFeed("a", "b", "c", "d")), 2);
+    await finishImports(feed);
+    assert.equal(await pollFeed((await storage.getPodcastFeed(feed.id))!, parsedFeed("a", "b", "c", "d")), 0);
+    // Feeds list the newest first
+    assert.deepEqual(await libraryGuids(feed), ["a", "b"]);
+  });
+
+  it("imports undated episodes with a new guid", async () => {
+    const feed = await subscribe(null);
+
+    await pollFeed(feed, parsedFeed("a"));
+    assert.equal(await pollFeed((await storage.getPodcastFeed(feed.id))!, parsedFeed("b", "a")), 1);
+    assert.deepEqual(await libraryGuids(feed), ["a", "b"]);
+  });
+
+  it("doesn't import undated episodes again after keep-last-N deleted them", async () => {
+    const feed = await subscribe(1);
+
+    await pollFeed(feed, parsedFeed("a"));
+    await finishImports(feed);
+    // Pruning runs at the end of each poll and keeps the episode added last
+    await pollFeed((await storage.getPodcastFeed(feed.id))!, parsedFeed("b", "a"));
+    assert.deepEqual(await libraryGuids(feed), ["b"]);
+    await finishImports(feed);
+
+    assert.equal(await pollFeed((await storage.getPodcastFeed(feed.id))!, parsedFeed("b", "a")), 0);
+    assert.deepEqual(await libraryGuids(feed), ["b"]);
+    assert.deepEqual((await storage.getPodcastFeed(feed.id))!.seenEpisodeGuids.sort(), ["a", "b"]);
+  });
+});
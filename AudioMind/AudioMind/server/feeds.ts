@@ -0,0 +1,142 @@
+import { storage } from "./storage";
+import { enqueueJob, hasActiveJob } from "./jobs";
+import { fetchFeed, type FeedEpisode, type ParsedFeed } from "./services/feeds";
+import { fileNameFromUrl } from "./services/download";
+import { newUploadPath, removeUploadedFile } from "./uploads";
+import { log } from "./vite";
+import type { PodcastFeed } from "@shared/schema";
+
+const FEED_POLL_INTERVAL_MS = parseInt(process.env.FEED_POLL_INTERVAL_MS || String(30 * 60 * 1000), 10);
+// How often to look for feeds that are due; each feed is still fetched at most once per interval
+const FEED_CHECK_INTERVAL_MS = 60 * 1000;
+// A new subscription imports this many recent episodes unless keep-last-N says otherwise
+const INITIAL_EPISODE_COUNT = 3;
+
+function isNewEpisode(feed: PodcastFeed, episode: FeedEpisode): boolean {
+  if (!feed.lastEpisodeAt) return true;
+  // Episodes without a date can only be told apart by guid, which pollFeed has already checked
+  return !episode.publishedAt || episode.publishedAt.getTime() > feed.lastEpisodeAt.getTime();
+}
+
+async function importEpisode(feed: PodcastFeed, episode: FeedEpisode) {
+  const content = await storage.createAudioContent({
+    userId: feed.userId,
+    title: episode.title,
+    source: feed.title,
+    fileName: fileNameFromUrl(episode.enclosureUrl),
+    filePath: newUploadPath(),
+    fileSize: null,
+    mimeType: episode.enclosureType || null,
+    feedId: feed.id,
+    episodeGuid: episode.guid,
+    publishedAt: episode.publishedAt ?? null,
+    artworkUrl: episode.artworkUrl || feed.artworkUrl,
+    showNotes: episode.showNotes ?? null,
+  });
+
+  await enqueueJob("import", content.id, { url: episode.enclosureUrl, transcribe: feed.autoTranscribe });
+}
+
+// Deletes the oldest episodes beyond keep-last-N. Episodes the user has
+// highlighted, or that are still being imported, are kept.
+async function pruneEpisodes(feed: PodcastFeed) {
+  if (!feed.keepLastEpisodes) return;
+
+  const episodes = await storage.getAudioContentByFeed(feed.id);
+  for (const episode of episodes.slice(feed.keepLastEpisodes)) {
+    const highlights = await storage.getHighlightsByAudioContent(episode.id);
+    if (highlights.length > 0 || (await hasActiveJob(episode.id))) continue;
+
+    await storage.deleteAudioContent(episode.id);
+    await removeUploadedFile(episode.filePath);
+  }
+}
+
+// Fetches the feed, imports episodes published since the last poll and
+// applies keep-last-N. Returns the number of episodes imported.
+export async function pollFeed(feed: PodcastFeed, prefetched?: ParsedFeed): Promise<number> {
+  try {
+    const parsed = prefetched ?? (await fetchFeed(feed.feedUrl));
+
+    // Episodes still in the library plus every guid recorded by earlier polls,
+    // which covers episodes keep-last-N has since deleted
+    const existing = await storage.getAudioContentByFeed(feed.id);
+    const seenGuids = new Set([...feed.seenEpisodeGuids, ...existing.map((content) => content.episodeGuid)]);
+
+    // Pick up renamed shows and new artwork before tagging episodes with them
+    const current = (await storage.updatePodcastFeed(feed.id, {
+      title: parsed.title,
+      description: parsed.description ?? null,
+      artworkUrl: parsed.artworkUrl ?? null,
+    })) ?? feed;
+
+    let episodes = parsed.episodes
+      .filter((episode) => !seenGuids.has(episode.guid) && isNewEpisode(current, episode))
+      .sort((a, b) => (b.publishedAt?.getTime() ?? 0) - (a.publishedAt?.getTime() ?? 0));
+    if (!current.lastEpisodeAt) {
+      episodes = episodes.slice(0, current.keepLastEpisodes ?? INITIAL_EPISODE_COUNT);
+    }
+
+    // Oldest first so the newest episode ends up at the top of the library
+    for (const episode of episodes.slice().reverse()) {
+      await importEpisode(current, episode);
+    }
+
+    const newest = parsed.episodes.reduce<Date | null>(
+      (latest, episode) =>
+        episode.publishedAt && (!latest || episode.publishedAt > latest) ? episode.publishedAt : latest,
+      current.lastEpisodeAt,
+    );
+    // Episodes passed over now, like those beyond a new subscription's first few, stay passed over
+    for (const episode of parsed.episodes) seenGuids.add(episode.guid);
+    const updated = await storage.updatePodcastFeed(feed.id, {
+      lastEpisodeAt: newest,
+      seenEpisodeGuids: Array.from(seenGuids).filter((guid): guid is string => !!guid),
+      lastPolledAt: new Date(),
+      lastError: null,
+    });
+
+    await pruneEpisodes(updated ?? feed);
+    if (episodes.length > 0) {
+      log(`imported ${episodes.length} episode(s) from ${parsed.title}`, "feeds");
+    }
+    return episodes.length;
+  } catch (error) {
+    await storage.updatePodcastFeed(feed.id, { lastPolledAt: new Date(), lastError: (error as Error).message });
+    throw error;
+  }
+}
+
+let pollTimer: NodeJS.Timeout | undefined;
+let started = false;
+
+async function pollDueFeeds() {
+  try {
+    const due = await storage.getPodcastFeedsDueForPoll(new Date(Date.now() - FEED_POLL_INTERVAL_MS));
+    for (const feed of due) {
+      try {
+        await pollFeed(feed);
+      } catch (error) {
+        console.error(`Failed to poll feed ${feed.feedUrl}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Feed poller error:", error);
+  } finally {
+    if (started) {
+      pollTimer = setTimeout(pollDueFeeds, FEED_CHECK_INTERVAL_MS);
+    }
+  }
+}
+
+export function startFeedPoller() {
+  if (started) return;
+  started = true;
+  pollTimer = setTimeout(pollDueFeeds, 0);
+}
+
+export function stopFeedPoller() {
+  started = false;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = undefined;
+}
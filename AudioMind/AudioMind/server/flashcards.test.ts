@@ -0,0 +1,85 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { generateItemFlashcards, scheduleReview } from "./flashcards";
+import type { AudioContent, Flashcard, InsertKeyPoint } from "@shared/schema";
+
+const now = new Date("2025-03-01T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const card = (box: number) => ({ box }) as Flashcard;
+const daysUntil = (dueAt: Date) => (dueAt.getTime() - now.getTime()) / DAY_MS;
+
+describe("scheduleReview", () => {
+  it("moves hard, good and easy cards up zero, one and two boxes", () => {
+    assert.deepEqual(scheduleReview(card(2), "good", now), { box: 3, dueAt: new Date(now.getTime() + 7 * DAY_MS), lastReviewedAt: now });
+    assert.equal(scheduleReview(card(2), "easy", now).box, 4);
+    assert.equal(scheduleReview(card(2), "hard", now).box, 2);
+    assert.equal(daysUntil(scheduleReview(card(2), "hard", now).dueAt), 3);
+  });
+
+  it("gives new cards at least a day, even when hard", () => {
+    assert.equal(scheduleReview(card(0), "hard", now).box, 1);
+    assert.equal(daysUntil(scheduleReview(card(0), "hard", now).dueAt), 1);
+    assert.equal(daysUntil(scheduleReview(card(0), "easy", now).dueAt), 3);
+  });
+
+  it("stops at the last box", () => {
+    const { box, dueAt } = scheduleReview(card(6), "easy", now);
+    assert.equal(box, 6);
+    assert.equal(daysUntil(dueAt), 90);
+  });
+
+  it("sends forgotten cards back to the first box, due again in ten minutes", () => {
+    const { box, dueAt } = scheduleReview(card(5), "again", now);
+    assert.equal(box, 0);
+    assert.equal(dueAt.getTime() - now.getTime(), 10 * 60 * 1000);
+  });
+});
+
+describe("generateItemFlashcards", () => {
+  let userId: string;
+  let content: AudioContent;
+
+  before(async () => {
+    userId = (await storage.createUser({ username: "learner", password: "hash" })).id;
+    content = await storage.createAudioContent({ userId, title: "Lecture", fileName: "lecture.mp3", filePath: "/tmp/lecture.mp3" });
+  });
+
+  const keyPoint = (text: string, startTime: number, endTime: number): InsertKeyPoint => ({
+    audioContentId: content.id,
+    position: 0,
+    text,
+    segmentIds: [],
+    startTime,
+    endTime,
+  });
+  const cards = () => storage.getFlashcardsByAudioContent(content.id);
+
+  it("doesn't duplicate cards when key points are regenerated", async () => {
+    const [first] = await storage.replaceKeyPoints(content.id, [keyPoint("Cells divide", 10, 20)]);
+    await generateItemFlashcards(content, userId, ["keyPoints"]);
+    assert.deepEqual((await cards()).map((card) => card.keyPointId), [first.id]);
+
+    // An unreviewed card goes with its key point, and the new one gets a card
+    const [second] = await storage.replaceKeyPoints(content.id, [keyPoint("Cells split in two", 10, 20)]);
+    assert.deepEqual(await cards(), []);
+    await generateItemFlashcards(content, userId, ["keyPoints"]);
+    const [reviewed] = await cards();
+    assert.equal(reviewed.keyPointId, second.id);
+
+    // A reviewed card is kept and still covers a key point with the same span
+    await storage.updateFlashcard(reviewed.id, scheduleReview(reviewed, "good", now));
+    await storage.replaceKeyPoints(content.id, [keyPoint("How cells divide", 10, 20)]);
+    assert.equal((await generateItemFlashcards(content, userId, ["keyPoints"])).length, 0);
+    assert.deepEqual(
+      (await cards()).map((card) => ({ id: card.id, keyPointId: card.keyPointId })),
+      [{ id: reviewed.id, keyPointId: null }],
+    );
+
+    // A key point about another passage still gets its own card
+    await storage.replaceKeyPoints(content.id, [keyPoint("Mitosis has four phases", 30, 45)]);
+    assert.equal((await generateItemFlashcards(content, userId, ["keyPoints"])).length, 1);
+    assert.equal((await cards()).length, 2);
+  });
+});
@@ -0,0 +1,183 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { storage } from "./storage";
+import { generateFlashcards, type FlashcardMaterial } from "./services/ai";
+import { extractAudioClip } from "./services/ffmpeg";
+import { createZip, type ZipEntry } from "./services/zip";
+import { DAY_MS, relearnDueAt } from "./review-schedule";
+import type { AudioContent, Flashcard, ReviewGrade, FlashcardSource, InsertFlashcard } from "@shared/schema";
+
+// Writes cards for the item's highlights and key points that don't have one
+// yet, so generating again only covers what was added since. Reviewed cards
+// outlive the key points they came from; a regenerated key point with the same
+// span counts as covered by them.
+export async function generateItemFlashcards(
+  content: AudioContent,
+  userId: string,
+  sources: FlashcardSource[],
+): Promise<Flashcard[]> {
+  const existing = await storage.getFlashcardsByAudioContent(content.id);
+  const covered = new Set(existing.flatMap((card) => [card.highlightId, card.keyPointId]));
+  const coveredSpans = new Set(
+    existing
+      .filter((card) => !card.highlightId && !card.keyPointId)
+      .map((card) => `${card.startTime}-${card.endTime}`),
+  );
+  const materials: (FlashcardMaterial & Omit<InsertFlashcard, "question" | "answer">)[] = [];
+
+  if (sources.includes("highlights")) {
+    for (const highlight of await storage.getHighlightsByAudioContent(content.id)) {
+      if (covered.has(highlight.id)) continue;
+      materials.push({
+        text: highlight.text,
+        note: highlight.note,
+        audioContentId: content.id,
+        highlightId: highlight.id,
+        keyPointId: null,
+        startTime: highlight.startTime,
+        endTime: highlight.endTime,
+      });
+    }
+  }
+  if (sources.includes("keyPoints")) {
+    for (const keyPoint of await storage.getKeyPoints(content.id)) {
+      if (covered.has(keyPoint.id) || coveredSpans.has(`${keyPoint.startTime}-${keyPoint.endTime}`)) continue;
+      materials.push({
+        text: keyPoint.text,
+        note: null,
+        audioContentId: content.id,
+        highlightId: null,
+        keyPointId: keyPoint.id,
+        startTime: keyPoint.startTime,
+        endTime: keyPoint.endTime,
+      });
+    }
+  }
+
+  const generated = await generateFlashcards(materials);
+  return storage.createFlashcards(
+    generated.map((card) => {
+      const { text: _text, note: _note, ...source } = materials[card.material];
+      return { ...source, userId, question: card.question, answer: card.answer };
+    }),
+  );
+}
+
+// Days until the next review for each Leitner box. Box 0 holds new and
+// forgotten cards; the last box is as far as a card goes.
+const BOX_INTERVAL_DAYS = [0, 1, 3, 7, 14, 30, 90];
+
+// The card's place in the queue after a review. Forgetting sends it back to
+// box 0; hard keeps it in its box, good moves it up one and easy two. See
+// server/review-schedule.ts for why highlights are scheduled differently.
+export function scheduleReview(
+  card: Flashcard,
+  grade: ReviewGrade,
+  now = new Date(),
+): Pick<Flashcard, "box" | "dueAt" | "lastReviewedAt"> {
+  if (grade === "again") {
+    return { box: 0, dueAt: relearnDueAt(now), lastReviewedAt: now };
+  }
+
+  const lastBox = BOX_INTERVAL_DAYS.length - 1;
+  const step = grade === "easy" ? 2 : grade === "good" ? 1 : 0;
+  const box = Math.min(Math.max(card.box + step, 1), lastBox);
+  return { box, dueAt: new Date(now.getTime() + BOX_INTERVAL_DAYS[box] * DAY_MS), lastReviewedAt: now };
+}
+
+// Longer passages (key points can span minutes) are cut to their opening
+const MAX_CLIP_SECONDS = 90;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const csvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// 125 -> "2:05"
+function formatTimestamp(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+// Anki's text import format. The header lines set the note type, deck and
+// tags, and make the card id the note's GUID so importing again updates
+// notes instead of duplicating them. clipNames maps card ids to the sound
+// files embedded in the answer.
+function flashcardsCsv(
+  cards: Flashcard[],
+  titles: Map<string, string>,
+  baseUrl: string,
+  clipNames = new Map<string, string>(),
+): string {
+  const header = [
+    "#separator:Comma",
+    "#html:true",
+    "#notetype:Basic",
+    "#deck:Pensieve",
+    "#tags:pensieve",
+    "#guid column:1",
+    "#columns:GUID,Front,Back",
+  ];
+  const rows = cards.map((card) => {
+    const clip = clipNames.get(card.id);
+    const link = `${baseUrl}/?item=${card.audioContentId}&t=${card.startTime}`;
+    const source = `${escapeHtml(titles.get(card.audioContentId) ?? "")} · ${formatTimestamp(card.startTime)}`;
+    const back = [
+      escapeHtml(card.answer),
+      ...(clip ? [`[sound:${clip}]`] : []),
+      `<a href="${escapeHtml(link)}">${source}</a>`,
+    ].join("<br>");
+    return [card.id, escapeHtml(card.question), back].map(csvField).join(",");
+  });
+  return [...header, ...rows].join("\n") + "\n";
+}
+
+// The items the cards come from, by id
+async function itemsOf(cards: Flashcard[]): Promise<Map<string, AudioContent>> {
+  const ids = Array.from(new Set(cards.map((card) => card.audioContentId)));
+  const items = await Promise.all(ids.map((id) => storage.getAudioContent(id)));
+  return new Map(items.filter((item): item is AudioContent => !!item).map((item) => [item.id, item]));
+}
+
+const titlesOf = (items: Map<string, AudioContent>) =>
+  new Map(Array.from(items.values()).map((item) => [item.id, item.title]));
+
+export async function exportFlashcardsCsv(cards: Flashcard[], baseUrl: string): Promise<string> {
+  return flashcardsCsv(cards, titlesOf(await itemsOf(cards)), baseUrl);
+}
+
+// A zip of the CSV plus an MP3 of each card's passage in collection.media/,
+// the folder Anki looks in for the [sound:] files cards refer to. Cards whose
+// audio can't be cut are exported without it.
+export async function exportFlashcardDeck(cards: Flashcard[], baseUrl: string): Promise<Buffer> {
+  const items = await itemsOf(cards);
+  const clipNames = new Map<string, string>();
+  const entries: ZipEntry[] = [];
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pensieve-flashcards-"));
+  try {
+    for (const card of cards) {
+      const item = items.get(card.audioContentId);
+      if (!item || !fs.existsSync(item.filePath)) continue;
+
+      // Anki keeps every deck's media in one folder, so names must be unique
+      const clipName = `pensieve-${card.id}.mp3`;
+      const clipPath = path.join(workDir, clipName);
+      const duration = Math.min(Math.max(card.endTime - card.startTime, 1), MAX_CLIP_SECONDS);
+      try {
+        await extractAudioClip(item.filePath, clipPath, "mp3", { start: card.startTime, duration });
+        entries.push({ name: `collection.media/${clipName}`, data: await fs.promises.readFile(clipPath) });
+        clipNames.set(card.id, clipName);
+      } catch (error) {
+        console.error(`Failed to cut audio for flashcard ${card.id}:`, error);
+      } finally {
+        await fs.promises.rm(clipPath, { force: true });
+      }
+    }
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+
+  return createZip([{ name: "pensieve-flashcards.csv", data: flashcardsCsv(cards, titlesOf(items), baseUrl, clipNames) }, ...entries]);
+}
@@ -0,0 +1,50 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { scheduleHighlight } from "./highlight-review";
+import type { HighlightReview, ReviewGrade } from "@shared/schema";
+
+const now = new Date("2025-03-01T12:00:00Z");
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Reviews the highlight once per grade, each time from the previous result
+function reviewInTurn(...grades: ReviewGrade[]): HighlightReview | undefined {
+  let previous: HighlightReview | undefined;
+  for (const grade of grades) {
+    previous = { ...scheduleHighlight(previous, grade, now), id: "review", highlightId: "highlight", userId: "user" } as HighlightReview;
+  }
+  return previous;
+}
+
+describe("scheduleHighlight", () => {
+  it("spaces recalls 1 day, 6 days, then by the ease factor", () => {
+    const first = scheduleHighlight(undefined, "good", now);
+    assert.deepEqual(
+      { repetitions: first.repetitions, intervalDays: first.intervalDays, easeFactor: first.easeFactor },
+      { repetitions: 1, intervalDays: 1, easeFactor: 2.5 },
+    );
+    assert.equal(first.dueAt.getTime() - now.getTime(), DAY_MS);
+    assert.equal(first.reviewedAt, now);
+
+    assert.equal(reviewInTurn("good", "good")?.intervalDays, 6);
+    assert.equal(reviewInTurn("good", "good", "good")?.intervalDays, 15);
+  });
+
+  it("raises the ease for easy answers and lowers it for hard ones", () => {
+    assert.ok(Math.abs(scheduleHighlight(undefined, "easy", now).easeFactor - 2.6) < 1e-9);
+    assert.ok(Math.abs(scheduleHighlight(undefined, "hard", now).easeFactor - 2.36) < 1e-9);
+    assert.equal(reviewInTurn("easy", "easy", "easy")?.intervalDays, Math.round(6 * 2.8));
+  });
+
+  it("never lets the ease drop below 1.3", () => {
+    const review = reviewInTurn("again", "again", "again", "again", "again", "again");
+    assert.equal(review?.easeFactor, 1.3);
+  });
+
+  it("starts forgotten highlights over, due again in ten minutes", () => {
+    const review = reviewInTurn("good", "good", "again");
+    assert.equal(review?.repetitions, 0);
+    assert.equal(review?.intervalDays, 0);
+    assert.equal(review!.dueAt.getTime() - now.getTime(), 10 * 60 * 1000);
+    assert.equal(reviewInTurn("good", "good", "again", "good")?.intervalDays, 1);
+  });
+});
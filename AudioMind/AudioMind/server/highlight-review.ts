@@ -0,0 +1,117 @@
+import { storage } from "./storage";
+import type { Highlight, HighlightReview, InsertHighlightReview, ReviewGrade } from "@shared/schema";
+import type { HighlightReviewSession } from "@shared/review";
+import { DAY_MS, relearnDueAt } from "./review-schedule";
+
+// SM-2 response quality (0-5) for each grade; below 3 counts as forgotten
+const GRADE_QUALITY: Record<ReviewGrade, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// The SM-2 schedule after a review, given the highlight's previous review.
+// Recalls space out 1 day, 6 days, then by the ease factor; forgetting
+// starts the repetitions over, and every grade adjusts the ease. See
+// server/review-schedule.ts for why flashcards are scheduled differently.
+export function scheduleHighlight(
+  previous: HighlightReview | undefined,
+  grade: ReviewGrade,
+  now = new Date(),
+): Omit<InsertHighlightReview, "highlightId"> {
+  const quality = GRADE_QUALITY[grade];
+  const ease = previous?.easeFactor ?? INITIAL_EASE;
+  const easeFactor = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+
+  if (quality < 3) {
+    return {
+      grade,
+      repetitions: 0,
+      easeFactor,
+      intervalDays: 0,
+      dueAt: relearnDueAt(now),
+      reviewedAt: now,
+    };
+  }
+
+  const repetitions = (previous?.repetitions ?? 0) + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(previous!.intervalDays * easeFactor);
+  return {
+    grade,
+    repetitions,
+    easeFactor,
+    intervalDays,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    reviewedAt: now,
+  };
+}
+
+// Highlights never reviewed join the queue at most this many a day, so a
+// large library doesn't arrive all at once
+const NEW_HIGHLIGHTS_PER_DAY = 20;
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-CA", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The calendar day of a moment in the time zone, as YYYY-MM-DD
+const localDay = (date: Date, timeZone: string) =>
+  new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(date);
+
+const previousDay = (day: string) => new Date(Date.parse(`${day}T00:00:00Z`) - DAY_MS).toISOString().slice(0, 10);
+
+// Days in a row with at least one review. Today doesn't break the streak
+// until it is over, so counting starts yesterday when nothing is reviewed yet.
+function reviewStreak(days: Set<string>, today: string): number {
+  let day = days.has(today) ? today : previousDay(today);
+  let streak = 0;
+  while (days.has(day)) {
+    streak++;
+    day = previousDay(day);
+  }
+  return streak;
+}
+
+// The user's review queue as of now, with days counted in their time zone
+export async function getHighlightReviewSession(
+  userId: string,
+  timeZone: string,
+  now = new Date(),
+): Promise<HighlightReviewSession> {
+  const [highlights, reviews] = await Promise.all([
+    storage.getHighlightsByUser(userId),
+    storage.getHighlightReviewsByUser(userId),
+  ]);
+  const today = localDay(now, timeZone);
+
+  // Reviews are newest first, so the first seen per highlight is its latest
+  // and the last seen its first
+  const latest = new Map<string, HighlightReview>();
+  const firstReviewed = new Map<string, Date>();
+  for (const review of reviews) {
+    if (!latest.has(review.highlightId)) latest.set(review.highlightId, review);
+    firstReviewed.set(review.highlightId, review.reviewedAt);
+  }
+  const reviewDays = new Set(reviews.map((review) => localDay(review.reviewedAt, timeZone)));
+  const startedToday = Array.from(firstReviewed.values()).filter((date) => localDay(date, timeZone) === today).length;
+
+  const due: Highlight[] = highlights
+    .filter((highlight) => {
+      const review = latest.get(highlight.id);
+      return review && review.dueAt <= now;
+    })
+    .sort((a, b) => latest.get(a.id)!.dueAt.getTime() - latest.get(b.id)!.dueAt.getTime());
+  const unseen = highlights
+    .filter((highlight) => !latest.has(highlight.id))
+    .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime())
+    .slice(0, Math.max(0, NEW_HIGHLIGHTS_PER_DAY - startedToday));
+
+  return {
+    queue: [...due, ...unseen],
+    reviewedToday: reviews.filter((review) => localDay(review.reviewedAt, timeZone) === today).length,
+    streak: reviewStreak(reviewDays, today),
+  };
+}
@@ -0,0 +1,156 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+// Read when the services load, so it is set before the imports in before()
+process.env.DIARIZATION_PROVIDER = "fake";
+process.env.JOB_POLL_INTERVAL_MS = "10";
+let jobs: typeof import("./jobs");
+let storage: typeof import("./storage").storage;
+let embeddingProvider: typeof import("./services/embeddings").embeddingProvider;
+let highlightKeyPoint: typeof import("./key-points").highlightKeyPoint;
+
+// Runs the worker until nothing for the item is queued or running
+async function runJobs(audioContentId: string) {
+  await jobs.startJobWorker();
+  try {
+    const deadline = Date.now() + 10_000;
+    while (await jobs.hasActiveJob(audioContentId)) {
+      if (Date.now() > deadline) throw new Error("Jobs did not finish");
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  } finally {
+    jobs.stopJobWorker();
+  }
+}
+
+describe("transcription pipeline", () => {
+  let userId: string;
+  let workDir: string;
+
+  before(async () => {
+    jobs = await import("./jobs");
+    storage = (await import("./storage")).storage;
+    embeddingProvider = (await import("./services/embeddings")).embeddingProvider;
+    highlightKeyPoint = (await import("./key-points")).highlightKeyPoint;
+    userId = (await storage.createUser({ username: "listener", password: "hash" })).id;
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pensieve-jobs-test-"));
+  });
+
+  after(async () => {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  // The fake provider never reads the file, but the size check needs one on disk
+  async function transcribeItem(fileName: string) {
+    const filePath = path.join(workDir, fileName);
+    await fs.promises.writeFile(filePath, "audio");
+    const content = await storage.createAudioContent({ userId, title: fileName, fileName, filePath });
+    await jobs.enqueueJob("transcribe", content.id);
+    await runJobs(content.id);
+    return content.id;
+  }
+
+  it("saves the fake provider's transcript and segments", async () => {
+    const id = await transcribeItem("talk.mp3");
+
+    const content = await storage.getAudioContent(id);
+    assert.equal(content?.transcriptionStatus, "completed");
+    assert.equal(content?.transcriptionProvider, "fake");
+    assert.equal(content?.transcriptionError, null);
+    assert.equal(content?.transcriptionText, "Segment 1 of talk.mp3. Segment 2 of talk.mp3. Segment 3 of talk.mp3.");
+    assert.equal(content?.duration, 15);
+
+    const segments = await storage.getTranscriptSegments(id);
+    assert.deepEqual(
+      segments.map(({ startTime, endTime, sequenceNumber }) => ({ startTime, endTime, sequenceNumber })),
+      [
+        { startTime: 0, endTime: 5, sequenceNumber: 0 },
+        { startTime: 5, endTime: 10, sequenceNumber: 1 },
+        { startTime: 10, endTime: 15, sequenceNumber: 2 },
+      ],
+    );
+
+    const jobTypes = (await storage.getJobsByAudioContent(id)).map((job) => `${job.type}:${job.status}`).sort();
+    assert.deepEqual(jobTypes, ["chapters:completed", "embed:completed", "summarize:completed", "transcribe:completed"]);
+  });
+
+  it("labels segments with the fake diarizer's alternating speakers", async () => {
+    const id = await transcribeItem("interview.mp3");
+
+    const segments = await storage.getTranscriptSegments(id);
+    assert.deepEqual(segments.map((segment) => segment.speaker), ["SPEAKER_0", "SPEAKER_1", "SPEAKER_0"]);
+
+    const speakers = await storage.getSpeakers(id);
+    assert.deepEqual(
+      speakers.map(({ label, name, position }) => ({ label, name, position })),
+      [
+        { label: "SPEAKER_0", name: "Speaker 1", position: 0 },
+        { label: "SPEAKER_1", name: "Speaker 2", position: 1 },
+      ],
+    );
+  });
+
+  it("replaces segments and speakers when an item is transcribed again", async () => {
+    const id = await transcribeItem("repeat.mp3");
+    await jobs.enqueueJob("transcribe", id);
+    await runJobs(id);
+
+    assert.equal((await storage.getTranscriptSegments(id)).length, 3);
+    assert.equal((await storage.getSpeakers(id)).length, 2);
+  });
+
+  it("points key points at the new segments when an item is transcribed again", async () => {
+    const id = await transcribeItem("relink.mp3");
+    const oldSegments = await storage.getTranscriptSegments(id);
+    const [keyPoint] = await storage.replaceKeyPoints(id, [
+      { audioContentId: id, position: 0, text: "The middle part", segmentIds: [oldSegments[1].id], startTime: 6, endTime: 9 },
+    ]);
+
+    await jobs.enqueueJob("transcribe", id);
+    await runJobs(id);
+
+    const newSegments = await storage.getTranscriptSegments(id);
+    const relinked = await storage.getKeyPoint(keyPoint.id);
+    assert.deepEqual(relinked?.segmentIds, [newSegments[1].id]);
+    assert.notEqual(newSegments[1].id, oldSegments[1].id);
+
+    const highlight = await highlightKeyPoint(relinked!, userId);
+    assert.equal(highlight.text, "Segment 2 of relink.mp3.");
+    assert.equal(highlight.note, "The middle part");
+  });
+
+  it("indexes passages so semantic search ranks the matching item first", async () => {
+    const lectureId = await transcribeItem("lecture.mp3");
+    const podcastId = await transcribeItem("podcast.mp3");
+
+    const [query] = await embeddingProvider.embed(["lecture"]);
+    const hits = await storage.searchTranscriptChunks(userId, query, embeddingProvider.model, 10, [lectureId, podcastId]);
+
+    assert.deepEqual(
+      hits.map((hit) => hit.audioContentId),
+      [lectureId, podcastId],
+    );
+    assert.equal(hits[0].text, "Segment 1 of lecture.mp3. Segment 2 of lecture.mp3. Segment 3 of lecture.mp3.");
+    assert.equal(hits[0].startTime, 0);
+    assert.equal(hits[0].endTime, 15);
+    assert.ok(hits[0].score > hits[1].score);
+  });
+});
+
+describe("isRateLimitError", () => {
+  before(async () => {
+    jobs ??= await import("./jobs");
+  });
+
+  it("recognises 429 statuses and quota messages", () => {
+    assert.equal(jobs.isRateLimitError(Object.assign(new Error("Too Many Requests"), { status: 429 })), true);
+    assert.equal(jobs.isRateLimitError(new Error("You exceeded your current quota")), true);
+    assert.equal(jobs.isRateLimitError(Object.assign(new Error("Bad Gateway"), { status: 502 })), false);
+    assert.equal(jobs.isRateLimitError({ status: "429" }), false);
+    assert.equal(jobs.isRateLimitError(null), false);
+    assert.equal(jobs.isRateLimitError("rate limit"), false);
+  });
+});
@@ -0,0 +1,516 @@
+import { storage } from "./storage";
+import { generateChapters, generateSummary } from "./services/ai";
+import { transcriptionProvider, transcribeFile } from "./services/transcription";
+import { downloadAudio } from "./services/download";
+import { processAudioFile, type ProcessedAudio } from "./services/audio-processing";
+import { generateWaveform } from "./services/waveform";
+import { assignSpeakers, diarizationProvider } from "./services/diarization";
+import { chunkTranscript, embeddingProvider } from "./services/embeddings";
+import { removeUploadedFile } from "./uploads";
+import { relinkKeyPoints } from "./key-points";
+import { publishEvent } from "./events";
+import { log } from "./vite";
+import type { Job } from "@shared/schema";
+import type { JobEvent } from "@shared/events";
+
+export type JobType = "import" | "process" | "transcribe" | "summarize" | "embed" | "chapters";
+
+interface JobHandler {
+  run(job: Job): Promise<void>;
+  // Called when the job is put back in the queue after a failed attempt
+  onRetry?(job: Job, error: Error): Promise<void>;
+  // Called once the job has failed for good
+  onFailed?(job: Job, error: Error): Promise<void>;
+}
+
+const POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || "2000", 10);
+const BASE_RETRY_DELAY_MS = 15 * 1000;
+const MAX_RETRY_DELAY_MS = 30 * 60 * 1000;
+const DOWNLOAD_PROGRESS_INTERVAL_MS = 500;
+
+// The HTTP status API clients and downloadAudio attach to failed requests
+function errorStatus(error: unknown): number | undefined {
+  return typeof error === "object" && error !== null && "status" in error && typeof error.status === "number"
+    ? error.status
+    : undefined;
+}
+
+const messageOf = (error: unknown) => (error instanceof Error ? error.message : "");
+
+export function isRateLimitError(error: unknown): boolean {
+  return errorStatus(error) === 429 || /quota|rate limit|\b429\b/i.test(messageOf(error));
+}
+
+function isRetryableError(error: unknown): boolean {
+  const status = errorStatus(error);
+  return (
+    isRateLimitError(error) ||
+    (status !== undefined && status >= 500) ||
+    /ETIMEDOUT|ECONNRESET|ECONNREFUSED|EAI_AGAIN|timed? ?out/i.test(messageOf(error))
+  );
+}
+
+// 15s, 30s, 1m, 2m... capped at 30 minutes
+export function retryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Sends the event, with the item's current row, to the owner's open event streams
+async function notify(
+  job: Pick<Job, "type" | "audioContentId">,
+  type: JobEvent["type"],
+  message: string,
+  extra: Partial<JobEvent> = {},
+) {
+  try {
+    const content = await storage.getAudioContent(job.audioContentId);
+    if (!content) return;
+
+    publishEvent(content.userId, {
+      type,
+      jobType: job.type,
+      audioContentId: content.id,
+      message,
+      content,
+      timestamp: new Date().toISOString(),
+      ...extra,
+    });
+  } catch (error) {
+    console.error("Failed to publish job event:", error);
+  }
+}
+
+function formatMegabytes(bytes: number) {
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  import: {
+    async run(job) {
+      const content = await storage.getAudioContent(job.audioContentId);
+      if (!content) {
+        throw new Error(`Audio content ${job.audioContentId} no longer exists`);
+      }
+
+      await notify(job, "started", "Download started");
+
+      let lastNotifiedAt = 0;
+      const result = await downloadAudio(String(job.payload?.url), content.filePath, {
+        onProgress: ({ bytesReceived, totalBytes }) => {
+          // Chunks arrive far faster than the client needs to hear about them
+          const now = Date.now();
+          if (now - lastNotifiedAt < DOWNLOAD_PROGRESS_INTERVAL_MS) return;
+          lastNotifiedAt = now;
+
+          const message = totalBytes
+            ? `Downloaded ${formatMegabytes(bytesReceived)} of ${formatMegabytes(totalBytes)}`
+            : `Downloaded ${formatMegabytes(bytesReceived)}`;
+          void notify(job, "progress", message, { bytesReceived, totalBytes });
+        },
+      });
+
+      await storage.updateAudioContent(content.id, {
+        fileName: result.fileName,
+        fileSize: result.fileSize,
+        mimeType: result.mimeType,
+        transcriptionError: null,
+      });
+      await notify(job, "progress", `Downloaded ${formatMegabytes(result.fileSize)}`, {
+        bytesReceived: result.fileSize,
+        totalBytes: result.fileSize,
+      });
+
+      await enqueueJob("process", content.id, { transcribe: job.payload?.transcribe ?? true });
+    },
+
+    async onRetry(job, error) {
+      await storage.updateAudioContent(job.audioContentId, {
+        transcriptionError: `Download failed, retrying shortly: ${error.message}`,
+      });
+    },
+
+    async onFailed(job, error) {
+      await storage.updateAudioContent(job.audioContentId, {
+        transcriptionStatus: "error",
+        transcriptionError: `Download failed: ${error.message}`,
+      });
+      await notify(job, "error", "Download failed", { error: error.message });
+    },
+  },
+
+  process: {
+    async run(job) {
+      const content = await storage.getAudioContent(job.audioContentId);
+      if (!content) {
+        throw new Error(`Audio content ${job.audioContentId} no longer exists`);
+      }
+
+      let processed: ProcessedAudio | undefined;
+      try {
+        processed = await processAudioFile(content.filePath, content.fileName);
+      } catch (error) {
+        // Without ffmpeg the file is kept as uploaded; providers that accept it can still transcribe it
+        if (!/ENOENT/.test((error as Error).message)) throw error;
+        log("ffprobe not found, skipping audio processing", "jobs");
+      }
+
+      if (processed) {
+        await storage.updateAudioContent(content.id, {
+          filePath: processed.filePath,
+          fileName: processed.fileName,
+          mimeType: processed.mimeType,
+          duration: processed.duration,
+          codec: processed.codec,
+          bitRate: processed.bitRate,
+          channels: processed.channels,
+          sampleRate: processed.sampleRate,
+        });
+        if (processed.transcoded) {
+          await removeUploadedFile(content.filePath);
+        }
+        await notify(job, "progress", processed.transcoded ? "Converted for playback" : "Audio details read");
+
+        if (processed.chapters.length > 0) {
+          await storage.replaceChapters(
+            content.id,
+            processed.chapters.map((chapter) => ({
+              audioContentId: content.id,
+              title: chapter.title,
+              startTime: Math.floor(chapter.start),
+              endTime: Math.ceil(chapter.end),
+              synopsis: null,
+              source: "embedded",
+            })),
+          );
+          await notify(job, "progress", `${processed.chapters.length} chapters found`, { chaptersReady: true });
+        }
+
+        // The player falls back to a flat waveform, so a failure here shouldn't stop transcription
+        try {
+          const peaks = await generateWaveform(processed.filePath);
+          await storage.saveWaveform({ audioContentId: content.id, peaks });
+          await notify(job, "progress", "Waveform ready", { waveformReady: true });
+        } catch (error) {
+          console.error(`Failed to generate waveform for ${content.id}:`, error);
+        }
+      }
+
+      // Feeds with auto-transcribe off leave the episode for the user to transcribe later
+      if (job.payload?.transcribe === false) {
+        await storage.updateAudioContent(content.id, { transcriptionStatus: "skipped" });
+        await notify(job, "progress", "Ready, transcription not requested");
+        return;
+      }
+      await enqueueJob("transcribe", content.id);
+    },
+
+    async onFailed(job, error) {
+      await storage.updateAudioContent(job.audioContentId, {
+        transcriptionStatus: "error",
+        transcriptionError: "The audio file could not be read",
+      });
+      await notify(job, "error", "Audio processing failed", { error: error.message });
+    },
+  },
+
+  transcribe: {
+    async run(job) {
+      const content = await storage.getAudioContent(job.audioContentId);
+      if (!content) {
+        throw new Error(`Audio content ${job.audioContentId} no longer exists`);
+      }
+
+      await storage.updateAudioContent(content.id, {
+        transcriptionStatus: "processing",
+        transcriptionProvider: transcriptionProvider.name,
+        transcriptionProgress: 0,
+      });
+      await notify(job, "started", "Transcription started");
+
+      // Transcribe audio with original filename for format detection
+      // Long files are split into chunks; partial text is saved as each one completes
+      const { text, duration, segments } = await transcribeFile(transcriptionProvider, content.filePath, content.fileName, {
+        onProgress: async ({ completedChunks, totalChunks, text }) => {
+          await storage.updateAudioContent(content.id, {
+            transcriptionProgress: Math.round((completedChunks / totalChunks) * 100),
+            transcriptionText: text,
+          });
+          await notify(job, "progress", `Chunk ${completedChunks} of ${totalChunks} transcribed`, {
+            completedChunks,
+            totalChunks,
+          });
+        },
+      });
+
+      // Speaker labels are a bonus; a diarization failure keeps the plain transcript
+      let segmentSpeakers: (string | null)[] = [];
+      if (diarizationProvider) {
+        try {
+          await notify(job, "progress", "Identifying speakers");
+          segmentSpeakers = assignSpeakers(segments, await diarizationProvider.diarize(content.filePath));
+        } catch (error) {
+          console.error(`Diarization failed for ${content.id}:`, error);
+        }
+      }
+
+      // Replace any segments and speakers left over from a previous attempt
+      await storage.deleteTranscriptSegments(content.id);
+      await storage.deleteSpeakers(content.id);
+
+      const labels: string[] = [];
+      for (const label of segmentSpeakers) {
+        if (label && !labels.includes(label)) labels.push(label);
+      }
+      for (let position = 0; position < labels.length; position++) {
+        await storage.createSpeaker({
+          audioContentId: content.id,
+          label: labels[position],
+          name: `Speaker ${position + 1}`,
+          position,
+        });
+      }
+
+      for (let index = 0; index < segments.length; index++) {
+        const segment = segments[index];
+        const startTime = Math.floor(segment.start);
+        await storage.createTranscriptSegment({
+          audioContentId: content.id,
+          startTime,
+          endTime: Math.max(startTime, Math.ceil(segment.end)),
+          text: segment.text,
+          confidence: segment.confidence ?? null,
+          sequenceNumber: index,
+          speaker: segmentSpeakers[index] ?? null,
+        });
+      }
+      // Key points outlive a retranscription; point them at the new segments
+      await relinkKeyPoints(content.id);
+
+      // Update with transcription results
+      await storage.updateAudioContent(content.id, {
+        transcriptionStatus: "completed",
+        transcriptionProgress: 100,
+        transcriptionText: text,
+        transcriptionError: null,
+        // Keep the probed duration when the provider doesn't report one
+        duration: duration ? Math.round(duration) : content.duration,
+      });
+      await notify(job, "transcribed", "Transcription completed");
+
+      await enqueueJob("summarize", content.id);
+      await enqueueJob("embed", content.id);
+      await enqueueJob("chapters", content.id);
+    },
+
+    async onRetry(job, error) {
+      await storage.updateAudioContent(job.audioContentId, {
+        transcriptionStatus: "pending",
+        transcriptionProgress: 0,
+        transcriptionText: null,
+        transcriptionError: isRateLimitError(error)
+          ? "The transcription service is rate limited, retrying shortly..."
+          : "Transcription failed, retrying shortly...",
+      });
+    },
+
+    async onFailed(job, error) {
+      const errorMessage = isRateLimitError(error)
+        ? `The ${transcriptionProvider.name} transcription service is rate limited or out of quota. Try again later.`
+        : "Transcription failed";
+
+      await storage.updateAudioContent(job.audioContentId, {
+        transcriptionStatus: "error",
+        transcriptionText: null,
+        transcriptionError: errorMessage,
+      });
+      await notify(job, "error", errorMessage, { error: error.message });
+    },
+  },
+
+  summarize: {
+    async run(job) {
+      const content = await storage.getAudioContent(job.audioContentId);
+      if (!content?.transcriptionText) {
+        throw new Error("Transcription not available");
+      }
+
+      const { summary, keywords } = await generateSummary(content.transcriptionText);
+      await storage.updateAudioContent(content.id, {
+        aiSummary: summary,
+        keywords,
+      });
+      await notify(job, "summary_ready", "Summary ready");
+    },
+
+    async onFailed(job, error) {
+      await notify(job, "error", "Summary generation failed", { error: error.message });
+    },
+  },
+
+  embed: {
+    async run(job) {
+      const segments = await storage.getTranscriptSegments(job.audioContentId);
+      const passages = chunkTranscript(segments);
+      const embeddings = await embeddingProvider.embed(passages.map((passage) => passage.text));
+
+      await storage.replaceTranscriptChunks(
+        job.audioContentId,
+        passages.map((passage, index) => ({
+          audioContentId: job.audioContentId,
+          ...passage,
+          model: embeddingProvider.model,
+          embedding: embeddings[index],
+        })),
+      );
+      await notify(job, "progress", "Indexed for semantic search");
+    },
+
+    async onFailed(job, error) {
+      await notify(job, "error", "Semantic search indexing failed", { error: error.message });
+    },
+  },
+
+  chapters: {
+    async run(job) {
+      const content = await storage.getAudioContent(job.audioContentId);
+      if (!content) {
+        throw new Error(`Audio content ${job.audioContentId} no longer exists`);
+      }
+
+      // The publisher's own chapter markers win unless the user asked for generated ones
+      const existing = await storage.getChapters(content.id);
+      if (!job.payload?.regenerate && existing.some((chapter) => chapter.source === "embedded")) {
+        return;
+      }
+
+      const segments = await storage.getTranscriptSegments(content.id);
+      if (segments.length === 0) {
+        throw new Error("Transcription not available");
+      }
+
+      const duration = content.duration || segments[segments.length - 1].endTime;
+      const chapters = await generateChapters(segments, duration);
+      await storage.replaceChapters(
+        content.id,
+        chapters.map((chapter) => ({ audioContentId: content.id, ...chapter, source: "ai" })),
+      );
+      await notify(job, "progress", "Chapters ready", { chaptersReady: true });
+    },
+
+    async onFailed(job, error) {
+      await notify(job, "error", "Chapter generation failed", { error: error.message });
+    },
+  },
+};
+
+export async function enqueueJob(
+  type: JobType,
+  audioContentId: string,
+  payload: Record<string, unknown> = {},
+): Promise<Job> {
+  const job = await storage.createJob({ type, audioContentId, payload });
+  const messages: Record<JobType, string> = {
+    import: "Queued for download",
+    process: "Queued for processing",
+    transcribe: "Queued for transcription",
+    summarize: "Queued for summary",
+    embed: "Queued for search indexing",
+    chapters: "Queued for chapters",
+  };
+  await notify(job, "queued", messages[type]);
+  wakeWorker();
+  return job;
+}
+
+// True while a job for this item is waiting or in progress
+export async function hasActiveJob(audioContentId: string, type?: JobType): Promise<boolean> {
+  const jobsForContent = await storage.getJobsByAudioContent(audioContentId);
+  return jobsForContent.some(
+    (job) => (!type || job.type === type) && (job.status === "queued" || job.status === "running"),
+  );
+}
+
+async function runJob(job: Job) {
+  const handler = handlers[job.type as JobType];
+  if (!handler) {
+    await storage.updateJob(job.id, { status: "failed", lastError: `Unknown job type "${job.type}"`, lockedAt: null });
+    return;
+  }
+
+  try {
+    await handler.run(job);
+    await storage.updateJob(job.id, { status: "completed", lastError: null, lockedAt: null });
+  } catch (error) {
+    console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}):`, error);
+
+    if (isRetryableError(error) && job.attempts < job.maxAttempts) {
+      const delay = retryDelayMs(job.attempts);
+      await storage.updateJob(job.id, {
+        status: "queued",
+        lastError: (error as Error).message,
+        lockedAt: null,
+        nextRunAt: new Date(Date.now() + delay),
+      });
+      await handler.onRetry?.(job, error as Error);
+      await notify(job, "retrying", `Retrying in ${Math.round(delay / 1000)}s`, { error: (error as Error).message });
+      log(`retrying ${job.type} job ${job.id} in ${Math.round(delay / 1000)}s`, "jobs");
+    } else {
+      await storage.updateJob(job.id, { status: "failed", lastError: (error as Error).message, lockedAt: null });
+      await handler.onFailed?.(job, error as Error);
+    }
+  }
+}
+
+let pollTimer: NodeJS.Timeout | undefined;
+let draining = false;
+let started = false;
+
+async function drainQueue() {
+  if (draining) return;
+  draining = true;
+  try {
+    let job: Job | undefined;
+    while ((job = await storage.claimNextJob())) {
+      await runJob(job);
+    }
+  } catch (error) {
+    console.error("Job worker error:", error);
+  } finally {
+    draining = false;
+    schedulePoll();
+  }
+}
+
+function schedulePoll(delay = POLL_INTERVAL_MS) {
+  if (!started) return;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = setTimeout(drainQueue, delay);
+}
+
+function wakeWorker() {
+  if (!draining) schedulePoll(0);
+}
+
+export async function startJobWorker() {
+  if (started) return;
+  started = true;
+
+  // Anything still marked running was interrupted by a restart
+  const recovered = await storage.requeueRunningJobs();
+  for (const job of recovered) {
+    if (job.type === "transcribe") {
+      await storage.updateAudioContent(job.audioContentId, { transcriptionStatus: "pending" });
+    }
+  }
+  if (recovered.length > 0) {
+    log(`requeued ${recovered.length} interrupted job(s)`, "jobs");
+  }
+
+  schedulePoll(0);
+}
+
+export function stopJobWorker() {
+  started = false;
+  if (pollTimer) clearTimeout(pollTimer);
+  pollTimer = undefined;
+}
@@ -0,0 +1,59 @@
+import { storage } from "./storage";
+import { extractKeyPoints } from "./services/ai";
+import type { AudioContent, Highlight, KeyPoint, TranscriptSegment } from "@shared/schema";
+
+// The segments a key point's span overlaps
+function segmentIdsWithin(segments: TranscriptSegment[], startTime: number, endTime: number): string[] {
+  return segments
+    .filter((segment) => segment.startTime < endTime && segment.endTime > startTime)
+    .map((segment) => segment.id);
+}
+
+// Extracts the item's key points from its transcript and stores them in place
+// of the previous ones, each linked to the segments within its span
+export async function regenerateKeyPoints(content: AudioContent): Promise<KeyPoint[]> {
+  const segments = await storage.getTranscriptSegments(content.id);
+  const extracted = await extractKeyPoints(segments);
+
+  return storage.replaceKeyPoints(
+    content.id,
+    extracted.map((point, index) => ({
+      audioContentId: content.id,
+      position: index,
+      text: point.text,
+      segmentIds: segmentIdsWithin(segments, point.startTime, point.endTime),
+      startTime: point.startTime,
+      endTime: point.endTime,
+    })),
+  );
+}
+
+// Retranscribing replaces every segment; this points the existing key points
+// at the new segments covering their spans, keeping their ids and flashcards
+export async function relinkKeyPoints(audioContentId: string): Promise<void> {
+  const segments = await storage.getTranscriptSegments(audioContentId);
+  for (const keyPoint of await storage.getKeyPoints(audioContentId)) {
+    await storage.updateKeyPoint(keyPoint.id, {
+      segmentIds: segmentIdsWithin(segments, keyPoint.startTime, keyPoint.endTime),
+    });
+  }
+}
+
+// Highlights the passage behind a key point: the supporting segments' words,
+// with the key point itself as the note
+export async function highlightKeyPoint(keyPoint: KeyPoint, userId: string): Promise<Highlight> {
+  const segments = await storage.getTranscriptSegments(keyPoint.audioContentId);
+  const quoted = segments
+    .filter((segment) => keyPoint.segmentIds.includes(segment.id))
+    .map((segment) => segment.text.trim())
+    .join(" ");
+
+  return storage.createHighlight({
+    userId,
+    audioContentId: keyPoint.audioContentId,
+    text: quoted || keyPoint.text,
+    startTime: keyPoint.startTime,
+    endTime: keyPoint.endTime,
+    note: quoted ? keyPoint.text : null,
+  });
+}
@@ -0,0 +1,101 @@
+import { storage } from "./storage";
+import { compileTemplate, renderTemplate, type CompiledTemplate } from "./services/template";
+import { createZip } from "./services/zip";
+import { DEFAULT_MARKDOWN_TEMPLATE } from "@shared/markdown-template";
+import type { AudioContent } from "@shared/schema";
+
+// 3725 -> "1:02:05", 125 -> "2:05"
+function formatTime(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = Math.floor(seconds % 60).toString().padStart(2, "0");
+  return hours > 0 ? `${hours}:${minutes.toString().padStart(2, "0")}:${secs}` : `${minutes}:${secs}`;
+}
+
+const formatDate = (date: Date | string | null) => (date ? new Date(date).toISOString().slice(0, 10) : "");
+
+// Obsidian tags can't contain spaces or most punctuation
+const tagSlug = (keyword: string) =>
+  keyword.toLowerCase().replace(/[^a-z0-9_/-]+/g, "-").replace(/^-+|-+$/g, "");
+
+// Note files are named after the item, minus characters Obsidian and common
+// file systems reject; copy numbers files for items with the same title
+export function noteFileName(title: string, copy = 1): string {
+  const base = title
+    .replace(/[\\/]/g, "-")
+    .replace(/[:*?"<>|#^[\]]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 100) || "Untitled";
+  return copy > 1 ? `${base} (${copy}).md` : `${base}.md`;
+}
+
+// The user's own template if they saved one, compiled
+export async function getMarkdownTemplate(userId: string): Promise<CompiledTemplate> {
+  const settings = await storage.getUserSettings(userId);
+  return compileTemplate(settings?.markdownTemplate ?? DEFAULT_MARKDOWN_TEMPLATE);
+}
+
+// Everything a template can refer to for one item. baseUrl is where the app
+// is served, for links that open the item at a moment.
+async function noteContext(content: AudioContent, baseUrl: string): Promise<Record<string, unknown>> {
+  const link = (seconds?: number) =>
+    `${baseUrl}/?item=${content.id}${seconds !== undefined ? `&t=${Math.floor(seconds)}` : ""}`;
+  const moment = (seconds: number) => ({ seconds, time: formatTime(seconds), link: link(seconds) });
+
+  const [keyPoints, highlights, chapters] = await Promise.all([
+    storage.getKeyPoints(content.id),
+    storage.getHighlightsByAudioContent(content.id),
+    storage.getChapters(content.id),
+  ]);
+  const keywords = content.keywords ?? [];
+
+  return {
+    title: content.title,
+    source: content.source ?? "",
+    link: link(),
+    duration: content.duration ? formatTime(content.duration) : "",
+    published: formatDate(content.publishedAt),
+    added: formatDate(content.createdAt),
+    exported: formatDate(new Date()),
+    summary: content.aiSummary ?? "",
+    keywords,
+    tags: keywords.map(tagSlug).filter(Boolean),
+    keyPoints: keyPoints.map((keyPoint) => ({ text: keyPoint.text, ...moment(keyPoint.startTime) })),
+    highlights: highlights.map((highlight) => ({
+      // One line, so it stays inside a Markdown quote
+      text: highlight.text.replace(/\s+/g, " ").trim(),
+      note: highlight.note ?? "",
+      color: highlight.color ?? "yellow",
+      endTime: formatTime(highlight.endTime),
+      ...moment(highlight.startTime),
+    })),
+    chapters: chapters.map((chapter) => ({
+      title: chapter.title,
+      synopsis: chapter.synopsis ?? "",
+      ...moment(chapter.startTime),
+    })),
+  };
+}
+
+export async function renderNote(content: AudioContent, template: CompiledTemplate, baseUrl: string): Promise<string> {
+  return renderTemplate(template, await noteContext(content, baseUrl));
+}
+
+// One note per item in the user's library, zipped
+export async function exportLibraryNotes(userId: string, baseUrl: string): Promise<Buffer> {
+  const template = await getMarkdownTemplate(userId);
+  const items = await storage.getAudioContentByUser(userId);
+  const used = new Set<string>();
+  const entries = [];
+
+  for (const content of items) {
+    let copy = 1;
+    while (used.has(noteFileName(content.title, copy).toLowerCase())) copy++;
+    const name = noteFileName(content.title, copy);
+    used.add(name.toLowerCase());
+    entries.push({ name, data: await renderNote(content, template, baseUrl) });
+  }
+
+  return createZip(entries);
+}
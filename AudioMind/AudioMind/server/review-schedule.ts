@@ -0,0 +1,13 @@
+// What the two review schedules share. Highlights are scheduled with SM-2
+// (server/highlight-review.ts): every review is logged in highlight_reviews,
+// and the ease factor carried from review to review adapts the spacing to each
+// highlight. Flashcards use Leitner boxes (server/flashcards.ts): a card's
+// schedule is just its box, kept on the card, with fixed intervals that export
+// to Anki without extra state. Both treat "again" as forgotten and bring the
+// item back after RELEARN_MINUTES.
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+// A forgotten card or highlight comes back later in the same session
+export const RELEARN_MINUTES = 10;
+
+export const relearnDueAt = (now: Date) => new Date(now.getTime() + RELEARN_MINUTES * 60 * 1000);
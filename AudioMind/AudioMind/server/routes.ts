@@ -1,25 +1,65 @@
-import type { Express } from "express";
+import type { Express, Request } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertAudioContentSchema, insertHighlightSchema } from "@shared/schema";
-import { transcribeAudio, generateSummary, extractKeyPoints } from "./services/openai";
+import { setupAuth, requireAuth } from "./auth";
+import {
+  createChatConversationSchema,
+  flashcardExportSchema,
+  generateFlashcardsSchema,
+  highlightClipSchema,
+  importAudioUrlSchema,
+  insertAudioContentSchema,
+  insertHighlightSchema,
+  reviewGradeSchema,
+  subscribePodcastFeedSchema,
+  updateAudioContentSchema,
+  updatePodcastFeedSchema,
+  sendChatMessageSchema,
+  transcriptExportSchema,
+  updateSpeakerSchema,
+  updateKeyPointSchema,
+  updateFlashcardSchema,
+  updateUserSettingsSchema,
+  type AudioContent,
+  type ChatConversation,
+  type Flashcard,
+  type KeyPoint,
+  type PodcastFeed,
+} from "@shared/schema";
+import { generateSummary } from "./services/ai";
+import { enqueueJob, hasActiveJob } from "./jobs";
+import { subscribeToEvents } from "./events";
+import { fileNameFromUrl } from "./services/download";
+import { fetchFeed } from "./services/feeds";
+import { pollFeed } from "./feeds";
+import { askQuestion } from "./chat";
+import { highlightKeyPoint, regenerateKeyPoints } from "./key-points";
+import { downsamplePeaks, STORED_PEAK_COUNT } from "./services/waveform";
+import { embeddingProvider } from "./services/embeddings";
+import { formatTranscript, transcriptExportTypes } from "./services/subtitles";
+import { compileTemplate } from "./services/template";
+import { exportLibraryNotes, getMarkdownTemplate, noteFileName, renderNote } from "./notes-export";
+import { exportFlashcardDeck, exportFlashcardsCsv, generateItemFlashcards, scheduleReview } from "./flashcards";
+import { getHighlightReviewSession, isValidTimeZone, scheduleHighlight } from "./highlight-review";
+import { clipRange, clipTypes, getHighlightClip, MAX_AUDIOGRAM_SECONDS, removeHighlightClips } from "./clips";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
+import { uploadDir, newUploadPath, removeUploadedFile } from "./uploads";
 
 // Configure multer for file uploads
-const uploadDir = "uploads";
-if (!fs.existsSync(uploadDir)) {
-  fs.mkdirSync(uploadDir, { recursive: true });
-}
-
 const upload = multer({
   dest: uploadDir,
   limits: {
     fileSize: 500 * 1024 * 1024, // 500MB limit
   },
   fileFilter: (req, file, cb) => {
-    const allowedMimes = ['audio/mpeg', 'audio/wav', 'audio/m4a', 'audio/flac', 'audio/mp3'];
+    // Formats browsers can't play are transcoded after upload
+    const allowedMimes = [
+      'audio/mpeg', 'audio/wav', 'audio/x-wav', 'audio/wave', 'audio/m4a', 'audio/x-m4a', 'audio/mp4',
+      'audio/flac', 'audio/x-flac', 'audio/mp3', 'audio/ogg', 'audio/opus', 'audio/webm', 'video/webm',
+      'audio/aac', 'audio/x-aac',
+    ];
     if (allowedMimes.includes(file.mimetype)) {
       cb(null, true);
     } else {
@@ -28,24 +68,96 @@ const upload = multer({
   }
 });
 
+// Other users' content is reported as missing rather than forbidden so ids don't leak
+async function getOwnedAudioContent(req: Request, id: string): Promise<AudioContent | undefined> {
+  const content = await storage.getAudioContent(id);
+  return content && content.userId === req.user!.id ? content : undefined;
+}
+
+async function getOwnedPodcastFeed(req: Request, id: string): Promise<PodcastFeed | undefined> {
+  const feed = await storage.getPodcastFeed(id);
+  return feed && feed.userId === req.user!.id ? feed : undefined;
+}
+
+async function getOwnedChatConversation(req: Request, id: string): Promise<ChatConversation | undefined> {
+  const conversation = await storage.getChatConversation(id);
+  return conversation && conversation.userId === req.user!.id ? conversation : undefined;
+}
+
+// Key points belong to whoever owns their item
+async function getOwnedKeyPoint(req: Request, id: string): Promise<KeyPoint | undefined> {
+  const keyPoint = await storage.getKeyPoint(id);
+  return keyPoint && (await getOwnedAudioContent(req, keyPoint.audioContentId)) ? keyPoint : undefined;
+}
+
+async function getOwnedFlashcard(req: Request, id: string): Promise<Flashcard | undefined> {
+  const card = await storage.getFlashcard(id);
+  return card && card.userId === req.user!.id ? card : undefined;
+}
+
+// Where the app is served, for links back into it from exports
+function appBaseUrl(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
-  // Mock user ID for development (in production, get from session/auth)
-  const MOCK_USER_ID = "user-123";
+  setupAuth(app);
+
+  // Everything below requires a signed-in user
+  app.use(["/api/audio-content", "/api/audio", "/api/highlights", "/api/key-points", "/api/feeds", "/api/search", "/api/chat", "/api/settings", "/api/export", "/api/flashcards"], requireAuth);
+
+  // Server-Sent Events stream of job progress for the signed-in user
+  app.get("/api/events", requireAuth, (req, res) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.write("retry: 5000\n\n");
+
+    const unsubscribe = subscribeToEvents(req.user!.id, (event) => {
+      res.write(`event: job\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Comment lines keep proxies from closing an idle connection
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), 25 * 1000);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
 
   // Get all audio content for user
   app.get("/api/audio-content", async (req, res) => {
     try {
-      const content = await storage.getAudioContentByUser(MOCK_USER_ID);
+      const content = await storage.getAudioContentByUser(req.user!.id);
       res.json(content);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch audio content" });
     }
   });
 
+  // Search audio content; kept for existing clients, the search page uses /api/search
+  app.get("/api/audio-content/search", async (req, res) => {
+    try {
+      const query = req.query.q as string;
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+
+      const results = await storage.searchAudioContent(req.user!.id, query);
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search audio content" });
+    }
+  });
+
   // Get specific audio content
   app.get("/api/audio-content/:id", async (req, res) => {
     try {
-      const content = await storage.getAudioContent(req.params.id);
+      const content = await getOwnedAudioContent(req, req.params.id);
       if (!content) {
         return res.status(404).json({ message: "Audio content not found" });
       }
@@ -55,10 +167,53 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Edit title and source
+  app.patch("/api/audio-content/:id", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const parsed = updateAudioContentSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid audio content data" });
+      }
+
+      const updated = await storage.updateAudioContent(content.id, {
+        ...parsed.data,
+        // Empty source clears it
+        ...(parsed.data.source !== undefined && { source: parsed.data.source || null }),
+      });
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update audio content" });
+    }
+  });
+
+  // Delete audio content with its highlights, transcript and uploaded file
+  app.delete("/api/audio-content/:id", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const highlights = await storage.getHighlightsByAudioContent(content.id);
+      await storage.deleteAudioContent(content.id);
+      await removeUploadedFile(content.filePath);
+      await removeHighlightClips(highlights.map((highlight) => highlight.id));
+
+      res.json({ message: "Audio content deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete audio content" });
+    }
+  });
+
   // Serve audio files
   app.get("/api/audio/:id", async (req, res) => {
     try {
-      const content = await storage.getAudioContent(req.params.id);
+      const content = await getOwnedAudioContent(req, req.params.id);
       if (!content) {
         return res.status(404).json({ message: "Audio content not found" });
       }
@@ -71,20 +226,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const fileSize = stat.size;
       const range = req.headers.range;
       
-      // Fix MIME type mapping
+      // Processed files carry the MIME type ffprobe confirmed; otherwise guess from the extension
       let mimeType = content.mimeType || 'audio/mpeg';
-      if (content.fileName) {
+      if (!content.codec && content.fileName) {
         const ext = path.extname(content.fileName).toLowerCase();
         const mimeMap: Record<string, string> = {
           '.mp3': 'audio/mpeg',
           '.wav': 'audio/wav',
           '.m4a': 'audio/mp4',
           '.flac': 'audio/flac',
-          '.ogg': 'audio/ogg'
+          '.ogg': 'audio/ogg',
+          '.opus': 'audio/ogg',
+          '.webm': 'audio/webm',
+          '.aac': 'audio/aac',
         };
         mimeType = mimeMap[ext] || mimeType;
       }
-      
+
       if (range) {
         const parts = range.replace(/bytes=/, "").split("-");
         const start = parseInt(parts[0], 10);
@@ -130,7 +288,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Create audio content record
       const audioContent = await storage.createAudioContent({
-        userId: MOCK_USER_ID,
+        userId: req.user!.id,
         title,
         source: source || null,
         fileName: req.file.originalname,
@@ -139,27 +297,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mimeType: req.file.mimetype,
       });
 
-      res.json(audioContent);
+      // Probing, transcoding and transcription run on the background job queue. Queue
+      // before responding, so a failure can still be reported and leaves no orphaned item.
+      try {
+        await enqueueJob("process", audioContent.id);
+      } catch (error) {
+        await storage.deleteAudioContent(audioContent.id);
+        await removeUploadedFile(audioContent.filePath);
+        throw error;
+      }
 
-      // Start transcription process asynchronously
-      processAudioFile(audioContent.id, req.file.path);
+      res.json(audioContent);
     } catch (error) {
       res.status(500).json({ message: "Failed to upload audio file" });
     }
   });
 
-  // Search audio content
-  app.get("/api/audio-content/search", async (req, res) => {
+  // Import audio from a URL; the download runs on the job queue and reports progress over /api/events
+  app.post("/api/audio-content/import-url", async (req, res) => {
     try {
-      const query = req.query.q as string;
-      if (!query) {
-        return res.status(400).json({ message: "Search query is required" });
+      const parsed = importAudioUrlSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid import request" });
       }
 
-      const results = await storage.searchAudioContent(MOCK_USER_ID, query);
-      res.json(results);
+      const { url, title, source } = parsed.data;
+      const audioContent = await storage.createAudioContent({
+        userId: req.user!.id,
+        title,
+        source: source || null,
+        fileName: fileNameFromUrl(url),
+        filePath: newUploadPath(),
+        fileSize: null,
+        mimeType: null,
+      });
+
+      try {
+        await enqueueJob("import", audioContent.id, { url });
+      } catch (error) {
+        await storage.deleteAudioContent(audioContent.id);
+        throw error;
+      }
+
+      res.status(202).json(audioContent);
     } catch (error) {
-      res.status(500).json({ message: "Failed to search audio content" });
+      res.status(500).json({ message: "Failed to import audio from URL" });
     }
   });
 
@@ -167,35 +349,238 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.patch("/api/audio-content/:id/progress", async (req, res) => {
     try {
       const { progress } = req.body;
-      const updated = await storage.updateAudioContent(req.params.id, {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const updated = await storage.updateAudioContent(content.id, {
         progress,
         lastAccessedAt: new Date(),
       });
       
-      if (!updated) {
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update progress" });
+    }
+  });
+
+  // Requeue transcription, e.g. after it failed
+  app.post("/api/audio-content/:id/retranscribe", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
         return res.status(404).json({ message: "Audio content not found" });
       }
-      
+
+      // Each of these ends in a transcription; another one would race it on segments and speakers
+      const stages = ["import", "process", "transcribe"] as const;
+      const active = await Promise.all(stages.map((type) => hasActiveJob(content.id, type)));
+      if (active.some(Boolean)) {
+        return res.status(409).json({ message: "Transcription is already in progress" });
+      }
+
+      const updated = await storage.updateAudioContent(content.id, {
+        transcriptionStatus: "pending",
+        transcriptionProgress: 0,
+        transcriptionText: null,
+        transcriptionError: null,
+      });
+
+      // An import that failed before the file arrived has to download it again first
+      const lastImport = (await storage.getJobsByAudioContent(content.id)).find((job) => job.type === "import");
+      if (lastImport && !fs.existsSync(content.filePath)) {
+        await enqueueJob("import", content.id, { ...lastImport.payload, transcribe: true });
+      } else {
+        await enqueueJob("transcribe", content.id);
+      }
+
       res.json(updated);
     } catch (error) {
-      res.status(500).json({ message: "Failed to update progress" });
+      res.status(500).json({ message: "Failed to requeue transcription" });
+    }
+  });
+
+  // Get waveform peaks, reduced to ?resolution=N bars (default 200)
+  app.get("/api/audio-content/:id/waveform", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const resolution = parseInt((req.query.resolution as string) || "200", 10);
+      if (!Number.isInteger(resolution) || resolution < 1 || resolution > STORED_PEAK_COUNT) {
+        return res.status(400).json({ message: `Resolution must be between 1 and ${STORED_PEAK_COUNT}` });
+      }
+
+      const waveform = await storage.getWaveform(content.id);
+      if (!waveform) {
+        return res.status(404).json({ message: "Waveform not available" });
+      }
+
+      const peaks = downsamplePeaks(waveform.peaks, resolution);
+      res.json({ resolution: peaks.length, peaks });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch waveform" });
+    }
+  });
+
+  // Get an item's chapters, embedded by the publisher or generated from the transcript
+  app.get("/api/audio-content/:id/chapters", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const chapters = await storage.getChapters(content.id);
+      res.json(chapters);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch chapters" });
+    }
+  });
+
+  // Regenerate chapters from the transcript, replacing any embedded ones
+  app.post("/api/audio-content/:id/chapters", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      if (!content.transcriptionText) {
+        return res.status(400).json({ message: "Transcription not available" });
+      }
+
+      if (await hasActiveJob(content.id, "chapters")) {
+        return res.status(409).json({ message: "Chapters are already being generated" });
+      }
+
+      const job = await enqueueJob("chapters", content.id, { regenerate: true });
+      res.status(202).json(job);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to queue chapter generation" });
     }
   });
 
   // Get transcript segments for audio content
   app.get("/api/audio-content/:id/transcript", async (req, res) => {
     try {
-      const segments = await storage.getTranscriptSegments(req.params.id);
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const segments = await storage.getTranscriptSegments(content.id);
       res.json(segments);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch transcript" });
     }
   });
 
+  // Download the transcript as captions (srt, vtt, ttml), plain text or JSON
+  app.get("/api/audio-content/:id/export", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const parsed = transcriptExportSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid export options" });
+      }
+
+      const segments = await storage.getTranscriptSegments(content.id);
+      if (segments.length === 0) {
+        return res.status(400).json({ message: "Transcription not available" });
+      }
+
+      const { format, maxLineLength, speakers: speakerPrefixes, offset } = parsed.data;
+      const speakerNames = new Map((await storage.getSpeakers(content.id)).map((speaker) => [speaker.label, speaker.name]));
+      const body = formatTranscript(
+        segments.map((segment) => ({
+          startTime: segment.startTime,
+          endTime: segment.endTime,
+          text: segment.text,
+          speaker: segment.speaker ? speakerNames.get(segment.speaker) ?? segment.speaker : null,
+        })),
+        format,
+        { maxLineLength, speakerPrefixes, offset },
+      );
+
+      res.attachment(`${content.title}.${format}`);
+      res.setHeader("Content-Type", transcriptExportTypes[format]);
+      res.send(body);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export transcript" });
+    }
+  });
+
+  // Download an item's summary, key points and highlights as a Markdown note
+  app.get("/api/audio-content/:id/markdown", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const template = await getMarkdownTemplate(req.user!.id);
+      const note = await renderNote(content, template, appBaseUrl(req));
+      res.attachment(noteFileName(content.title));
+      res.setHeader("Content-Type", "text/markdown; charset=utf-8");
+      res.send(note);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export note" });
+    }
+  });
+
+  // Get the speakers identified in an item's transcript
+  app.get("/api/audio-content/:id/speakers", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const speakers = await storage.getSpeakers(content.id);
+      res.json(speakers);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch speakers" });
+    }
+  });
+
+  // Rename a speaker
+  app.patch("/api/audio-content/:id/speakers/:speakerId", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      const speaker = await storage.getSpeaker(req.params.speakerId);
+      if (!content || !speaker || speaker.audioContentId !== content.id) {
+        return res.status(404).json({ message: "Speaker not found" });
+      }
+
+      const parsed = updateSpeakerSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid speaker name" });
+      }
+
+      const updated = await storage.updateSpeaker(speaker.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to rename speaker" });
+    }
+  });
+
   // Get highlights for audio content
   app.get("/api/audio-content/:id/highlights", async (req, res) => {
     try {
-      const highlights = await storage.getHighlightsByAudioContent(req.params.id);
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const highlights = await storage.getHighlightsByAudioContent(content.id);
       res.json(highlights);
     } catch (error) {
       res.status(500).json({ message: "Failed to fetch highlights" });
@@ -206,9 +591,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/highlights", async (req, res) => {
     try {
       const validatedData = insertHighlightSchema.parse(req.body);
+      const content = await getOwnedAudioContent(req, validatedData.audioContentId);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
       const highlight = await storage.createHighlight({
         ...validatedData,
-        userId: MOCK_USER_ID,
+        userId: req.user!.id,
       });
       res.json(highlight);
     } catch (error) {
@@ -219,20 +609,103 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Delete highlight
   app.delete("/api/highlights/:id", async (req, res) => {
     try {
-      const deleted = await storage.deleteHighlight(req.params.id);
-      if (!deleted) {
+      const highlight = await storage.getHighlight(req.params.id);
+      if (!highlight || highlight.userId !== req.user!.id) {
         return res.status(404).json({ message: "Highlight not found" });
       }
+
+      await storage.deleteHighlight(highlight.id);
+      await removeHighlightClips([highlight.id]);
       res.json({ message: "Highlight deleted successfully" });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete highlight" });
     }
   });
 
+  // Download a highlight's passage as an MP3 or Ogg clip, or as an audiogram
+  // video with its waveform and text. Clips are cached after the first render.
+  app.get("/api/highlights/:id/clip", async (req, res) => {
+    try {
+      const highlight = await storage.getHighlight(req.params.id);
+      if (!highlight || highlight.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Highlight not found" });
+      }
+
+      const content = await getOwnedAudioContent(req, highlight.audioContentId);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+      if (!fs.existsSync(content.filePath)) {
+        return res.status(404).json({ message: "Audio file not found" });
+      }
+
+      const parsed = highlightClipSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid clip options" });
+      }
+
+      const { start, end } = clipRange(highlight, content, parsed.data.padding);
+      if (parsed.data.format === "audiogram" && end - start > MAX_AUDIOGRAM_SECONDS) {
+        return res.status(400).json({
+          message: `Audiograms can be at most ${MAX_AUDIOGRAM_SECONDS / 60} minutes long; download the audio instead`,
+        });
+      }
+
+      const clipPath = await getHighlightClip(highlight, content, parsed.data);
+      const { extension, contentType } = clipTypes[parsed.data.format];
+      const minutes = Math.floor(highlight.startTime / 60);
+      const seconds = Math.floor(highlight.startTime % 60).toString().padStart(2, "0");
+      res.attachment(`${content.title} ${minutes}-${seconds}.${extension}`);
+      res.sendFile(path.resolve(clipPath), { headers: { "Content-Type": contentType } });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create clip" });
+    }
+  });
+
+  // Today's highlight review queue, due count and streak; days follow the timeZone query parameter
+  app.get("/api/highlights/review", async (req, res) => {
+    try {
+      const timeZone = typeof req.query.timeZone === "string" && req.query.timeZone ? req.query.timeZone : "UTC";
+      if (!isValidTimeZone(timeZone)) {
+        return res.status(400).json({ message: `Unknown time zone: ${timeZone}` });
+      }
+
+      const session = await getHighlightReviewSession(req.user!.id, timeZone);
+      res.json(session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch review queue" });
+    }
+  });
+
+  // Record how well a highlight was recalled and schedule its next review
+  app.post("/api/highlights/:id/review", async (req, res) => {
+    try {
+      const highlight = await storage.getHighlight(req.params.id);
+      if (!highlight || highlight.userId !== req.user!.id) {
+        return res.status(404).json({ message: "Highlight not found" });
+      }
+
+      const parsed = reviewGradeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid review" });
+      }
+
+      const previous = await storage.getLatestHighlightReview(highlight.id);
+      const review = await storage.createHighlightReview({
+        ...scheduleHighlight(previous, parsed.data.grade),
+        highlightId: highlight.id,
+        userId: req.user!.id,
+      });
+      res.status(201).json(review);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record review" });
+    }
+  });
+
   // Generate AI summary for audio content
   app.post("/api/audio-content/:id/summary", async (req, res) => {
     try {
-      const content = await storage.getAudioContent(req.params.id);
+      const content = await getOwnedAudioContent(req, req.params.id);
       if (!content) {
         return res.status(404).json({ message: "Audio content not found" });
       }
@@ -254,10 +727,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Extract key points from audio content
+  // Get the key points stored for audio content
+  app.get("/api/audio-content/:id/key-points", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const keyPoints = await storage.getKeyPoints(content.id);
+      res.json(keyPoints);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch key points" });
+    }
+  });
+
+  // Extract key points from audio content, replacing any stored ones
   app.post("/api/audio-content/:id/key-points", async (req, res) => {
     try {
-      const content = await storage.getAudioContent(req.params.id);
+      const content = await getOwnedAudioContent(req, req.params.id);
       if (!content) {
         return res.status(404).json({ message: "Audio content not found" });
       }
@@ -266,74 +754,486 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Transcription not available" });
       }
 
-      const keyPoints = await extractKeyPoints(content.transcriptionText);
-      res.json({ keyPoints });
+      const keyPoints = await regenerateKeyPoints(content);
+      res.json(keyPoints);
     } catch (error) {
       res.status(500).json({ message: "Failed to extract key points" });
     }
   });
 
-  const httpServer = createServer(app);
-  return httpServer;
-}
+  // Edit a key point's wording
+  app.patch("/api/key-points/:id", async (req, res) => {
+    try {
+      const keyPoint = await getOwnedKeyPoint(req, req.params.id);
+      if (!keyPoint) {
+        return res.status(404).json({ message: "Key point not found" });
+      }
 
-// Background process for audio transcription
-async function processAudioFile(contentId: string, filePath: string) {
-  try {
-    // Update status to processing
-    await storage.updateAudioContent(contentId, {
-      transcriptionStatus: "processing",
-    });
+      const parsed = updateKeyPointSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid key point" });
+      }
 
+      const updated = await storage.updateKeyPoint(keyPoint.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update key point" });
+    }
+  });
+
+  // Delete a key point
+  app.delete("/api/key-points/:id", async (req, res) => {
     try {
-      // Get the original filename from the content record
-      const content = await storage.getAudioContent(contentId);
-      const originalFilename = content?.fileName;
-      
-      // Transcribe audio with original filename for format detection
-      const { text, duration } = await transcribeAudio(filePath, originalFilename);
-      
-      // Update with transcription results
-      await storage.updateAudioContent(contentId, {
-        transcriptionStatus: "completed",
-        transcriptionText: text,
-        duration: duration ? Math.round(duration) : null,
-      });
+      const keyPoint = await getOwnedKeyPoint(req, req.params.id);
+      if (!keyPoint) {
+        return res.status(404).json({ message: "Key point not found" });
+      }
+
+      await storage.deleteKeyPoint(keyPoint.id);
+      res.json({ message: "Key point deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete key point" });
+    }
+  });
+
+  // Turn a key point into a highlight of the passage that supports it
+  app.post("/api/key-points/:id/highlight", async (req, res) => {
+    try {
+      const keyPoint = await getOwnedKeyPoint(req, req.params.id);
+      if (!keyPoint) {
+        return res.status(404).json({ message: "Key point not found" });
+      }
+
+      const highlight = await highlightKeyPoint(keyPoint, req.user!.id);
+      res.status(201).json(highlight);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create highlight" });
+    }
+  });
+
+  // Write flashcards for an item's highlights and key points that don't have one yet
+  app.post("/api/audio-content/:id/flashcards", async (req, res) => {
+    try {
+      const content = await getOwnedAudioContent(req, req.params.id);
+      if (!content) {
+        return res.status(404).json({ message: "Audio content not found" });
+      }
+
+      const parsed = generateFlashcardsSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid flashcard sources" });
+      }
+
+      const cards = await generateItemFlashcards(content, req.user!.id, parsed.data.sources);
+      res.status(201).json(cards);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to generate flashcards" });
+    }
+  });
+
+  // List the user's flashcards, optionally only those from one item
+  app.get("/api/flashcards", async (req, res) => {
+    try {
+      const audioContentId = typeof req.query.audioContentId === "string" ? req.query.audioContentId : undefined;
+      if (audioContentId) {
+        const content = await getOwnedAudioContent(req, audioContentId);
+        if (!content) {
+          return res.status(404).json({ message: "Audio content not found" });
+        }
+        return res.json(await storage.getFlashcardsByAudioContent(content.id));
+      }
+
+      const cards = await storage.getFlashcardsByUser(req.user!.id);
+      res.json(cards);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch flashcards" });
+    }
+  });
+
+  // The review queue: cards due now, longest overdue first
+  app.get("/api/flashcards/due", async (req, res) => {
+    try {
+      const cards = await storage.getDueFlashcards(req.user!.id, new Date());
+      res.json(cards);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch review queue" });
+    }
+  });
+
+  // Download flashcards for Anki: a CSV, or with audio a zip of the CSV and a clip per card
+  app.get("/api/flashcards/export", async (req, res) => {
+    try {
+      const parsed = flashcardExportSchema.safeParse(req.query);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid export options" });
+      }
+
+      const { audioContentId, audio } = parsed.data;
+      let cards: Flashcard[];
+      if (audioContentId) {
+        const content = await getOwnedAudioContent(req, audioContentId);
+        if (!content) {
+          return res.status(404).json({ message: "Audio content not found" });
+        }
+        cards = await storage.getFlashcardsByAudioContent(content.id);
+      } else {
+        cards = await storage.getFlashcardsByUser(req.user!.id);
+      }
+
+      if (audio) {
+        const zip = await exportFlashcardDeck(cards, appBaseUrl(req));
+        res.attachment("pensieve-flashcards.zip");
+        res.setHeader("Content-Type", "application/zip");
+        return res.send(zip);
+      }
+
+      res.attachment("pensieve-flashcards.csv");
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.send(await exportFlashcardsCsv(cards, appBaseUrl(req)));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export flashcards" });
+    }
+  });
+
+  // Edit a flashcard's question or answer
+  app.patch("/api/flashcards/:id", async (req, res) => {
+    try {
+      const card = await getOwnedFlashcard(req, req.params.id);
+      if (!card) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+
+      const parsed = updateFlashcardSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid flashcard" });
+      }
+
+      const updated = await storage.updateFlashcard(card.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update flashcard" });
+    }
+  });
+
+  // Delete a flashcard
+  app.delete("/api/flashcards/:id", async (req, res) => {
+    try {
+      const card = await getOwnedFlashcard(req, req.params.id);
+      if (!card) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+
+      await storage.deleteFlashcard(card.id);
+      res.json({ message: "Flashcard deleted successfully" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete flashcard" });
+    }
+  });
+
+  // Record how well a card was recalled and schedule its next review
+  app.post("/api/flashcards/:id/review", async (req, res) => {
+    try {
+      const card = await getOwnedFlashcard(req, req.params.id);
+      if (!card) {
+        return res.status(404).json({ message: "Flashcard not found" });
+      }
+
+      const parsed = reviewGradeSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid review" });
+      }
+
+      const updated = await storage.updateFlashcard(card.id, scheduleReview(card, parsed.data.grade));
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to record review" });
+    }
+  });
+
+  // Full-text search across transcripts, highlights and notes
+  app.get("/api/search", async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 50, 1), 100);
+
+      const hits = await storage.search(req.user!.id, query, limit);
+      res.json(hits);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // Transcript passages closest in meaning to the query
+  app.get("/api/search/semantic", async (req, res) => {
+    try {
+      const query = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      if (!query) {
+        return res.status(400).json({ message: "Search query is required" });
+      }
+      const limit = Math.min(Math.max(parseInt(String(req.query.limit), 10) || 10, 1), 50);
+
+      const [embedding] = await embeddingProvider.embed([query]);
+      const hits = await storage.searchTranscriptChunks(req.user!.id, embedding, embeddingProvider.model, limit);
+      res.json(hits);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
+  // Download a zip with a Markdown note for every item in the library
+  app.get("/api/export/markdown", async (req, res) => {
+    try {
+      const zip = await exportLibraryNotes(req.user!.id, appBaseUrl(req));
+      res.attachment("pensieve-notes.zip");
+      res.setHeader("Content-Type", "application/zip");
+      res.send(zip);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export library" });
+    }
+  });
+
+  // Get the signed-in user's settings; markdownTemplate is null until customised
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await storage.getUserSettings(req.user!.id);
+      res.json(settings ?? { userId: req.user!.id, markdownTemplate: null, updatedAt: null });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  // Update settings; a null markdownTemplate restores the default
+  app.patch("/api/settings", async (req, res) => {
+    try {
+      const parsed = updateUserSettingsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid settings" });
+      }
+
+      if (parsed.data.markdownTemplate) {
+        try {
+          compileTemplate(parsed.data.markdownTemplate);
+        } catch (error) {
+          return res.status(400).json({ message: `Template error: ${(error as Error).message}` });
+        }
+      }
+
+      const settings = await storage.saveUserSettings(req.user!.id, parsed.data);
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to save settings" });
+    }
+  });
 
-      // Generate AI summary
+  // List podcast feed subscriptions
+  app.get("/api/feeds", async (req, res) => {
+    try {
+      const feeds = await storage.getPodcastFeedsByUser(req.user!.id);
+      res.json(feeds);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch podcast feeds" });
+    }
+  });
+
+  // Subscribe to an RSS or Atom feed and import its latest episodes
+  app.post("/api/feeds", async (req, res) => {
+    try {
+      const parsed = subscribePodcastFeedSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid feed subscription" });
+      }
+
+      const { feedUrl, autoTranscribe, keepLastEpisodes } = parsed.data;
+      const existing = await storage.getPodcastFeedsByUser(req.user!.id);
+      if (existing.some((feed) => feed.feedUrl === feedUrl)) {
+        return res.status(409).json({ message: "You are already subscribed to this feed" });
+      }
+
+      let feedData;
       try {
-        const { summary, keywords } = await generateSummary(text);
-        await storage.updateAudioContent(contentId, {
-          aiSummary: summary,
-          keywords,
-        });
-      } catch (summaryError) {
-        console.error("Failed to generate summary:", summaryError);
+        feedData = await fetchFeed(feedUrl);
+      } catch (error) {
+        return res.status(400).json({ message: `Could not read feed: ${(error as Error).message}` });
       }
-    } catch (transcriptionError: any) {
-      console.error("Transcription failed:", transcriptionError);
-      
-      // Handle quota exceeded or other API errors
-      let errorMessage = "Transcription failed";
-      if (transcriptionError.message?.includes("quota") || transcriptionError.message?.includes("429")) {
-        errorMessage = "OpenAI quota exceeded. Please add credits to your OpenAI account.";
+
+      const feed = await storage.createPodcastFeed({
+        userId: req.user!.id,
+        feedUrl,
+        title: feedData.title,
+        description: feedData.description ?? null,
+        artworkUrl: feedData.artworkUrl ?? null,
+        autoTranscribe,
+        keepLastEpisodes,
+      });
+      // A subscription whose first poll failed would keep failing in the
+      // background; undo it, along with any episodes it had queued
+      try {
+        await pollFeed(feed, feedData);
+      } catch (error) {
+        for (const episode of await storage.getAudioContentByFeed(feed.id)) {
+          await storage.deleteAudioContent(episode.id);
+          await removeUploadedFile(episode.filePath);
+        }
+        await storage.deletePodcastFeed(feed.id);
+        throw error;
       }
-      
-      await storage.updateAudioContent(contentId, {
-        transcriptionStatus: "error",
-        transcriptionText: `Error: ${errorMessage}`,
+
+      res.status(201).json(await storage.getPodcastFeed(feed.id));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to subscribe to feed" });
+    }
+  });
+
+  // Update per-feed options
+  app.patch("/api/feeds/:id", async (req, res) => {
+    try {
+      const feed = await getOwnedPodcastFeed(req, req.params.id);
+      if (!feed) {
+        return res.status(404).json({ message: "Podcast feed not found" });
+      }
+
+      const parsed = updatePodcastFeedSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid feed options" });
+      }
+
+      const updated = await storage.updatePodcastFeed(feed.id, parsed.data);
+      res.json(updated);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to update podcast feed" });
+    }
+  });
+
+  // Check a feed for new episodes now instead of waiting for the poller
+  app.post("/api/feeds/:id/refresh", async (req, res) => {
+    try {
+      const feed = await getOwnedPodcastFeed(req, req.params.id);
+      if (!feed) {
+        return res.status(404).json({ message: "Podcast feed not found" });
+      }
+
+      const imported = await pollFeed(feed);
+      res.json({ imported, feed: await storage.getPodcastFeed(feed.id) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to refresh podcast feed" });
+    }
+  });
+
+  // Unsubscribe; episodes already imported stay in the library
+  app.delete("/api/feeds/:id", async (req, res) => {
+    try {
+      const feed = await getOwnedPodcastFeed(req, req.params.id);
+      if (!feed) {
+        return res.status(404).json({ message: "Podcast feed not found" });
+      }
+
+      await storage.deletePodcastFeed(feed.id);
+      res.json({ message: "Unsubscribed from podcast feed" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to unsubscribe from podcast feed" });
+    }
+  });
+
+  // List chat conversations
+  app.get("/api/chat/conversations", async (req, res) => {
+    try {
+      const conversations = await storage.getChatConversationsByUser(req.user!.id);
+      res.json(conversations);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch conversations" });
+    }
+  });
+
+  // Start a conversation about one item, a podcast feed's episodes or the whole library
+  app.post("/api/chat/conversations", async (req, res) => {
+    try {
+      const parsed = createChatConversationSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid conversation" });
+      }
+
+      const { scope, title } = parsed.data;
+      let scopeTitle = "Whole library";
+      if (scope.type === "item") {
+        const content = await getOwnedAudioContent(req, scope.id);
+        if (!content) {
+          return res.status(404).json({ message: "Audio content not found" });
+        }
+        scopeTitle = content.title;
+      } else if (scope.type === "feed") {
+        const feed = await getOwnedPodcastFeed(req, scope.id);
+        if (!feed) {
+          return res.status(404).json({ message: "Podcast feed not found" });
+        }
+        scopeTitle = feed.title;
+      }
+
+      const conversation = await storage.createChatConversation({
+        userId: req.user!.id,
+        title: title ?? scopeTitle,
+        scopeType: scope.type,
+        scopeId: scope.type === "library" ? null : scope.id,
+        autoTitle: title === undefined,
       });
+      res.status(201).json(conversation);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to start conversation" });
     }
+  });
 
-    // Don't delete the uploaded file - we need it for playback
-    // fs.unlink(filePath, (err) => {
-    //   if (err) console.error("Failed to delete uploaded file:", err);
-    // });
-    
-  } catch (error) {
-    console.error("Failed to process audio file:", error);
-    await storage.updateAudioContent(contentId, {
-      transcriptionStatus: "error",
-    });
-  }
+  // Get a conversation's messages
+  app.get("/api/chat/conversations/:id/messages", async (req, res) => {
+    try {
+      const conversation = await getOwnedChatConversation(req, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const messages = await storage.getChatMessages(conversation.id);
+      res.json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Ask a question; responds with the saved question and answer
+  app.post("/api/chat/conversations/:id/messages", async (req, res) => {
+    try {
+      const conversation = await getOwnedChatConversation(req, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      const parsed = sendChatMessageSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid message" });
+      }
+
+      const messages = await askQuestion(conversation, parsed.data.content);
+      res.status(201).json(messages);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to answer question" });
+    }
+  });
+
+  // Delete a conversation and its messages
+  app.delete("/api/chat/conversations/:id", async (req, res) => {
+    try {
+      const conversation = await getOwnedChatConversation(req, req.params.id);
+      if (!conversation) {
+        return res.status(404).json({ message: "Conversation not found" });
+      }
+
+      await storage.deleteChatConversation(conversation.id);
+      res.json({ message: "Conversation deleted" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete conversation" });
+    }
+  });
+
+  const httpServer = createServer(app);
+  return httpServer;
 }
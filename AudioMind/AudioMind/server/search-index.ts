@@ -0,0 +1,134 @@
+// In-process search used by MemStorage. DbStorage uses Postgres tsvector
+// search and pgvector instead; both return snippets in the same <mark> format.
+
+// Words around the first match kept in a snippet, like ts_headline's MaxWords
+const SNIPPET_WORDS = 24;
+
+// Dropped from documents and queries, as Postgres' english configuration does
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "but", "by", "for", "from", "had", "has", "have",
+  "he", "her", "his", "i", "if", "in", "into", "is", "it", "its", "me", "my", "no", "not",
+  "of", "on", "or", "our", "she", "so", "than", "that", "the", "their", "them", "then",
+  "there", "these", "they", "this", "to", "too", "us", "was", "we", "were", "what", "when",
+  "which", "who", "will", "with", "you", "your",
+]);
+
+// Latin letters (accented included), digits and apostrophes
+const WORD_PATTERN = /[A-Za-z0-9À-ɏ']+/g;
+const EDGE_PUNCTUATION = /^[^A-Za-z0-9À-ɏ]+|[^A-Za-z0-9À-ɏ']+$/g;
+
+// A light suffix stripper so "interviews" finds "interview" and "running" finds "run"
+function stem(word: string): string {
+  word = word.replace(/'s?$/, "");
+  if (word.length > 5 && word.endsWith("ing")) return word.slice(0, -3).replace(/(.)\1$/, "$1");
+  if (word.length > 5 && word.endsWith("ed")) return word.slice(0, -2).replace(/(.)\1$/, "$1");
+  if (word.length > 4 && word.endsWith("ies")) return `${word.slice(0, -3)}y`;
+  if (word.length > 4 && word.endsWith("es") && /(s|x|z|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  if (word.length > 3 && word.endsWith("s") && !word.endsWith("ss")) return word.slice(0, -1);
+  return word;
+}
+
+function normalize(word: string): string | null {
+  const lower = word.toLowerCase();
+  return STOP_WORDS.has(lower) ? null : stem(lower);
+}
+
+// Search terms in a document or query, stop words removed
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? [])
+    .map(normalize)
+    .filter((term): term is string => term !== null && term.length > 0);
+}
+
+// Cuts a window of words around the first match and wraps every matching word in <mark>
+export function buildSnippet(text: string, terms: string[]): string {
+  const words = text.split(/\s+/).filter(Boolean);
+  const matches = words.map((word) => {
+    const term = normalize(word.replace(EDGE_PUNCTUATION, ""));
+    return term !== null && terms.includes(term);
+  });
+
+  const firstMatch = Math.max(matches.indexOf(true), 0);
+  const start = Math.max(0, Math.min(firstMatch - Math.floor(SNIPPET_WORDS / 3), words.length - SNIPPET_WORDS));
+  return words
+    .slice(start, start + SNIPPET_WORDS)
+    .map((word, index) => (matches[start + index] ? `<mark>${word}</mark>` : word))
+    .join(" ");
+}
+
+export class InvertedIndex {
+  // term -> document key -> occurrences of the term in that document
+  private postings = new Map<string, Map<string, number>>();
+  // document key -> its distinct terms, so a document can be removed without a scan
+  private documents = new Map<string, string[]>();
+
+  add(key: string, text: string | null) {
+    this.remove(key);
+    if (!text) return;
+
+    const counts: Record<string, number> = {};
+    for (const term of tokenize(text)) {
+      counts[term] = (counts[term] || 0) + 1;
+    }
+    const terms = Object.keys(counts);
+    for (const term of terms) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      postings.set(key, counts[term]);
+    }
+    this.documents.set(key, terms);
+  }
+
+  remove(key: string) {
+    const terms = this.documents.get(key);
+    if (!terms) return;
+
+    for (const term of terms) {
+      const postings = this.postings.get(term);
+      postings?.delete(key);
+      if (postings?.size === 0) this.postings.delete(term);
+    }
+    this.documents.delete(key);
+  }
+
+  // Documents containing every query term, scored by TF-IDF, best first
+  search(terms: string[]): { key: string; score: number }[] {
+    const unique = terms.filter((term, index) => terms.indexOf(term) === index);
+    if (unique.length === 0) return [];
+
+    const postingLists = unique.map((term) => this.postings.get(term));
+    if (postingLists.some((postings) => !postings)) return [];
+    const lists = postingLists as Map<string, number>[];
+
+    // Walk the rarest term's postings and check the others
+    const rarest = lists.reduce((smallest, postings) => (postings.size < smallest.size ? postings : smallest));
+    const total = this.documents.size;
+
+    return Array.from(rarest.keys())
+      .filter((key) => lists.every((postings) => postings.has(key)))
+      .map((key) => ({
+        key,
+        score: lists.reduce(
+          (score, postings) => score + (1 + Math.log(postings.get(key)!)) * Math.log(1 + total / postings.size),
+          0,
+        ),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+}
+
+// For comparing embeddings; 1 means the same direction
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,87 @@
+import { afterEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { llm } from "./llm";
+import { extractKeyPoints, generateChapters, generateFlashcards, generateSummary } from "./ai";
+
+const reply = (value: unknown) => mock.method(llm, "complete", async () => JSON.stringify(value));
+
+const segments = [
+  { startTime: 0, endTime: 30, text: "Opening" },
+  { startTime: 30, endTime: 60, text: "Middle" },
+  { startTime: 60, endTime: 90, text: "Ending" },
+];
+
+afterEach(() => mock.restoreAll());
+
+describe("generateSummary", () => {
+  it("keeps string keywords and falls back when the summary is missing", async () => {
+    reply({ summary: 42, keywords: ["cells", 7, " ", "mitosis"] });
+    assert.deepEqual(await generateSummary("transcript"), {
+      summary: "Summary could not be generated",
+      keywords: ["cells", "mitosis"],
+    });
+  });
+});
+
+describe("extractKeyPoints", () => {
+  it("keeps well-formed points, spanning the cited lines", async () => {
+    reply({
+      keyPoints: [
+        { text: " Quoted times ", start: "30", end: "60" },
+        { text: "No end", start: 0 },
+        { text: "", start: 0, end: 30 },
+        { text: "No start", end: 30 },
+        "not a point",
+      ],
+    });
+    assert.deepEqual(await extractKeyPoints(segments), [
+      { text: "Quoted times", startTime: 30, endTime: 90 },
+      { text: "No end", startTime: 0, endTime: 30 },
+    ]);
+  });
+
+  it("returns nothing when the reply has no list", async () => {
+    reply({ keyPoints: "none" });
+    assert.deepEqual(await extractKeyPoints(segments), []);
+  });
+});
+
+describe("generateChapters", () => {
+  it("drops malformed chapters and starts the first at zero", async () => {
+    reply({
+      chapters: [
+        { title: "Later", start: 60, synopsis: 3 },
+        { title: "Intro", start: 5, synopsis: " Sets the scene. " },
+        { title: "Same start", start: 60 },
+        { start: 30 },
+      ],
+    });
+    assert.deepEqual(await generateChapters(segments, 90), [
+      { title: "Intro", startTime: 0, endTime: 60, synopsis: "Sets the scene." },
+      { title: "Later", startTime: 60, endTime: 90, synopsis: null },
+    ]);
+  });
+});
+
+describe("generateFlashcards", () => {
+  it("skips cards for items that don't exist or lack an answer", async () => {
+    reply({
+      cards: [
+        { item: "1", question: "Q1?", answer: "A1" },
+        { item: 2, question: "Q2?", answer: "A2" },
+        { item: 0, question: "Q0?", answer: " " },
+        { item: 0.5, question: "Q?", answer: "A" },
+      ],
+    });
+    const materials = [
+      { text: "First", note: null },
+      { text: "Second", note: null },
+    ];
+    assert.deepEqual(await generateFlashcards(materials), [{ material: 1, question: "Q1?", answer: "A1" }]);
+  });
+
+  it("fails when the reply isn't an object", async () => {
+    reply(null);
+    await assert.rejects(generateFlashcards([{ text: "First", note: null }]), /Failed to generate flashcards/);
+  });
+});
@@ -0,0 +1,299 @@
+import { z } from "zod";
+import { llm, parseJsonResponse, type ChatMessage } from "./llm";
+
+// A list in the model's reply, keeping the entries that match the schema so
+// one malformed entry doesn't cost the rest
+function listOf<T>(entry: z.ZodType<T, z.ZodTypeDef, unknown>) {
+  return z
+    .array(z.unknown())
+    .catch([])
+    .transform((entries) =>
+      entries.flatMap((value) => {
+        const parsed = entry.safeParse(value);
+        return parsed.success ? [parsed.data] : [];
+      }),
+    );
+}
+
+const summaryResponse = z.object({
+  summary: z.string().trim().catch(""),
+  keywords: listOf(z.string().trim().min(1)),
+});
+
+export async function generateSummary(transcriptionText: string): Promise<{
+  summary: string;
+  keywords: string[];
+}> {
+  try {
+    const content = await llm.complete(
+      [
+        {
+          role: "system",
+          content: "You are an expert content summarizer. Analyze the provided transcript and create a concise summary highlighting the key points, themes, and insights. Also extract important keywords and topics. Respond with JSON in this format: { 'summary': string, 'keywords': string[] }",
+        },
+        {
+          role: "user",
+          content: `Please summarize this audio transcript and extract key topics:\n\n${transcriptionText}`,
+        },
+      ],
+      { json: true },
+    );
+
+    const { summary, keywords } = summaryResponse.parse(parseJsonResponse(content));
+
+    return {
+      summary: summary || "Summary could not be generated",
+      keywords,
+    };
+  } catch (error) {
+    console.error("Summary generation error:", error);
+    throw new Error("Failed to generate summary: " + (error as Error).message);
+  }
+}
+
+export interface TimedText {
+  startTime: number; // seconds
+  endTime: number;
+  text: string;
+}
+
+// Segments are merged into lines at least this long, keeping long transcripts compact
+const TRANSCRIPT_LINE_SECONDS = 30;
+
+// Merges segments into lines of about TRANSCRIPT_LINE_SECONDS each, so a model
+// can refer to any moment by a line's start time
+function timestampedLines(segments: TimedText[]): TimedText[] {
+  const lines: TimedText[] = [];
+  for (const segment of segments) {
+    const last = lines[lines.length - 1];
+    if (last && segment.startTime - last.startTime < TRANSCRIPT_LINE_SECONDS) {
+      last.text += ` ${segment.text.trim()}`;
+      last.endTime = segment.endTime;
+    } else {
+      lines.push({ ...segment, text: segment.text.trim() });
+    }
+  }
+  return lines;
+}
+
+const formatLines = (lines: TimedText[]) => lines.map((line) => `[${line.startTime}] ${line.text}`).join("\n");
+
+// Models sometimes quote numbers, so timestamps and indexes are coerced
+const timestamp = z.coerce.number().finite();
+
+export interface ExtractedKeyPoint {
+  text: string;
+  // The span of the transcript lines supporting the point, in seconds
+  startTime: number;
+  endTime: number;
+}
+
+const keyPointsResponse = z.object({
+  keyPoints: listOf(
+    z.object({
+      text: z.string().trim().min(1),
+      start: timestamp,
+      end: timestamp.optional().catch(undefined),
+    }),
+  ),
+});
+
+// Picks the transcript's key points, each tied to the lines that support it.
+// The model cites line timestamps; the span runs from the first cited line to
+// the end of the last.
+export async function extractKeyPoints(segments: TimedText[]): Promise<ExtractedKeyPoint[]> {
+  const lines = timestampedLines(segments);
+  if (lines.length === 0) return [];
+
+  try {
+    const content = await llm.complete(
+      [
+        {
+          role: "system",
+          content: "You are an expert at extracting key points from content. Each transcript line starts with its start time in seconds in square brackets. Identify the most important points, insights, and takeaways, each concise but meaningful. For each point give 'start', the timestamp of the first line that supports it, and 'end', the timestamp of the last such line; both must be line timestamps. Respond with JSON in this format: { 'keyPoints': [{ 'text': string, 'start': number, 'end': number }] }",
+        },
+        {
+          role: "user",
+          content: `Extract the key points from this transcript:\n\n${formatLines(lines)}`,
+        },
+      ],
+      { json: true },
+    );
+
+    const { keyPoints } = keyPointsResponse.parse(parseJsonResponse(content));
+    return keyPoints.map((point) => {
+      const { start } = point;
+      const end = point.end === undefined ? start : Math.max(point.end, start);
+      // The line the start falls in, through the last line starting by the end
+      const first = lines.filter((line) => line.startTime <= start).pop() ?? lines[0];
+      const last = lines.filter((line) => line.startTime <= end).pop() ?? first;
+      return { text: point.text, startTime: first.startTime, endTime: last.endTime };
+    });
+  } catch (error) {
+    console.error("Key points extraction error:", error);
+    throw new Error("Failed to extract key points: " + (error as Error).message);
+  }
+}
+
+export interface GeneratedChapter {
+  title: string;
+  startTime: number; // seconds
+  endTime: number;
+  synopsis: string | null;
+}
+
+const chaptersResponse = z.object({
+  chapters: listOf(
+    z.object({
+      title: z.string().trim(),
+      start: timestamp,
+      synopsis: z.string().trim().nullable().catch(null),
+    }),
+  ),
+});
+
+// Splits a timestamped transcript into chapters at topic changes. The model
+// picks start times from the line timestamps; each chapter ends where the next begins.
+export async function generateChapters(segments: TimedText[], duration: number): Promise<GeneratedChapter[]> {
+  const lines = timestampedLines(segments);
+
+  try {
+    const content = await llm.complete(
+      [
+        {
+          role: "system",
+          content: "You divide transcripts into chapters for listeners to navigate. Each transcript line starts with its start time in seconds in square brackets. Start a new chapter wherever the conversation moves to a new topic: usually 3 to 12 chapters, fewer for short recordings. The first chapter starts at 0 and every start must be one of the line timestamps. Give each chapter a short title (at most 8 words) and a one-sentence synopsis. Respond with JSON in this format: { 'chapters': [{ 'title': string, 'start': number, 'synopsis': string }] }",
+        },
+        {
+          role: "user",
+          content: `Divide this transcript into chapters:\n\n${formatLines(lines)}`,
+        },
+      ],
+      { json: true },
+    );
+
+    const starts = new Set<number>();
+    const chapters: Omit<GeneratedChapter, "endTime">[] = chaptersResponse
+      .parse(parseJsonResponse(content))
+      .chapters.map((chapter) => ({
+        title: chapter.title,
+        startTime: Math.max(0, Math.min(Math.round(chapter.start), duration)),
+        synopsis: chapter.synopsis,
+      }))
+      .sort((a, b) => a.startTime - b.startTime)
+      // Two chapters can't start at the same moment
+      .filter((chapter) => {
+        if (starts.has(chapter.startTime)) return false;
+        starts.add(chapter.startTime);
+        return true;
+      });
+
+    if (chapters.length > 0) chapters[0].startTime = 0;
+    return chapters.map((chapter, index) => ({
+      ...chapter,
+      endTime: chapters[index + 1]?.startTime ?? duration,
+    }));
+  } catch (error) {
+    console.error("Chapter generation error:", error);
+    throw new Error("Failed to generate chapters: " + (error as Error).message);
+  }
+}
+
+export interface FlashcardMaterial {
+  text: string; // a highlighted passage or a key point
+  note: string | null; // the listener's own note on it, if any
+}
+
+export interface GeneratedFlashcard {
+  material: number; // index into the materials the card was written from
+  question: string;
+  answer: string;
+}
+
+const flashcardsResponse = z.object({
+  cards: listOf(
+    z.object({
+      item: z.coerce.number().int().nonnegative(),
+      question: z.string().trim().min(1),
+      answer: z.string().trim().min(1),
+    }),
+  ),
+});
+
+// Writes question/answer cards testing recall of each numbered piece of
+// material; trivial or uncheckable material may get no card.
+export async function generateFlashcards(materials: FlashcardMaterial[]): Promise<GeneratedFlashcard[]> {
+  if (materials.length === 0) return [];
+
+  const numbered = materials
+    .map((material, index) => `[${index}] ${material.text.trim()}${material.note ? `\nNote: ${material.note.trim()}` : ""}`)
+    .join("\n\n");
+
+  try {
+    const content = await llm.complete(
+      [
+        {
+          role: "system",
+          content: "You write spaced-repetition flashcards. Each numbered item is a passage the user highlighted in something they listened to, or a key point from it, sometimes with their note. Write one card per item that tests the idea worth remembering, not the wording: a specific question answerable without seeing the item, and a short answer (one or two sentences). Skip items with nothing worth remembering. Respond with JSON in this format: { 'cards': [{ 'item': number, 'question': string, 'answer': string }] }",
+        },
+        {
+          role: "user",
+          content: `Write flashcards for these items:\n\n${numbered}`,
+        },
+      ],
+      { json: true },
+    );
+
+    const { cards } = flashcardsResponse.parse(parseJsonResponse(content));
+    return cards
+      .filter((card) => card.item < materials.length)
+      .map((card) => ({ material: card.item, question: card.question, answer: card.answer }));
+  } catch (error) {
+    console.error("Flashcard generation error:", error);
+    throw new Error("Failed to generate flashcards: " + (error as Error).message);
+  }
+}
+
+export interface AnswerPassage {
+  index: number;
+  audioTitle: string;
+  startTime: number; // seconds
+  text: string;
+}
+
+function formatTimestamp(seconds: number) {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${Math.floor(seconds % 60).toString().padStart(2, "0")}`;
+}
+
+// Answers from the numbered passages only, citing them as [n]. Earlier turns
+// are included so follow-up questions make sense.
+export async function answerQuestion(
+  question: string,
+  passages: AnswerPassage[],
+  history: ChatMessage[] = [],
+): Promise<string> {
+  const context = passages.length > 0
+    ? passages
+        .map((passage) => `[${passage.index}] "${passage.audioTitle}" at ${formatTimestamp(passage.startTime)}:\n${passage.text}`)
+        .join("\n\n")
+    : "No transcript passages matched this question.";
+
+  try {
+    const answer = await llm.complete([
+      {
+        role: "system",
+        content: "You answer questions about the user's transcribed audio using only the numbered transcript passages provided. Cite the passages you rely on with their numbers in square brackets, e.g. [2] or [1][3], right after the statement they support. If the passages don't contain the answer, say so plainly instead of guessing.",
+      },
+      ...history,
+      {
+        role: "user",
+        content: `Transcript passages:\n\n${context}\n\nQuestion: ${question}`,
+      },
+    ]);
+    return answer.trim() || "I couldn't come up with an answer.";
+  } catch (error) {
+    console.error("Question answering error:", error);
+    throw new Error("Failed to answer question: " + (error as Error).message);
+  }
+}
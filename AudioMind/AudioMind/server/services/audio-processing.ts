@@ -0,0 +1,66 @@
+import path from "path";
+import { probeAudio, probeChapters, transcodeToAac, type AudioProbe, type EmbeddedChapter } from "./ffmpeg";
+
+export interface ProcessedAudio {
+  filePath: string;
+  fileName: string;
+  mimeType: string;
+  duration: number | null; // whole seconds
+  codec: string;
+  bitRate: number | null;
+  channels: number | null;
+  sampleRate: number | null;
+  transcoded: boolean;
+  // Read from the original, as the file was uploaded
+  chapters: EmbeddedChapter[];
+}
+
+// Container/codec pairs browsers can play directly, with the MIME type to serve them as
+const browserFormats: { formats: string[]; codecs: string[]; mimeType: string }[] = [
+  { formats: ["mp3"], codecs: ["mp3"], mimeType: "audio/mpeg" },
+  { formats: ["mov", "mp4", "m4a"], codecs: ["aac"], mimeType: "audio/mp4" },
+  { formats: ["wav"], codecs: ["pcm_s16le", "pcm_s24le", "pcm_u8", "pcm_f32le"], mimeType: "audio/wav" },
+  { formats: ["flac"], codecs: ["flac"], mimeType: "audio/flac" },
+];
+
+function browserMimeType(probe: AudioProbe): string | undefined {
+  // format_name lists every demuxer alias, e.g. "mov,mp4,m4a,3gp,3g2,mj2"
+  const formats = probe.formatName.split(",");
+  return browserFormats.find(
+    (entry) => entry.codecs.includes(probe.codec) && entry.formats.some((format) => formats.includes(format)),
+  )?.mimeType;
+}
+
+// Probes an uploaded file and, when the browser can't play it (Ogg, WebM,
+// Opus, raw AAC...), transcodes it to AAC/MP4 next to the original. The
+// caller removes the original once it has recorded the new path.
+export async function processAudioFile(filePath: string, fileName: string): Promise<ProcessedAudio> {
+  let probe = await probeAudio(filePath);
+  const chapters = await probeChapters(filePath);
+  let mimeType = browserMimeType(probe);
+  let transcoded = false;
+
+  if (!mimeType) {
+    const outputPath = `${filePath}.m4a`;
+    await transcodeToAac(filePath, outputPath);
+
+    filePath = outputPath;
+    fileName = `${path.basename(fileName, path.extname(fileName))}.m4a`;
+    probe = await probeAudio(filePath);
+    mimeType = "audio/mp4";
+    transcoded = true;
+  }
+
+  return {
+    filePath,
+    fileName,
+    mimeType,
+    duration: probe.duration === null ? null : Math.round(probe.duration),
+    codec: probe.codec,
+    bitRate: probe.bitRate,
+    channels: probe.channels,
+    sampleRate: probe.sampleRate,
+    transcoded,
+    chapters,
+  };
+}
@@ -0,0 +1,80 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { assignSpeakers, createDiarizationProvider, FakeDiarizationProvider, parseRttm } from "./diarization";
+import { MemStorage } from "../storage";
+import { updateSpeakerSchema } from "@shared/schema";
+
+const segment = (start: number, end: number) => ({ start, end, text: `${start}-${end}` });
+
+describe("parseRttm", () => {
+  it("reads speaker turns and skips other lines", () => {
+    const rttm = [
+      "SPEAKER talk 1 0.00 4.50 <NA> <NA> SPEAKER_00 <NA> <NA>",
+      "",
+      "LEXEME talk 1 0.10 0.20 hello <NA> SPEAKER_00 <NA> <NA>",
+      "SPEAKER talk 1 4.50 2.25 <NA> <NA> SPEAKER_01 <NA> <NA>",
+      "SPEAKER talk 1 oops 1.00 <NA> <NA> SPEAKER_01 <NA> <NA>",
+    ].join("\n");
+
+    assert.deepEqual(parseRttm(rttm), [
+      { start: 0, end: 4.5, speaker: "SPEAKER_00" },
+      { start: 4.5, end: 6.75, speaker: "SPEAKER_01" },
+    ]);
+  });
+});
+
+describe("assignSpeakers", () => {
+  it("gives each segment the fake diarizer's speaker for its turn", async () => {
+    const turns = await new FakeDiarizationProvider(2, 5, 20).diarize();
+    const segments = [segment(0, 5), segment(5, 10), segment(10, 15), segment(15, 20)];
+
+    assert.deepEqual(assignSpeakers(segments, turns), ["SPEAKER_0", "SPEAKER_1", "SPEAKER_0", "SPEAKER_1"]);
+  });
+
+  it("picks the speaker who overlaps a segment the most", async () => {
+    const turns = await new FakeDiarizationProvider(3, 5, 15).diarize();
+
+    assert.deepEqual(assignSpeakers([segment(3, 9), segment(4, 12)], turns), ["SPEAKER_1", "SPEAKER_1"]);
+    assert.deepEqual(assignSpeakers([segment(1, 7)], turns), ["SPEAKER_0"]);
+  });
+
+  it("leaves segments outside every turn without a speaker", async () => {
+    const turns = await new FakeDiarizationProvider(2, 5, 10).diarize();
+    assert.deepEqual(assignSpeakers([segment(10, 12), segment(9, 11)], turns), [null, "SPEAKER_1"]);
+  });
+});
+
+describe("createDiarizationProvider", () => {
+  it("is off unless a provider is configured", () => {
+    assert.equal(createDiarizationProvider("none"), null);
+    assert.equal(createDiarizationProvider("fake")?.name, "fake");
+    assert.throws(() => createDiarizationProvider("unknown"), /Unknown DIARIZATION_PROVIDER "unknown"/);
+  });
+});
+
+describe("renaming speakers", () => {
+  it("changes the display name and keeps the label segments refer to", async () => {
+    const storage = new MemStorage();
+    const user = await storage.createUser({ username: "host", password: "hash" });
+    const content = await storage.createAudioContent({
+      userId: user.id,
+      title: "Interview",
+      fileName: "interview.mp3",
+      filePath: "/tmp/interview.mp3",
+    });
+    const speaker = await storage.createSpeaker({ audioContentId: content.id, label: "SPEAKER_0", name: "Speaker 1", position: 0 });
+
+    const parsed = updateSpeakerSchema.parse({ name: "  Ada Lovelace  " });
+    await storage.updateSpeaker(speaker.id, parsed);
+
+    assert.deepEqual(
+      (await storage.getSpeakers(content.id)).map(({ label, name }) => ({ label, name })),
+      [{ label: "SPEAKER_0", name: "Ada Lovelace" }],
+    );
+  });
+
+  it("rejects blank and overlong names", () => {
+    assert.equal(updateSpeakerSchema.safeParse({ name: "   " }).error?.errors[0]?.message, "Name is required");
+    assert.equal(updateSpeakerSchema.safeParse({ name: "x".repeat(101) }).success, false);
+  });
+});
@@ -0,0 +1,111 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import type { TranscribedSegment } from "./transcription";
+import type { ExecError } from "./ffmpeg";
+
+const execFileAsync = promisify(execFile);
+
+// A stretch of audio attributed to one speaker
+export interface SpeakerTurn {
+  start: number; // seconds
+  end: number; // seconds
+  speaker: string; // provider's label, e.g. "SPEAKER_00"
+}
+
+export interface DiarizationProvider {
+  readonly name: string;
+  diarize(audioFilePath: string): Promise<SpeakerTurn[]>;
+}
+
+// Parses RTTM, the format pyannote and most diarization tools write:
+// SPEAKER <file> <channel> <start> <duration> <NA> <NA> <speaker> <NA> <NA>
+export function parseRttm(rttm: string): SpeakerTurn[] {
+  return rttm
+    .split("\n")
+    .map((line) => line.trim().split(/\s+/))
+    .filter((fields) => fields[0] === "SPEAKER" && fields.length >= 8)
+    .map((fields) => {
+      const start = parseFloat(fields[3]);
+      return { start, end: start + parseFloat(fields[4]), speaker: fields[7] };
+    })
+    .filter((turn) => Number.isFinite(turn.start) && Number.isFinite(turn.end));
+}
+
+// Runs an external command (e.g. a pyannote wrapper script) with the audio
+// file as its last argument and reads RTTM from its stdout.
+export class CommandDiarizationProvider implements DiarizationProvider {
+  readonly name = "command";
+
+  constructor(private command: string, private args: string[] = []) {}
+
+  async diarize(audioFilePath: string): Promise<SpeakerTurn[]> {
+    try {
+      const { stdout } = await execFileAsync(this.command, [...this.args, audioFilePath], {
+        maxBuffer: 64 * 1024 * 1024,
+      });
+      return parseRttm(stdout);
+    } catch (error) {
+      throw new Error(`Diarization failed: ${(error as ExecError).stderr?.trim() || (error as Error).message}`);
+    }
+  }
+}
+
+// Alternates between a fixed number of speakers every few seconds, for tests
+// and offline development.
+export class FakeDiarizationProvider implements DiarizationProvider {
+  readonly name = "fake";
+
+  constructor(private speakerCount = 2, private turnLength = 5, private totalLength = 3600) {}
+
+  async diarize(): Promise<SpeakerTurn[]> {
+    const turns: SpeakerTurn[] = [];
+    for (let start = 0, index = 0; start < this.totalLength; start += this.turnLength, index++) {
+      turns.push({ start, end: start + this.turnLength, speaker: `SPEAKER_${index % this.speakerCount}` });
+    }
+    return turns;
+  }
+}
+
+// DIARIZATION_PROVIDER=none|command|fake, defaulting to none (no speaker labels)
+export function createDiarizationProvider(
+  name = process.env.DIARIZATION_PROVIDER || "none",
+): DiarizationProvider | null {
+  switch (name) {
+    case "none":
+      return null;
+    case "command": {
+      const command = process.env.DIARIZATION_COMMAND;
+      if (!command) {
+        throw new Error("DIARIZATION_PROVIDER=command requires DIARIZATION_COMMAND to be set");
+      }
+      const [binary, ...args] = command.split(" ").filter(Boolean);
+      return new CommandDiarizationProvider(binary, args);
+    }
+    case "fake":
+      return new FakeDiarizationProvider();
+    default:
+      throw new Error(`Unknown DIARIZATION_PROVIDER "${name}"`);
+  }
+}
+
+export const diarizationProvider = createDiarizationProvider();
+
+// Gives each segment the speaker whose turns overlap it the most. Returns
+// the speaker label per segment (null where no turn overlaps).
+export function assignSpeakers(segments: TranscribedSegment[], turns: SpeakerTurn[]): (string | null)[] {
+  return segments.map((segment) => {
+    const overlapBySpeaker: Record<string, number> = {};
+    for (const turn of turns) {
+      const overlap = Math.min(segment.end, turn.end) - Math.max(segment.start, turn.start);
+      if (overlap > 0) {
+        overlapBySpeaker[turn.speaker] = (overlapBySpeaker[turn.speaker] || 0) + overlap;
+      }
+    }
+
+    let best: string | null = null;
+    for (const speaker of Object.keys(overlapBySpeaker)) {
+      if (best === null || overlapBySpeaker[speaker] > overlapBySpeaker[best]) best = speaker;
+    }
+    return best;
+  });
+}
@@ -0,0 +1,156 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+
+// Read when the module loads, so it is set before the import in before()
+process.env.URL_IMPORT_ALLOW_PRIVATE_HOSTS = "true";
+let download: typeof import("./download");
+const downloadAudio: typeof download.downloadAudio = (...args) => download.downloadAudio(...args);
+
+const audio = Buffer.alloc(64 * 1024, 7);
+
+// Fixture routes; the server only ever listens on localhost
+function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  switch (req.url) {
+    case "/episode.mp3":
+      res.writeHead(200, { "Content-Type": "audio/mpeg", "Content-Length": audio.length });
+      res.end(audio);
+      return;
+    case "/binary/episode.m4a":
+      res.writeHead(200, { "Content-Type": "application/octet-stream" });
+      res.end(audio);
+      return;
+    case "/redirect-1":
+      res.writeHead(302, { Location: "/redirect-2" });
+      res.end();
+      return;
+    case "/redirect-2":
+      res.writeHead(301, { Location: "/episode.mp3" });
+      res.end();
+      return;
+    case "/labelled-large.mp3":
+      res.writeHead(200, { "Content-Type": "audio/mpeg", "Content-Length": 10 * 1024 * 1024 });
+      res.end();
+      return;
+    case "/chunked-large.mp3":
+      // No Content-Length, so the cap has to be enforced while streaming
+      res.writeHead(200, { "Content-Type": "audio/mpeg" });
+      for (let i = 0; i < 20; i++) res.write(audio);
+      res.end();
+      return;
+    case "/page.html":
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end("<html></html>");
+      return;
+    case "/unavailable.mp3":
+      res.writeHead(503);
+      res.end();
+      return;
+    default:
+      res.writeHead(404);
+      res.end();
+  }
+}
+
+describe("downloadAudio", () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let workDir: string;
+  let destPath: string;
+
+  before(async () => {
+    download = await import("./download");
+    server = http.createServer(handle);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pensieve-download-test-"));
+    destPath = path.join(workDir, "download");
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  });
+
+  it("reads URL_IMPORT_ALLOW_PRIVATE_HOSTS into the default options", () => {
+    assert.equal(download.defaultDownloadOptions.allowPrivateHosts, true);
+  });
+
+  it("downloads the file and reports progress", async () => {
+    const progress: number[] = [];
+    const result = await downloadAudio(`${baseUrl}/episode.mp3`, destPath, {
+      onProgress: ({ bytesReceived, totalBytes }) => {
+        assert.equal(totalBytes, audio.length);
+        progress.push(bytesReceived);
+      },
+    });
+
+    assert.deepEqual(result, {
+      finalUrl: `${baseUrl}/episode.mp3`,
+      fileName: "episode.mp3",
+      fileSize: audio.length,
+      mimeType: "audio/mpeg",
+    });
+    assert.deepEqual(await fs.promises.readFile(destPath), audio);
+    assert.equal(progress[progress.length - 1], audio.length);
+  });
+
+  it("follows redirects and names the file after the final URL", async () => {
+    const result = await downloadAudio(`${baseUrl}/redirect-1`, destPath);
+    assert.equal(result.finalUrl, `${baseUrl}/episode.mp3`);
+    assert.equal(result.fileName, "episode.mp3");
+    assert.equal(result.fileSize, audio.length);
+  });
+
+  it("stops after too many redirects", async () => {
+    await assert.rejects(downloadAudio(`${baseUrl}/redirect-1`, destPath, { maxRedirects: 1 }), /Too many redirects/);
+  });
+
+  it("refuses files whose Content-Length is over the limit", async () => {
+    await assert.rejects(
+      downloadAudio(`${baseUrl}/labelled-large.mp3`, destPath, { maxBytes: 1024 * 1024 }),
+      /larger than the 1MB limit/,
+    );
+  });
+
+  it("stops unlabelled downloads once they pass the limit and removes the partial file", async () => {
+    await assert.rejects(
+      downloadAudio(`${baseUrl}/chunked-large.mp3`, destPath, { maxBytes: 1024 * 1024 }),
+      /larger than the 1MB limit/,
+    );
+    assert.equal(fs.existsSync(destPath), false);
+  });
+
+  it("refuses responses that aren't audio", async () => {
+    await assert.rejects(downloadAudio(`${baseUrl}/page.html`, destPath), /not point to an audio file \(content type text\/html\)/);
+  });
+
+  it("accepts generic binary responses with an audio file extension", async () => {
+    const result = await downloadAudio(`${baseUrl}/binary/episode.m4a`, destPath);
+    assert.equal(result.mimeType, "application/octet-stream");
+    assert.equal(result.fileName, "episode.m4a");
+  });
+
+  it("keeps the HTTP status of failed responses", async () => {
+    await assert.rejects(downloadAudio(`${baseUrl}/unavailable.mp3`, destPath), { status: 503 });
+  });
+
+  it("refuses private hosts unless they are allowed", async () => {
+    await assert.rejects(
+      downloadAudio(`${baseUrl}/episode.mp3`, destPath, { allowPrivateHosts: false }),
+      /private network address/,
+    );
+    await assert.rejects(
+      downloadAudio(`http://localhost:${new URL(baseUrl).port}/episode.mp3`, destPath, { allowPrivateHosts: false }),
+      /private network address/,
+    );
+  });
+
+  it("only fetches http and https URLs", async () => {
+    await assert.rejects(downloadAudio("ftp://example.com/episode.mp3", destPath), /Only http and https/);
+  });
+});
@@ -0,0 +1,163 @@
+import fs from "fs";
+import dns from "dns";
+import net from "net";
+import { pipeline } from "stream/promises";
+import { Readable, Transform } from "stream";
+import type { ReadableStream as NodeReadableStream } from "stream/web";
+
+export interface DownloadOptions {
+  maxBytes: number;
+  timeoutMs: number;
+  maxRedirects: number;
+  // Lets tests fetch from a fixture server on localhost
+  allowPrivateHosts: boolean;
+  onProgress?: (progress: { bytesReceived: number; totalBytes?: number }) => void;
+}
+
+export interface DownloadResult {
+  finalUrl: string;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+}
+
+export const defaultDownloadOptions: DownloadOptions = {
+  maxBytes: 500 * 1024 * 1024, // same limit as uploads
+  timeoutMs: 10 * 60 * 1000,
+  maxRedirects: 5,
+  allowPrivateHosts: process.env.URL_IMPORT_ALLOW_PRIVATE_HOSTS === "true",
+};
+
+const audioExtensions = [".mp3", ".wav", ".m4a", ".flac", ".ogg", ".oga", ".opus", ".aac", ".webm", ".mp4"];
+
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b] = address.split(".").map(Number);
+    return (
+      a === 0 || a === 10 || a === 127 ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 100 && b >= 64 && b <= 127)
+    );
+  }
+  const lower = address.toLowerCase();
+  if (lower.startsWith("::ffff:")) {
+    return isPrivateAddress(lower.slice(7));
+  }
+  return lower === "::" || lower === "::1" || lower.startsWith("fc") || lower.startsWith("fd") || lower.startsWith("fe80");
+}
+
+async function assertPublicHost(url: URL) {
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = net.isIP(hostname)
+    ? [hostname]
+    : (await dns.promises.lookup(hostname, { all: true })).map((entry) => entry.address);
+
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error("URL points to a private network address");
+  }
+}
+
+export function fileNameFromUrl(url: string): string {
+  try {
+    const name = decodeURIComponent(new URL(url).pathname.split("/").pop() || "");
+    return name || "download";
+  } catch {
+    return "download";
+  }
+}
+
+function isAudioResponse(mimeType: string, fileName: string) {
+  if (mimeType.startsWith("audio/")) return true;
+  // Many hosts serve media as a generic binary or as video/mp4
+  const lowerName = fileName.toLowerCase();
+  return (
+    ["application/octet-stream", "binary/octet-stream", "video/mp4", "video/webm", "application/ogg"].includes(mimeType) &&
+    audioExtensions.some((extension) => lowerName.endsWith(extension))
+  );
+}
+
+// Fetches a URL, following redirects manually so every hop is checked against
+// the allowed protocols and hosts. Non-2xx responses are thrown.
+export async function fetchWithChecks(
+  sourceUrl: string,
+  options: Pick<DownloadOptions, "timeoutMs" | "maxRedirects" | "allowPrivateHosts">,
+): Promise<{ response: Response & { body: ReadableStream<Uint8Array> }; finalUrl: string }> {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+
+  let currentUrl = sourceUrl;
+  for (let redirects = 0; ; redirects++) {
+    const url = new URL(currentUrl);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      throw new Error("Only http and https URLs can be imported");
+    }
+    if (!options.allowPrivateHosts) {
+      await assertPublicHost(url);
+    }
+
+    const response = await fetch(url, { redirect: "manual", signal });
+    if (response.status >= 300 && response.status < 400 && response.headers.get("location")) {
+      if (redirects >= options.maxRedirects) {
+        throw new Error("Too many redirects");
+      }
+      await response.body?.cancel();
+      currentUrl = new URL(response.headers.get("location")!, url).toString();
+      continue;
+    }
+
+    if (!response.ok || !response.body) {
+      // 5xx keeps its status so the job queue treats it as retryable
+      throw Object.assign(new Error(`Download failed with HTTP ${response.status}`), { status: response.status });
+    }
+    return { response: response as Response & { body: ReadableStream<Uint8Array> }, finalUrl: currentUrl };
+  }
+}
+
+// Downloads a remote audio file to destPath, enforcing the size limit while streaming
+export async function downloadAudio(
+  sourceUrl: string,
+  destPath: string,
+  overrides: Partial<DownloadOptions> = {},
+): Promise<DownloadResult> {
+  const options = { ...defaultDownloadOptions, ...overrides };
+  const tooLargeMessage = `Remote file is larger than the ${Math.round(options.maxBytes / (1024 * 1024))}MB limit`;
+  const { response, finalUrl: currentUrl } = await fetchWithChecks(sourceUrl, options);
+
+  const fileName = fileNameFromUrl(currentUrl);
+  const mimeType = (response.headers.get("content-type") || "application/octet-stream").split(";")[0].trim().toLowerCase();
+  if (!isAudioResponse(mimeType, fileName)) {
+    await response.body.cancel();
+    throw new Error(`URL does not point to an audio file (content type ${mimeType})`);
+  }
+
+  const contentLength = response.headers.get("content-length");
+  const totalBytes = contentLength ? parseInt(contentLength, 10) : undefined;
+  if (totalBytes && totalBytes > options.maxBytes) {
+    await response.body.cancel();
+    throw new Error(tooLargeMessage);
+  }
+
+  let bytesReceived = 0;
+  const counter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      bytesReceived += chunk.length;
+      if (bytesReceived > options.maxBytes) {
+        callback(new Error(tooLargeMessage));
+        return;
+      }
+      options.onProgress?.({ bytesReceived, totalBytes });
+      callback(null, chunk);
+    },
+  });
+
+  try {
+    // fetch's body is typed from lib.dom; at runtime it is Node's own web stream
+    await pipeline(Readable.fromWeb(response.body as NodeReadableStream<Uint8Array>), counter, fs.createWriteStream(destPath));
+  } catch (error) {
+    await fs.promises.rm(destPath, { force: true });
+    throw error;
+  }
+
+  return { finalUrl: currentUrl, fileName, fileSize: bytesReceived, mimeType };
+}
@@ -0,0 +1,111 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { chunkTranscript, FakeEmbeddingProvider } from "./embeddings";
+import { MemStorage } from "../storage";
+import type { TranscriptSegment } from "@shared/schema";
+
+// Ten-second segments of the given number of words, each word naming its segment
+function segmentsOfWords(...wordCounts: number[]): TranscriptSegment[] {
+  return wordCounts.map((words, index) => ({
+    id: `segment-${index}`,
+    audioContentId: "item",
+    startTime: index * 10,
+    endTime: (index + 1) * 10,
+    text: Array(words).fill(`s${index}`).join(" "),
+    confidence: null,
+    sequenceNumber: index,
+    speaker: null,
+  }));
+}
+
+const passageSegments = (text: string) => Array.from(new Set(text.split(" ")));
+
+describe("chunkTranscript", () => {
+  it("repeats each passage's last segment at the start of the next", () => {
+    const passages = chunkTranscript(segmentsOfWords(60, 60, 60, 60));
+
+    assert.deepEqual(passages.map((passage) => passageSegments(passage.text)), [
+      ["s0", "s1"],
+      ["s1", "s2"],
+      ["s2", "s3"],
+    ]);
+    assert.deepEqual(passages.map(({ startTime, endTime }) => [startTime, endTime]), [
+      [0, 20],
+      [10, 30],
+      [20, 40],
+    ]);
+  });
+
+  it("keeps passages within 150 words", () => {
+    const passages = chunkTranscript(segmentsOfWords(50, 50, 50, 50, 50));
+
+    assert.deepEqual(passages.map((passage) => passageSegments(passage.text)), [
+      ["s0", "s1", "s2"],
+      ["s2", "s3", "s4"],
+    ]);
+    for (const passage of passages) {
+      assert.ok(passage.text.split(" ").length <= 150);
+    }
+  });
+
+  it("gives an overlong segment a passage of its own and moves on", () => {
+    const passages = chunkTranscript(segmentsOfWords(40, 200, 40));
+
+    assert.deepEqual(passages.map((passage) => passageSegments(passage.text)), [["s0"], ["s1"], ["s2"]]);
+  });
+
+  it("returns a single passage for a short transcript and none for an empty one", () => {
+    assert.equal(chunkTranscript(segmentsOfWords(5, 5)).length, 1);
+    assert.deepEqual(chunkTranscript([]), []);
+  });
+});
+
+describe("FakeEmbeddingProvider", () => {
+  const provider = new FakeEmbeddingProvider();
+
+  it("returns the same unit vector for the same text", async () => {
+    const [first, second] = await provider.embed(["Black holes evaporate", "black HOLES evaporate"]);
+
+    assert.equal(provider.model, "hash-256");
+    assert.equal(first.length, 256);
+    assert.deepEqual(first, second);
+    assert.ok(Math.abs(Math.hypot(...first) - 1) < 1e-9);
+  });
+
+  it("ranks passages by shared words when searched through MemStorage", async () => {
+    const storage = new MemStorage();
+    const user = await storage.createUser({ username: "listener", password: "hash" });
+    const content = await storage.createAudioContent({
+      userId: user.id,
+      title: "Astronomy",
+      fileName: "astronomy.mp3",
+      filePath: "/tmp/astronomy.mp3",
+    });
+
+    const passages = [
+      { startTime: 0, endTime: 60, text: "Black holes slowly evaporate through Hawking radiation" },
+      { startTime: 60, endTime: 120, text: "Spiral galaxies rotate around the black holes at their centres" },
+      { startTime: 120, endTime: 180, text: "Comets grow tails as they approach the sun" },
+    ];
+    const embeddings = await provider.embed(passages.map((passage) => passage.text));
+    await storage.replaceTranscriptChunks(
+      content.id,
+      passages.map((passage, index) => ({
+        audioContentId: content.id,
+        ...passage,
+        model: provider.model,
+        embedding: embeddings[index],
+      })),
+    );
+
+    const [query] = await provider.embed(["How do black holes evaporate?"]);
+    const hits = await storage.searchTranscriptChunks(user.id, query, provider.model, 3);
+
+    assert.deepEqual(hits.map((hit) => hit.startTime), [0, 60, 120]);
+    assert.ok(hits[0].score > hits[1].score && hits[1].score > hits[2].score);
+    assert.equal(hits[0].audioTitle, "Astronomy");
+
+    // Vectors from another model are never compared
+    assert.deepEqual(await storage.searchTranscriptChunks(user.id, query, "hash-64", 3), []);
+  });
+});
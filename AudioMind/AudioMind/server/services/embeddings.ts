@@ -0,0 +1,136 @@
+import OpenAI from "openai";
+import type { TranscriptSegment } from "@shared/schema";
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Stored with every vector; only vectors from the same model are compared
+  readonly model: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Texts sent per embeddings request
+const EMBEDDING_BATCH_SIZE = 64;
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string = "openai";
+  private client: OpenAI;
+
+  constructor(readonly model: string, clientOptions: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: clientOptions.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: clientOptions.baseURL,
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const vectors: number[][] = [];
+    for (let start = 0; start < texts.length; start += EMBEDDING_BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model: this.model,
+        input: texts.slice(start, start + EMBEDDING_BATCH_SIZE),
+      });
+      const batch = response.data.slice().sort((a, b) => a.index - b.index);
+      vectors.push(...batch.map((item) => item.embedding));
+    }
+    return vectors;
+  }
+}
+
+// Ollama, llama.cpp server and friends expose the OpenAI embeddings API under /v1
+export class OpenAICompatibleEmbeddingProvider extends OpenAIEmbeddingProvider {
+  readonly name = "openai-compatible";
+
+  constructor(model: string, baseURL: string, apiKey = "not-needed") {
+    super(model, { apiKey, baseURL });
+  }
+}
+
+// Hashes words into a fixed number of buckets, so texts sharing words get
+// similar vectors. Deterministic and offline, for tests and development.
+export class FakeEmbeddingProvider implements EmbeddingProvider {
+  readonly name = "fake";
+  readonly model: string;
+
+  constructor(private dimensions = 256) {
+    this.model = `hash-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const vector: number[] = new Array(this.dimensions).fill(0);
+    for (const word of text.toLowerCase().match(/[a-z0-9']+/g) ?? []) {
+      // FNV-1a
+      let hash = 0x811c9dc5;
+      for (let i = 0; i < word.length; i++) {
+        hash = Math.imul(hash ^ word.charCodeAt(i), 0x01000193) >>> 0;
+      }
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map((value) => value / norm);
+  }
+}
+
+// EMBEDDING_PROVIDER=openai|openai-compatible|fake, with EMBEDDING_MODEL and
+// EMBEDDING_BASE_URL/EMBEDDING_API_KEY for openai-compatible servers
+export function createEmbeddingProvider(name = process.env.EMBEDDING_PROVIDER || "openai"): EmbeddingProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAIEmbeddingProvider(process.env.EMBEDDING_MODEL || "text-embedding-3-small");
+    case "openai-compatible": {
+      const baseURL = process.env.EMBEDDING_BASE_URL;
+      const model = process.env.EMBEDDING_MODEL;
+      if (!baseURL || !model) {
+        throw new Error("EMBEDDING_PROVIDER=openai-compatible requires EMBEDDING_BASE_URL and EMBEDDING_MODEL to be set");
+      }
+      return new OpenAICompatibleEmbeddingProvider(model, baseURL, process.env.EMBEDDING_API_KEY);
+    }
+    case "fake":
+      return new FakeEmbeddingProvider();
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}"`);
+  }
+}
+
+export const embeddingProvider = createEmbeddingProvider();
+
+export interface TranscriptPassage {
+  startTime: number;
+  endTime: number;
+  text: string;
+}
+
+// Roughly a minute of speech: long enough to carry a topic, short enough to cite
+const PASSAGE_MAX_WORDS = 150;
+
+// Groups consecutive segments into passages of up to PASSAGE_MAX_WORDS words.
+// Each passage repeats the previous passage's last segment so a topic that
+// straddles a boundary is still found whole in one of them.
+export function chunkTranscript(segments: TranscriptSegment[]): TranscriptPassage[] {
+  const passages: TranscriptPassage[] = [];
+  const wordCount = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+  let start = 0;
+  while (start < segments.length) {
+    let end = start;
+    let words = wordCount(segments[start].text);
+    while (end + 1 < segments.length && words + wordCount(segments[end + 1].text) <= PASSAGE_MAX_WORDS) {
+      end++;
+      words += wordCount(segments[end].text);
+    }
+
+    const group = segments.slice(start, end + 1);
+    passages.push({
+      startTime: group[0].startTime,
+      endTime: group[group.length - 1].endTime,
+      text: group.map((segment) => segment.text.trim()).join(" "),
+    });
+
+    if (end + 1 >= segments.length) break;
+    start = end > start ? end : end + 1;
+  }
+  return passages;
+}
@@ -0,0 +1,115 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import type { AddressInfo } from "net";
+
+// Read when the download module loads, so it is set before the import in before()
+process.env.URL_IMPORT_ALLOW_PRIVATE_HOSTS = "true";
+let feeds: typeof import("./feeds");
+
+const rss = `<?xml version="1.0"?>
+<rss version="2.0"><channel>
+  <title>Fixture Show</title>
+  <item>
+    <guid>episode-1</guid>
+    <title>First episode</title>
+    <pubDate>Mon, 06 Jan 2025 08:00:00 GMT</pubDate>
+    <enclosure url="https://example.com/1.mp3" type="audio/mpeg" />
+  </item>
+</channel></rss>`;
+
+// Over the 20MB feed limit, sent without a Content-Length
+const megabyte = Buffer.alloc(1024 * 1024, " ");
+const oversizedChunks = 21;
+
+describe("fetchFeed", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  before(async () => {
+    feeds = await import("./feeds");
+    server = http.createServer((req, res) => {
+      if (req.url === "/feed.xml") {
+        res.writeHead(200, { "Content-Type": "application/rss+xml" });
+        res.end(rss);
+      } else if (req.url === "/labelled-large.xml") {
+        res.writeHead(200, { "Content-Type": "application/rss+xml", "Content-Length": 21 * 1024 * 1024 });
+        res.end();
+      } else if (req.url === "/chunked-large.xml") {
+        res.writeHead(200, { "Content-Type": "application/rss+xml" });
+        for (let i = 0; i < oversizedChunks; i++) res.write(megabyte);
+        res.end();
+      } else {
+        res.writeHead(404);
+        res.end();
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it("fetches and parses a feed", async () => {
+    const feed = await feeds.fetchFeed(`${baseUrl}/feed.xml`);
+    assert.equal(feed.title, "Fixture Show");
+    assert.equal(feed.episodes.length, 1);
+    assert.equal(feed.episodes[0].guid, "episode-1");
+    assert.equal(feed.episodes[0].enclosureUrl, "https://example.com/1.mp3");
+  });
+
+  it("refuses feeds whose Content-Length is over the limit", async () => {
+    await assert.rejects(feeds.fetchFeed(`${baseUrl}/labelled-large.xml`), /Feed is too large/);
+  });
+
+  it("stops reading unlabelled feeds once they pass the limit", async () => {
+    await assert.rejects(feeds.fetchFeed(`${baseUrl}/chunked-large.xml`), /Feed is too large/);
+  });
+});
+
+describe("parseFeed", () => {
+  before(async () => {
+    feeds ??= await import("./feeds");
+  });
+
+  it("reads episode attributes and text from RSS items", () => {
+    const feed = feeds.parseFeed(`<rss><channel>
+      <title>Show</title>
+      <itunes:image href="https://example.com/show.jpg" />
+      <item>
+        <guid isPermaLink="false">42</guid>
+        <title>Answer</title>
+        <description>&lt;p&gt;Notes&lt;/p&gt;</description>
+        <enclosure url="https://example.com/42.mp3" type="audio/mpeg" />
+      </item>
+      <item><title>No audio</title></item>
+    </channel></rss>`);
+    assert.equal(feed.artworkUrl, "https://example.com/show.jpg");
+    assert.deepEqual(
+      feed.episodes.map(({ guid, title, enclosureUrl, enclosureType, showNotes }) => ({ guid, title, enclosureUrl, enclosureType, showNotes })),
+      [{ guid: "42", title: "Answer", enclosureUrl: "https://example.com/42.mp3", enclosureType: "audio/mpeg", showNotes: "Notes" }],
+    );
+  });
+
+  it("takes Atom enclosures from the enclosure link", () => {
+    const feed = feeds.parseFeed(`<feed>
+      <title>Atom Show</title>
+      <entry>
+        <id>urn:episode:1</id>
+        <title>First</title>
+        <updated>2025-01-06T08:00:00Z</updated>
+        <link rel="alternate" href="https://example.com/1" />
+        <link rel="enclosure" href="https://example.com/1.mp3" type="audio/mpeg" />
+      </entry>
+    </feed>`);
+    assert.equal(feed.title, "Atom Show");
+    assert.equal(feed.episodes[0].enclosureUrl, "https://example.com/1.mp3");
+    assert.equal(feed.episodes[0].publishedAt?.toISOString(), "2025-01-06T08:00:00.000Z");
+  });
+
+  it("rejects documents that are neither RSS nor Atom", () => {
+    assert.throws(() => feeds.parseFeed("<html><body /></html>"), /Not an RSS or Atom feed/);
+  });
+});
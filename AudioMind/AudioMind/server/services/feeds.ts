@@ -0,0 +1,172 @@
+import { XMLParser } from "fast-xml-parser";
+import { defaultDownloadOptions, fetchWithChecks } from "./download";
+
+export interface FeedEpisode {
+  guid: string;
+  title: string;
+  enclosureUrl: string;
+  enclosureType?: string;
+  publishedAt?: Date;
+  artworkUrl?: string;
+  showNotes?: string;
+}
+
+export interface ParsedFeed {
+  title: string;
+  description?: string;
+  artworkUrl?: string;
+  episodes: FeedEpisode[];
+}
+
+const MAX_FEED_BYTES = 20 * 1024 * 1024;
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: "@_",
+  // Feeds with a single episode still give us arrays
+  isArray: (name) => ["item", "entry", "link", "enclosure"].includes(name),
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+const child = (node: unknown, name: string): unknown => (isObject(node) ? node[name] : undefined);
+
+// The elements listed in isArray, or none when the node has no such children
+function children(node: unknown, name: string): unknown[] {
+  const value = child(node, name);
+  return Array.isArray(value) ? value : [];
+}
+
+function attribute(node: unknown, name: string): string | undefined {
+  const value = child(node, `@_${name}`);
+  return typeof value === "string" ? value : undefined;
+}
+
+// Elements with attributes parse to { "#text": ..., "@_attr": ... }
+function text(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (isObject(value)) return text(value["#text"]);
+  const result = String(value).trim();
+  return result || undefined;
+}
+
+function parseDate(value: unknown): Date | undefined {
+  const raw = text(value);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Show notes arrive as HTML; keep paragraph breaks and drop the markup
+function htmlToText(html: string | undefined): string | undefined {
+  if (!html) return undefined;
+  const result = html
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|h\d)>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n+/g, "\n\n")
+    .trim();
+  return result || undefined;
+}
+
+function parseRss(channel: unknown): ParsedFeed {
+  const channelArtwork = attribute(child(channel, "itunes:image"), "href") || text(child(child(channel, "image"), "url"));
+
+  const episodes: FeedEpisode[] = [];
+  for (const item of children(channel, "item")) {
+    const enclosure = children(item, "enclosure")[0];
+    const enclosureUrl = attribute(enclosure, "url");
+    if (!enclosureUrl) continue;
+
+    episodes.push({
+      guid: text(child(item, "guid")) || enclosureUrl,
+      title: text(child(item, "title")) || "Untitled episode",
+      enclosureUrl,
+      enclosureType: attribute(enclosure, "type"),
+      publishedAt: parseDate(child(item, "pubDate")),
+      artworkUrl: attribute(child(item, "itunes:image"), "href"),
+      showNotes: htmlToText(
+        text(child(item, "content:encoded")) || text(child(item, "description")) || text(child(item, "itunes:summary")),
+      ),
+    });
+  }
+
+  return {
+    title: text(child(channel, "title")) || "Untitled podcast",
+    description: htmlToText(text(child(channel, "description")) || text(child(channel, "itunes:summary"))),
+    artworkUrl: channelArtwork,
+    episodes,
+  };
+}
+
+function parseAtom(feed: unknown): ParsedFeed {
+  const episodes: FeedEpisode[] = [];
+  for (const entry of children(feed, "entry")) {
+    const enclosure = children(entry, "link").find((link) => attribute(link, "rel") === "enclosure");
+    const enclosureUrl = attribute(enclosure, "href");
+    if (!enclosureUrl) continue;
+
+    episodes.push({
+      guid: text(child(entry, "id")) || enclosureUrl,
+      title: text(child(entry, "title")) || "Untitled episode",
+      enclosureUrl,
+      enclosureType: attribute(enclosure, "type"),
+      publishedAt: parseDate(child(entry, "published")) || parseDate(child(entry, "updated")),
+      showNotes: htmlToText(text(child(entry, "content")) || text(child(entry, "summary"))),
+    });
+  }
+
+  return {
+    title: text(child(feed, "title")) || "Untitled podcast",
+    description: htmlToText(text(child(feed, "subtitle"))),
+    artworkUrl: text(child(feed, "logo")) || text(child(feed, "icon")),
+    episodes,
+  };
+}
+
+export function parseFeed(xml: string): ParsedFeed {
+  const document: unknown = parser.parse(xml);
+  const channel = child(child(document, "rss"), "channel");
+  if (channel) {
+    return parseRss(channel);
+  }
+  const feed = child(document, "feed");
+  if (feed) {
+    return parseAtom(feed);
+  }
+  throw new Error("Not an RSS or Atom feed");
+}
+
+export async function fetchFeed(feedUrl: string): Promise<ParsedFeed> {
+  const { response } = await fetchWithChecks(feedUrl, { ...defaultDownloadOptions, timeoutMs: 30 * 1000 });
+
+  const contentLength = parseInt(response.headers.get("content-length") || "0", 10);
+  if (contentLength > MAX_FEED_BYTES) {
+    await response.body.cancel();
+    throw new Error("Feed is too large");
+  }
+
+  // Content-Length is optional, so the limit is also enforced while reading
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.length;
+    if (received > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new Error("Feed is too large");
+    }
+    chunks.push(value);
+  }
+
+  return parseFeed(new TextDecoder().decode(Buffer.concat(chunks)));
+}
@@ -0,0 +1,289 @@
+import { execFile, spawn } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+// Rejections from promisified execFile carry the command's output
+export type ExecError = Error & { stderr?: string };
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+export async function runFfmpeg(args: string[]): Promise<void> {
+  try {
+    await execFileAsync(FFMPEG_PATH, ["-hide_banner", "-loglevel", "error", "-y", ...args], {
+      maxBuffer: 16 * 1024 * 1024,
+    });
+  } catch (error) {
+    throw new Error(`ffmpeg failed: ${(error as ExecError).stderr?.trim() || (error as Error).message}`);
+  }
+}
+
+export async function runFfprobe(args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(FFPROBE_PATH, ["-v", "error", ...args], {
+      maxBuffer: 16 * 1024 * 1024,
+    });
+    return stdout;
+  } catch (error) {
+    throw new Error(`ffprobe failed: ${(error as ExecError).stderr?.trim() || (error as Error).message}`);
+  }
+}
+
+// Duration of a media file in seconds
+export async function probeDuration(filePath: string): Promise<number> {
+  const output = await runFfprobe([
+    "-show_entries", "format=duration",
+    "-of", "default=noprint_wrappers=1:nokey=1",
+    filePath,
+  ]);
+  const duration = parseFloat(output.trim());
+  if (Number.isNaN(duration)) {
+    throw new Error(`Could not determine duration of ${filePath}`);
+  }
+  return duration;
+}
+
+export interface AudioProbe {
+  // ffprobe's demuxer name, e.g. "mp3" or "mov,mp4,m4a,3gp,3g2,mj2"
+  formatName: string;
+  duration: number | null; // seconds
+  codec: string;
+  bitRate: number | null; // bits per second
+  channels: number | null;
+  sampleRate: number | null; // Hz
+}
+
+function parseNumber(value: unknown): number | null {
+  const number = parseFloat(String(value));
+  return Number.isFinite(number) ? number : null;
+}
+
+// Container and first audio stream details
+export async function probeAudio(filePath: string): Promise<AudioProbe> {
+  const output = await runFfprobe([
+    "-select_streams", "a:0",
+    "-show_entries", "format=format_name,duration,bit_rate:stream=codec_name,bit_rate,channels,sample_rate",
+    "-of", "json",
+    filePath,
+  ]);
+  const { format = {}, streams = [] } = JSON.parse(output);
+  const stream = streams[0];
+  if (!stream) {
+    throw new Error("File does not contain an audio stream");
+  }
+
+  return {
+    formatName: format.format_name || "",
+    duration: parseNumber(format.duration),
+    codec: stream.codec_name,
+    // Stream bit rate is missing for some containers (e.g. Ogg); fall back to the overall rate
+    bitRate: parseNumber(stream.bit_rate) ?? parseNumber(format.bit_rate),
+    channels: parseNumber(stream.channels),
+    sampleRate: parseNumber(stream.sample_rate),
+  };
+}
+
+export interface EmbeddedChapter {
+  title: string;
+  start: number; // seconds
+  end: number;
+}
+
+// The parts of an entry in ffprobe's -show_chapters JSON that we read; times
+// are decimal strings in seconds
+interface FfprobeChapter {
+  start_time: string;
+  end_time: string;
+  tags?: { title?: string };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+function isFfprobeChapter(value: unknown): value is FfprobeChapter {
+  if (!isObject(value) || typeof value.start_time !== "string" || typeof value.end_time !== "string") return false;
+  const { tags } = value;
+  return tags === undefined || (isObject(tags) && (tags.title === undefined || typeof tags.title === "string"));
+}
+
+// Chapter markers stored in the file itself: ID3 CHAP frames in MP3s, chapter
+// tracks in MP4/M4A, Matroska and Ogg chapters
+export async function probeChapters(filePath: string): Promise<EmbeddedChapter[]> {
+  const output = await runFfprobe(["-show_chapters", "-of", "json", filePath]);
+  const parsed: unknown = JSON.parse(output);
+  const chapters = isObject(parsed) && Array.isArray(parsed.chapters) ? parsed.chapters.filter(isFfprobeChapter) : [];
+
+  return chapters
+    .map((chapter, index) => ({
+      title: chapter.tags?.title?.trim() || `Chapter ${index + 1}`,
+      start: parseNumber(chapter.start_time),
+      end: parseNumber(chapter.end_time),
+    }))
+    .filter((chapter): chapter is EmbeddedChapter => chapter.start !== null && chapter.end !== null);
+}
+
+// AAC in an MP4 container plays in every current browser, including Safari
+export async function transcodeToAac(inputPath: string, outputPath: string): Promise<void> {
+  await runFfmpeg([
+    "-i", inputPath,
+    "-vn", "-c:a", "aac", "-b:a", "160k",
+    "-movflags", "+faststart",
+    "-f", "mp4",
+    outputPath,
+  ]);
+}
+
+// Cuts [start, start + duration) into a small mono MP3, which keeps every
+// chunk well under the Whisper upload limit at speech quality.
+export async function extractSpeechChunk(
+  inputPath: string,
+  outputPath: string,
+  start: number,
+  duration: number,
+): Promise<void> {
+  await runFfmpeg([
+    "-ss", start.toFixed(3),
+    "-t", duration.toFixed(3),
+    "-i", inputPath,
+    "-vn", "-ac", "1", "-ar", "16000", "-b:a", "64k",
+    outputPath,
+  ]);
+}
+
+export type AudioClipFormat = "mp3" | "ogg";
+
+export interface ClipRange {
+  start: number; // seconds into the input
+  duration: number;
+  fade?: number; // seconds of fade in and of fade out
+}
+
+// Fade in and out for a clip that starts at 0; the fades never overlap
+function fadeFilter(duration: number, fade = 0): string | null {
+  const length = Math.min(fade, duration / 2);
+  if (length <= 0) return null;
+  return `afade=t=in:st=0:d=${length.toFixed(3)},afade=t=out:st=${(duration - length).toFixed(3)}:d=${length.toFixed(3)}`;
+}
+
+const clipCodecs: Record<AudioClipFormat, string[]> = {
+  mp3: ["-c:a", "libmp3lame", "-b:a", "128k", "-f", "mp3"],
+  ogg: ["-c:a", "libopus", "-b:a", "96k", "-f", "ogg"],
+};
+
+// Cuts a range of the input into an MP3 or Ogg Opus file at listening quality
+export async function extractAudioClip(
+  inputPath: string,
+  outputPath: string,
+  format: AudioClipFormat,
+  { start, duration, fade }: ClipRange,
+): Promise<void> {
+  const filter = fadeFilter(duration, fade);
+  await runFfmpeg([
+    "-ss", start.toFixed(3),
+    "-t", duration.toFixed(3),
+    "-i", inputPath,
+    "-vn",
+    ...(filter ? ["-af", filter] : []),
+    ...clipCodecs[format],
+    outputPath,
+  ]);
+}
+
+// Values in a filter graph are single-quoted, so only quotes need escaping
+const filterValue = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+
+export interface AudiogramText {
+  captionFile: string; // UTF-8 text drawn above the waveform, already wrapped
+  titleFile: string; // one line drawn at the bottom
+}
+
+// Square video of the clip for sharing: the caption on a dark background
+// over a live waveform, with the title underneath. drawtext uses
+// fontconfig's default font unless AUDIOGRAM_FONT points at a font file.
+export async function renderAudiogram(
+  inputPath: string,
+  outputPath: string,
+  { start, duration, fade }: ClipRange,
+  { captionFile, titleFile }: AudiogramText,
+): Promise<void> {
+  const font = process.env.AUDIOGRAM_FONT ? `:fontfile=${filterValue(process.env.AUDIOGRAM_FONT)}` : "";
+  const audioFilter = fadeFilter(duration, fade);
+  const graph = [
+    `[0:a]${audioFilter ? `${audioFilter},` : ""}asplit=2[audio][waveIn]`,
+    "[waveIn]showwaves=s=1080x360:mode=cline:rate=25:colors=0x818cf8[wave]",
+    `color=c=0x111827:s=1080x1080:r=25:d=${duration.toFixed(3)}[background]`,
+    "[background][wave]overlay=x=0:y=540:shortest=1[base]",
+    `[base]drawtext=textfile=${filterValue(captionFile)}${font}:expansion=none:fontcolor=white:fontsize=46:line_spacing=14:x=80:y=100[captioned]`,
+    `[captioned]drawtext=textfile=${filterValue(titleFile)}${font}:expansion=none:fontcolor=0x9ca3af:fontsize=32:x=80:y=960[video]`,
+  ].join(";");
+
+  await runFfmpeg([
+    "-ss", start.toFixed(3),
+    "-t", duration.toFixed(3),
+    "-i", inputPath,
+    "-filter_complex", graph,
+    "-map", "[video]", "-map", "[audio]",
+    "-c:v", "libx264", "-preset", "veryfast", "-pix_fmt", "yuv420p",
+    "-c:a", "aac", "-b:a", "128k",
+    "-shortest",
+    "-movflags", "+faststart",
+    "-f", "mp4",
+    outputPath,
+  ]);
+}
+
+// 16kHz mono PCM WAV, the input format expected by most local speech models
+export async function convertToSpeechWav(inputPath: string, outputPath: string): Promise<void> {
+  await runFfmpeg(["-i", inputPath, "-vn", "-ar", "16000", "-ac", "1", "-c:a", "pcm_s16le", outputPath]);
+}
+
+// Decoding rate for waveform peaks; plenty to find the loud parts of speech
+const PEAK_SAMPLE_RATE = 8000;
+// One raw peak per 100ms of audio, later reduced to the stored resolution
+const PEAK_BLOCK_SAMPLES = PEAK_SAMPLE_RATE / 10;
+
+// Decodes the file to 8kHz mono PCM on stdout and returns the loudest sample
+// (0-1) of every 100ms block. Streams so long files never sit in memory.
+export function decodePeaks(inputPath: string): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(FFMPEG_PATH, [
+      "-hide_banner", "-loglevel", "error",
+      "-i", inputPath,
+      "-vn", "-ac", "1", "-ar", String(PEAK_SAMPLE_RATE),
+      "-f", "s16le", "-",
+    ]);
+
+    const peaks: number[] = [];
+    let blockPeak = 0;
+    let blockSamples = 0;
+    let leftover: Buffer | null = null;
+    let stderr = "";
+
+    child.stdout.on("data", (chunk: Buffer) => {
+      const data: Buffer = leftover ? Buffer.concat([leftover, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let offset = 0; offset < usable; offset += 2) {
+        const sample = Math.abs(data.readInt16LE(offset)) / 32768;
+        if (sample > blockPeak) blockPeak = sample;
+        if (++blockSamples === PEAK_BLOCK_SAMPLES) {
+          peaks.push(blockPeak);
+          blockPeak = 0;
+          blockSamples = 0;
+        }
+      }
+      leftover = usable < data.length ? data.subarray(usable) : null;
+    });
+    child.stderr.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+    });
+    child.on("error", (error) => reject(new Error(`ffmpeg failed: ${error.message}`)));
+    child.on("close", (code) => {
+      if (code !== 0) {
+        reject(new Error(`ffmpeg failed: ${stderr.trim() || `exit code ${code}`}`));
+        return;
+      }
+      if (blockSamples > 0) peaks.push(blockPeak);
+      resolve(peaks);
+    });
+  });
+}
@@ -0,0 +1,136 @@
+import OpenAI from "openai";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface CompletionOptions {
+  // Ask the model for a single JSON object
+  json?: boolean;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+}
+
+export interface LLMConfig {
+  model: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export class OpenAILLMProvider implements LLMProvider {
+  readonly name: string = "openai";
+  protected client: OpenAI;
+
+  constructor(protected config: LLMConfig, clientOptions: { apiKey?: string; baseURL?: string } = {}) {
+    this.client = new OpenAI({
+      apiKey: clientOptions.apiKey ?? process.env.OPENAI_API_KEY,
+      baseURL: clientOptions.baseURL,
+    });
+  }
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    const response = await this.client.chat.completions.create({
+      model: this.config.model,
+      messages,
+      ...(this.config.temperature !== undefined && { temperature: this.config.temperature }),
+      ...this.maxTokensParam(),
+      ...(options.json && { response_format: { type: "json_object" as const } }),
+    });
+    return response.choices[0]?.message.content || "";
+  }
+
+  protected maxTokensParam(): { max_completion_tokens?: number; max_tokens?: number } {
+    return this.config.maxTokens !== undefined ? { max_completion_tokens: this.config.maxTokens } : {};
+  }
+}
+
+// Ollama, llama.cpp server and friends expose the OpenAI chat API under /v1
+// but still expect the older max_tokens parameter.
+export class OpenAICompatibleLLMProvider extends OpenAILLMProvider {
+  readonly name = "openai-compatible";
+
+  constructor(config: LLMConfig, baseURL: string, apiKey = "not-needed") {
+    super(config, { apiKey, baseURL });
+  }
+
+  protected maxTokensParam() {
+    return this.config.maxTokens !== undefined ? { max_tokens: this.config.maxTokens } : {};
+  }
+}
+
+// Returns canned responses so AI features can run without a model. The
+// default JSON reply satisfies every JSON prompt used by the app; plain text
+// prompts (chat answers) get a reply citing the first passage.
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = "fake";
+  readonly calls: ChatMessage[][] = [];
+
+  constructor(private respond: (messages: ChatMessage[], options: CompletionOptions) => string = (_messages, options) =>
+    options.json
+      ? JSON.stringify({
+          summary: "This is a fake summary.",
+          keywords: ["fake", "summary"],
+          keyPoints: [
+            { text: "First fake key point", start: 0, end: 0 },
+            { text: "Second fake key point", start: 0, end: 0 },
+          ],
+          chapters: [{ title: "Fake chapter", start: 0, synopsis: "A fake chapter synopsis." }],
+          cards: [{ item: 0, question: "What is this fake question?", answer: "A fake answer." }],
+        })
+      : "This is a fake answer [1].",
+  ) {}
+
+  async complete(messages: ChatMessage[], options: CompletionOptions = {}): Promise<string> {
+    this.calls.push(messages);
+    return this.respond(messages, options);
+  }
+}
+
+// Local models often wrap JSON in a markdown code fence despite instructions
+export function parseJsonResponse(content: string): unknown {
+  const trimmed = content.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return JSON.parse(fenced ? fenced[1] : trimmed || "{}");
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value === "") return undefined;
+  const parsed = Number(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Expected a number but got "${value}"`);
+  }
+  return parsed;
+}
+
+// LLM_PROVIDER=openai|openai-compatible|fake, with LLM_MODEL, LLM_TEMPERATURE,
+// LLM_MAX_TOKENS, and LLM_BASE_URL/LLM_API_KEY for openai-compatible servers
+export function createLLMProvider(name = process.env.LLM_PROVIDER || "openai"): LLMProvider {
+  const config: LLMConfig = {
+    // the newest OpenAI model is "gpt-5" which was released August 7, 2025. do not change this unless explicitly requested by the user
+    model: process.env.LLM_MODEL || "gpt-5",
+    temperature: parseNumber(process.env.LLM_TEMPERATURE),
+    maxTokens: parseNumber(process.env.LLM_MAX_TOKENS),
+  };
+
+  switch (name) {
+    case "openai":
+      return new OpenAILLMProvider(config);
+    case "openai-compatible": {
+      const baseURL = process.env.LLM_BASE_URL;
+      if (!baseURL) {
+        throw new Error("LLM_PROVIDER=openai-compatible requires LLM_BASE_URL to be set");
+      }
+      return new OpenAICompatibleLLMProvider(config, baseURL, process.env.LLM_API_KEY);
+    }
+    case "fake":
+      return new FakeLLMProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${name}"`);
+  }
+}
+
+export const llm = createLLMProvider();
@@ -0,0 +1,185 @@
+import type { TranscriptExportFormat } from "@shared/schema";
+
+export interface CaptionSegment {
+  startTime: number; // seconds
+  endTime: number;
+  text: string;
+  speaker: string | null; // display name
+}
+
+export interface CaptionOptions {
+  maxLineLength: number;
+  speakerPrefixes: boolean;
+  offset: number; // seconds added to every timestamp; negative trims a pre-roll
+}
+
+interface Cue {
+  startTime: number;
+  endTime: number;
+  lines: string[];
+}
+
+// Broadcast captions show at most two lines at a time
+const LINES_PER_CUE = 2;
+
+// Word-wraps text into lines of at most maxLength characters; a single longer
+// word gets a line of its own
+export function wrap(text: string, maxLength: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + 1 + word.length > maxLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+// Shifts segments by the offset, dropping any that end up wholly before 0
+function shift(segments: CaptionSegment[], offset: number): CaptionSegment[] {
+  return segments
+    .map((segment) => ({
+      ...segment,
+      startTime: Math.max(segment.startTime + offset, 0),
+      endTime: segment.endTime + offset,
+    }))
+    .filter((segment) => segment.endTime > 0 && segment.text.trim());
+}
+
+// Splits each segment into cues of up to LINES_PER_CUE wrapped lines, sharing
+// the segment's time between them in proportion to their length
+function buildCues(segments: CaptionSegment[], options: CaptionOptions): Cue[] {
+  const cues: Cue[] = [];
+  for (const segment of shift(segments, options.offset)) {
+    const prefix = options.speakerPrefixes && segment.speaker ? `${segment.speaker}: ` : "";
+    const lines = wrap(prefix + segment.text.trim(), options.maxLineLength);
+    const groups: string[][] = [];
+    for (let i = 0; i < lines.length; i += LINES_PER_CUE) {
+      groups.push(lines.slice(i, i + LINES_PER_CUE));
+    }
+
+    const totalLength = lines.join("").length;
+    const duration = segment.endTime - segment.startTime;
+    let start = segment.startTime;
+    groups.forEach((group, index) => {
+      const end = index === groups.length - 1
+        ? segment.endTime
+        : start + (duration * group.join("").length) / totalLength;
+      cues.push({ startTime: start, endTime: end, lines: group });
+      start = end;
+    });
+  }
+  return cues;
+}
+
+// 3725.5 -> "01:02:05" + separator + "500"
+function clockTime(seconds: number, separator: string): string {
+  const totalMs = Math.round(seconds * 1000);
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (value: number, length = 2) => value.toString().padStart(length, "0");
+  return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${separator}${pad(ms, 3)}`;
+}
+
+// WebVTT cue text treats & and < as markup, like XML
+const escapeVtt = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+const escapeXml = (text: string) => escapeVtt(text).replace(/"/g, "&quot;");
+
+function toSrt(cues: Cue[]): string {
+  return cues
+    .map((cue, index) =>
+      `${index + 1}\n${clockTime(cue.startTime, ",")} --> ${clockTime(cue.endTime, ",")}\n${cue.lines.join("\n")}\n`,
+    )
+    .join("\n");
+}
+
+function toVtt(cues: Cue[]): string {
+  const body = cues
+    .map((cue) =>
+      `${clockTime(cue.startTime, ".")} --> ${clockTime(cue.endTime, ".")}\n${cue.lines.map(escapeVtt).join("\n")}\n`,
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+function toTtml(cues: Cue[]): string {
+  const paragraphs = cues
+    .map((cue) =>
+      `      <p begin="${clockTime(cue.startTime, ".")}" end="${clockTime(cue.endTime, ".")}">${cue.lines.map(escapeXml).join("<br/>")}</p>`,
+    )
+    .join("\n");
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<tt xmlns="http://www.w3.org/ns/ttml" xml:lang="en">`,
+    `  <body>`,
+    `    <div>`,
+    paragraphs,
+    `    </div>`,
+    `  </body>`,
+    `</tt>`,
+    ``,
+  ].join("\n");
+}
+
+// One paragraph per segment; consecutive segments by the same speaker share a paragraph
+function toText(segments: CaptionSegment[], options: CaptionOptions): string {
+  const paragraphs: { speaker: string | null; text: string }[] = [];
+  for (const segment of shift(segments, options.offset)) {
+    const last = paragraphs[paragraphs.length - 1];
+    if (options.speakerPrefixes && last && segment.speaker && last.speaker === segment.speaker) {
+      last.text += ` ${segment.text.trim()}`;
+    } else {
+      paragraphs.push({ speaker: segment.speaker, text: segment.text.trim() });
+    }
+  }
+  return paragraphs
+    .map((paragraph) =>
+      options.speakerPrefixes && paragraph.speaker ? `${paragraph.speaker}: ${paragraph.text}` : paragraph.text,
+    )
+    .join("\n\n") + "\n";
+}
+
+function toJson(segments: CaptionSegment[], options: CaptionOptions): string {
+  const entries = shift(segments, options.offset).map((segment) => ({
+    start: segment.startTime,
+    end: segment.endTime,
+    speaker: options.speakerPrefixes ? segment.speaker : null,
+    text: segment.text.trim(),
+  }));
+  return JSON.stringify(entries, null, 2);
+}
+
+export const transcriptExportTypes: Record<TranscriptExportFormat, string> = {
+  srt: "application/x-subrip; charset=utf-8",
+  vtt: "text/vtt; charset=utf-8",
+  ttml: "application/ttml+xml; charset=utf-8",
+  txt: "text/plain; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+// Renders a transcript as captions (srt, vtt, ttml), plain text or JSON.
+// maxLineLength only applies to the caption formats.
+export function formatTranscript(
+  segments: CaptionSegment[],
+  format: TranscriptExportFormat,
+  options: CaptionOptions,
+): string {
+  switch (format) {
+    case "srt":
+      return toSrt(buildCues(segments, options));
+    case "vtt":
+      return toVtt(buildCues(segments, options));
+    case "ttml":
+      return toTtml(buildCues(segments, options));
+    case "txt":
+      return toText(segments, options);
+    case "json":
+      return toJson(segments, options);
+  }
+}
@@ -0,0 +1,82 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { compileTemplate, renderTemplate } from "./template";
+import { DEFAULT_MARKDOWN_TEMPLATE } from "@shared/markdown-template";
+
+describe("renderTemplate", () => {
+  it("renders values, nested paths, lists and quoted strings", () => {
+    const context = { title: 'Say "hi"', show: { name: "Radiolab" }, keywords: ["science", "sound"], missing: null };
+
+    assert.equal(
+      renderTemplate("{{title}} from {{show.name}}: {{keywords}}.{{missing}}{{show.host}}", context),
+      'Say "hi" from Radiolab: science, sound.',
+    );
+    assert.equal(renderTemplate("title: {{quote title}}", context), 'title: "Say \\"hi\\""');
+  });
+
+  it("renders nested each and if/else blocks with outer names and loop data", () => {
+    const template =
+      "{{#each chapters}}{{@number}}. {{title}} ({{show}})" +
+      "{{#if highlights}}: {{#each highlights}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}{{else}}: none{{/if}}" +
+      "{{#if @first}} *{{/if}};{{/each}}";
+    const context = {
+      show: "Radiolab",
+      chapters: [
+        { title: "Intro", highlights: ["a", "b"] },
+        { title: "Outro", highlights: [] },
+      ],
+    };
+
+    assert.equal(renderTemplate(template, context), "1. Intro (Radiolab): a, b *;2. Outro (Radiolab): none;");
+  });
+
+  it("renders the else branch of an empty each and treats empty values as false", () => {
+    assert.equal(renderTemplate("{{#each items}}{{this}}{{else}}nothing{{/each}}", { items: [] }), "nothing");
+    assert.equal(renderTemplate("{{#if note}}yes{{else}}no{{/if}}", { note: "" }), "no");
+    assert.equal(renderTemplate("{{#unless note}}no note{{/unless}}", { note: "" }), "no note");
+  });
+
+  it("prefers the item's own names inside each, and this. skips outer contexts", () => {
+    const context = { title: "Outer", items: [{ title: "Inner" }, {}] };
+
+    assert.equal(renderTemplate("{{#each items}}[{{title}}]{{/each}}", context), "[Inner][Outer]");
+    assert.equal(renderTemplate("{{#each items}}[{{this.title}}]{{/each}}", context), "[Inner][]");
+  });
+
+  it("removes lines holding only a block tag", () => {
+    const template = ["# {{title}}", "{{#each items}}", "  - {{this}}", "{{/each}}", "{{#if note}}", "{{note}}", "{{else}}", "No note", "{{/if}}", "end"].join("\n");
+
+    assert.equal(renderTemplate(template, { title: "Notes", items: ["a", "b"], note: "" }), "# Notes\n  - a\n  - b\nNo note\nend");
+  });
+
+  it("keeps the line around block tags that share it with text", () => {
+    assert.equal(renderTemplate("Tags: {{#each tags}}#{{this}} {{/each}}\nnext", { tags: ["x", "y"] }), "Tags: #x #y \nnext");
+  });
+
+  it("only reads the context's own properties", () => {
+    const context = { title: "Episode", items: [{}] };
+
+    assert.equal(renderTemplate("[{{constructor}}][{{toString}}][{{__proto__}}]", context), "[][][]");
+    assert.equal(renderTemplate("[{{title.constructor}}][{{items.constructor.name}}]", context), "[][]");
+    assert.equal(renderTemplate("{{#each items}}[{{@constructor}}][{{this.hasOwnProperty}}]{{/each}}", context), "[][]");
+    assert.equal(renderTemplate("{{#if constructor}}leaked{{else}}safe{{/if}}", context), "safe");
+  });
+});
+
+describe("compileTemplate", () => {
+  it("compiles the default Markdown template", () => {
+    assert.doesNotThrow(() => compileTemplate(DEFAULT_MARKDOWN_TEMPLATE));
+  });
+
+  it("rejects malformed templates with a readable message", () => {
+    assert.throws(() => compileTemplate("{{#with item}}{{/with}}"), /Unknown block "{{#with item}}"/);
+    assert.throws(() => compileTemplate("{{#if}}x{{/if}}"), /Unknown block "{{#if}}"/);
+    assert.throws(() => compileTemplate("{{#if a}}{{#each b}}x{{/if}}{{/each}}"), /Unexpected "{{\/if}}"/);
+    assert.throws(() => compileTemplate("x{{/each}}"), /Unexpected "{{\/each}}"/);
+    assert.throws(() => compileTemplate("{{else}}"), /Unexpected "{{else}}"/);
+    assert.throws(() => compileTemplate("{{#if a}}x{{else}}y{{else}}z{{/if}}"), /Unexpected "{{else}}"/);
+    assert.throws(() => compileTemplate("{{#each items}}\n{{#if a}}x{{/if}}"), /"{{#each}}" is never closed/);
+    assert.throws(() => compileTemplate("{{title extra}}"), /Can't read "{{title extra}}"/);
+    assert.throws(() => compileTemplate("{{}}"), /Can't read "{{}}"/);
+  });
+});
@@ -0,0 +1,141 @@
+// A small Handlebars-compatible template language for user-editable export
+// templates. Supported:
+//   {{name}}, {{a.b}}, {{this}}          values; arrays are joined with ", "
+//   {{quote name}}                       the value as a double-quoted YAML/JSON string
+//   {{#each list}}...{{/each}}           with {{@index}}, {{@number}} (1-based), {{@first}}, {{@last}}
+//   {{#if name}}...{{else}}...{{/if}}    empty strings and empty lists are false
+//   {{#unless name}}...{{/unless}}
+// Inside #each, names are looked up on the item first and then on the
+// outer contexts. Output is not HTML-escaped. As in Handlebars, a block tag
+// alone on its line removes that whole line from the output.
+
+type Node =
+  | { type: "text"; value: string }
+  | { type: "value"; path: string; helper?: string }
+  | { type: "block"; helper: "each" | "if" | "unless"; path: string; body: Node[]; inverse: Node[] };
+
+export type CompiledTemplate = Node[];
+
+type Scope = { context: unknown; data: Record<string, unknown> };
+
+const TAG = /{{\s*([^}]*?)\s*}}/g;
+const STANDALONE_TAG = /^[ \t]*({{\s*(?:[#/][^}]*|else)\s*}})[ \t]*(?:\r?\n|$)/gm;
+const BLOCK_HELPERS = ["each", "if", "unless"];
+const VALUE_HELPERS = ["quote"];
+
+// Throws with a readable message when the template is malformed
+export function compileTemplate(source: string): CompiledTemplate {
+  const root: Node[] = [];
+  // Open blocks, innermost last; `target` is the body or inverse being filled
+  const stack: { node: Extract<Node, { type: "block" }>; target: Node[] }[] = [];
+  const current = () => (stack.length > 0 ? stack[stack.length - 1].target : root);
+
+  const text = source.replace(STANDALONE_TAG, "$1");
+  let last = 0;
+  for (const match of Array.from(text.matchAll(TAG))) {
+    if (match.index! > last) current().push({ type: "text", value: text.slice(last, match.index) });
+    last = match.index! + match[0].length;
+
+    const tag = match[1];
+    const [name, ...args] = tag.replace(/^[#/]/, "").split(/\s+/);
+    if (tag.startsWith("#")) {
+      if (!BLOCK_HELPERS.includes(name) || args.length !== 1) {
+        throw new Error(`Unknown block "{{${tag}}}"`);
+      }
+      const node = { type: "block" as const, helper: name as "each" | "if" | "unless", path: args[0], body: [], inverse: [] };
+      current().push(node);
+      stack.push({ node, target: node.body });
+    } else if (tag.startsWith("/")) {
+      const open = stack.pop();
+      if (!open || open.node.helper !== name) {
+        throw new Error(`Unexpected "{{${tag}}}"`);
+      }
+    } else if (tag === "else") {
+      const open = stack[stack.length - 1];
+      if (!open || open.target === open.node.inverse) {
+        throw new Error(`Unexpected "{{else}}"`);
+      }
+      open.target = open.node.inverse;
+    } else if (args.length === 1 && VALUE_HELPERS.includes(name)) {
+      current().push({ type: "value", path: args[0], helper: name });
+    } else if (args.length === 0 && name) {
+      current().push({ type: "value", path: name });
+    } else {
+      throw new Error(`Can't read "{{${tag}}}"`);
+    }
+  }
+  if (stack.length > 0) {
+    throw new Error(`"{{#${stack[stack.length - 1].node.helper}}}" is never closed`);
+  }
+  if (last < text.length) root.push({ type: "text", value: text.slice(last) });
+  return root;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+// Own properties only, so names like "constructor" never reach Object.prototype
+function lookup(scopes: Scope[], path: string): unknown {
+  const innermost = scopes[scopes.length - 1];
+  if (path.startsWith("@")) {
+    const key = path.slice(1);
+    return Object.hasOwn(innermost.data, key) ? innermost.data[key] : undefined;
+  }
+  if (path === "this") return innermost.context;
+
+  const [head, ...rest] = path.replace(/^this\./, "").split(".");
+  const candidates = path.startsWith("this.") ? [innermost] : scopes.slice().reverse();
+  for (const scope of candidates) {
+    const context = scope.context;
+    if (isObject(context) && Object.hasOwn(context, head)) {
+      return rest.reduce<unknown>(
+        (value, key) => (isObject(value) && Object.hasOwn(value, key) ? value[key] : undefined),
+        context[head],
+      );
+    }
+  }
+  return undefined;
+}
+
+const isTruthy = (value: unknown) => (Array.isArray(value) ? value.length > 0 : !!value);
+
+function stringify(value: unknown): string {
+  if (value == null) return "";
+  if (Array.isArray(value)) return value.map(stringify).join(", ");
+  return String(value);
+}
+
+function render(nodes: Node[], scopes: Scope[]): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return node.value;
+        case "value": {
+          const value = lookup(scopes, node.path);
+          return node.helper === "quote" ? JSON.stringify(stringify(value)) : stringify(value);
+        }
+        case "block": {
+          const value = lookup(scopes, node.path);
+          if (node.helper === "each") {
+            if (!Array.isArray(value) || value.length === 0) return render(node.inverse, scopes);
+            return value
+              .map((item, index) =>
+                render(node.body, [
+                  ...scopes,
+                  { context: item, data: { index, number: index + 1, first: index === 0, last: index === value.length - 1 } },
+                ]),
+              )
+              .join("");
+          }
+          const show = node.helper === "if" ? isTruthy(value) : !isTruthy(value);
+          return render(show ? node.body : node.inverse, scopes);
+        }
+      }
+    })
+    .join("");
+}
+
+export function renderTemplate(template: CompiledTemplate | string, context: Record<string, unknown>): string {
+  const nodes = typeof template === "string" ? compileTemplate(template) : template;
+  return render(nodes, [{ context, data: {} }]);
+}
@@ -0,0 +1,216 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { transcribeAudio } from "./openai";
+import { convertToSpeechWav, extractSpeechChunk, probeDuration } from "./ffmpeg";
+
+const execFileAsync = promisify(execFile);
+
+export interface TranscribedSegment {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+  confidence?: number; // 0-100
+}
+
+export interface TranscriptionResult {
+  text: string;
+  duration?: number;
+  segments: TranscribedSegment[];
+}
+
+export interface TranscriptionProvider {
+  // Stored on audio_content.transcription_provider
+  readonly name: string;
+  // Largest file the backend accepts in one request; longer audio is chunked
+  readonly maxFileBytes?: number;
+  transcribe(audioFilePath: string, originalFilename?: string): Promise<TranscriptionResult>;
+}
+
+export class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = "openai";
+  // The API rejects uploads above 25MB; leave headroom for multipart overhead
+  readonly maxFileBytes = 24 * 1024 * 1024;
+
+  transcribe(audioFilePath: string, originalFilename?: string): Promise<TranscriptionResult> {
+    return transcribeAudio(audioFilePath, originalFilename);
+  }
+}
+
+interface WhisperCppOutput {
+  transcription?: Array<{
+    offsets: { from: number; to: number }; // milliseconds
+    text: string;
+  }>;
+}
+
+// Runs a local whisper.cpp build. whisper.cpp only reads 16kHz mono WAV, so
+// the input is converted with ffmpeg first.
+export class WhisperCppTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "whisper-cpp";
+
+  constructor(private binaryPath: string, private modelPath: string) {}
+
+  async transcribe(audioFilePath: string): Promise<TranscriptionResult> {
+    if (!fs.existsSync(audioFilePath)) {
+      throw new Error(`Audio file not found: ${audioFilePath}`);
+    }
+
+    const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pensieve-whisper-"));
+    try {
+      const wavPath = path.join(workDir, "input.wav");
+      const outputPrefix = path.join(workDir, "output");
+
+      await convertToSpeechWav(audioFilePath, wavPath);
+      await execFileAsync(
+        this.binaryPath,
+        ["-m", this.modelPath, "-f", wavPath, "-oj", "-of", outputPrefix, "-np"],
+        { maxBuffer: 64 * 1024 * 1024 },
+      );
+
+      const output: WhisperCppOutput = JSON.parse(
+        await fs.promises.readFile(`${outputPrefix}.json`, "utf8"),
+      );
+      const segments = (output.transcription || [])
+        .map((entry) => ({
+          start: entry.offsets.from / 1000,
+          end: entry.offsets.to / 1000,
+          text: entry.text.trim(),
+        }))
+        .filter((segment) => segment.text.length > 0);
+
+      return {
+        text: segments.map((segment) => segment.text).join(" "),
+        duration: segments.length > 0 ? segments[segments.length - 1].end : undefined,
+        segments,
+      };
+    } catch (error) {
+      console.error("whisper.cpp transcription error:", error);
+      throw new Error("Failed to transcribe audio: " + (error as Error).message);
+    } finally {
+      await fs.promises.rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+// Deterministic output for tests and offline development: the same file name
+// always yields the same transcript.
+export class FakeTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "fake";
+
+  constructor(private segmentCount = 3, private segmentLength = 5) {}
+
+  async transcribe(audioFilePath: string, originalFilename?: string): Promise<TranscriptionResult> {
+    const label = originalFilename || path.basename(audioFilePath);
+    const segments = Array.from({ length: this.segmentCount }, (_, index) => ({
+      start: index * this.segmentLength,
+      end: (index + 1) * this.segmentLength,
+      text: `Segment ${index + 1} of ${label}.`,
+      confidence: 100,
+    }));
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      duration: this.segmentCount * this.segmentLength,
+      segments,
+    };
+  }
+}
+
+// TRANSCRIPTION_PROVIDER=openai|whisper-cpp|fake, defaulting to openai
+export function createTranscriptionProvider(name = process.env.TRANSCRIPTION_PROVIDER || "openai"): TranscriptionProvider {
+  switch (name) {
+    case "openai":
+      return new OpenAITranscriptionProvider();
+    case "whisper-cpp": {
+      const modelPath = process.env.WHISPER_CPP_MODEL;
+      if (!modelPath) {
+        throw new Error("TRANSCRIPTION_PROVIDER=whisper-cpp requires WHISPER_CPP_MODEL to be set");
+      }
+      return new WhisperCppTranscriptionProvider(process.env.WHISPER_CPP_BIN || "whisper-cli", modelPath);
+    }
+    case "fake":
+      return new FakeTranscriptionProvider();
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER "${name}"`);
+  }
+}
+
+export const transcriptionProvider = createTranscriptionProvider();
+
+export interface ChunkingOptions {
+  chunkSeconds: number;
+  overlapSeconds: number;
+  onProgress?: (progress: { completedChunks: number; totalChunks: number; text: string }) => Promise<void> | void;
+}
+
+const defaultChunking: ChunkingOptions = {
+  chunkSeconds: 10 * 60,
+  overlapSeconds: 5,
+};
+
+// Transcribes a file, splitting it into overlapping chunks first when it is
+// larger than the provider accepts. Chunks are transcribed one at a time so
+// progress can be reported and rate limits are respected.
+export async function transcribeFile(
+  provider: TranscriptionProvider,
+  audioFilePath: string,
+  originalFilename?: string,
+  options: Partial<ChunkingOptions> = {},
+): Promise<TranscriptionResult> {
+  const { chunkSeconds, overlapSeconds, onProgress } = { ...defaultChunking, ...options };
+  const { size } = await fs.promises.stat(audioFilePath);
+
+  if (!provider.maxFileBytes || size <= provider.maxFileBytes) {
+    return provider.transcribe(audioFilePath, originalFilename);
+  }
+
+  const totalDuration = await probeDuration(audioFilePath);
+  const step = chunkSeconds - overlapSeconds;
+  const chunkStarts: number[] = [];
+  for (let start = 0; start < totalDuration; start += step) {
+    chunkStarts.push(start);
+    if (start + chunkSeconds >= totalDuration) break;
+  }
+
+  const workDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "pensieve-chunks-"));
+  try {
+    const segments: TranscribedSegment[] = [];
+
+    for (let index = 0; index < chunkStarts.length; index++) {
+      const chunkStart = chunkStarts[index];
+      const chunkPath = path.join(workDir, `chunk-${index}.mp3`);
+      await extractSpeechChunk(audioFilePath, chunkPath, chunkStart, chunkSeconds);
+
+      const result = await provider.transcribe(chunkPath, `chunk-${index}.mp3`);
+      await fs.promises.rm(chunkPath, { force: true });
+
+      // Each overlap is transcribed twice; split it down the middle so every
+      // stretch of audio is taken from exactly one chunk.
+      const keepFrom = index === 0 ? 0 : chunkStart + overlapSeconds / 2;
+      const keepUntil = index === chunkStarts.length - 1 ? Infinity : chunkStarts[index + 1] + overlapSeconds / 2;
+      for (const segment of result.segments) {
+        const start = segment.start + chunkStart;
+        if (start >= keepFrom && start < keepUntil) {
+          segments.push({ ...segment, start, end: segment.end + chunkStart });
+        }
+      }
+
+      await onProgress?.({
+        completedChunks: index + 1,
+        totalChunks: chunkStarts.length,
+        text: segments.map((segment) => segment.text).join(" "),
+      });
+    }
+
+    return {
+      text: segments.map((segment) => segment.text).join(" "),
+      duration: totalDuration,
+      segments,
+    };
+  } finally {
+    await fs.promises.rm(workDir, { recursive: true, force: true });
+  }
+}
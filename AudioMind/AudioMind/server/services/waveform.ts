@@ -0,0 +1,28 @@
+import { decodePeaks } from "./ffmpeg";
+
+// Peaks kept per item; requests for fewer are reduced from these
+export const STORED_PEAK_COUNT = 2000;
+
+// Reduces peaks to at most `resolution` values, keeping the loudest in each group
+export function downsamplePeaks(peaks: number[], resolution: number): number[] {
+  if (peaks.length <= resolution) return peaks;
+
+  const result: number[] = [];
+  for (let index = 0; index < resolution; index++) {
+    const start = Math.floor((index * peaks.length) / resolution);
+    const end = Math.floor(((index + 1) * peaks.length) / resolution);
+    let peak = 0;
+    for (let i = start; i < Math.max(end, start + 1); i++) {
+      if (peaks[i] > peak) peak = peaks[i];
+    }
+    result.push(peak);
+  }
+  return result;
+}
+
+// Peaks for the whole file, scaled so the loudest point is 1
+export async function generateWaveform(filePath: string): Promise<number[]> {
+  const peaks = downsamplePeaks(await decodePeaks(filePath), STORED_PEAK_COUNT);
+  const loudest = Math.max(0, ...peaks);
+  return peaks.map((peak) => (loudest > 0 ? Math.round((peak / loudest) * 1000) / 1000 : 0));
+}
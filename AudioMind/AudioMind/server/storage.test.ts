@@ -0,0 +1,348 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import { PGlite } from "@electric-sql/pglite";
+import { vector } from "@electric-sql/pglite/vector";
+import { drizzle } from "drizzle-orm/pglite";
+import { migrate } from "drizzle-orm/pglite/migrator";
+import * as schema from "@shared/schema";
+import { DbStorage, MemStorage, type IStorage } from "./storage";
+
+const MemoryStore = createMemoryStore(session);
+
+interface Backend {
+  name: string;
+  open(): Promise<{ storage: IStorage; close(): Promise<void> }>;
+}
+
+// DbStorage runs against PGlite, an in-process Postgres, with the real migrations applied
+const backends: Backend[] = [
+  {
+    name: "MemStorage",
+    async open() {
+      return { storage: new MemStorage(), close: async () => {} };
+    },
+  },
+  {
+    name: "DbStorage",
+    async open() {
+      const client = new PGlite({ extensions: { vector } });
+      const db = drizzle(client, { schema });
+      await migrate(db, { migrationsFolder: "migrations" });
+      return {
+        storage: new DbStorage(db, new MemoryStore({})),
+        close: () => client.close(),
+      };
+    },
+  },
+];
+
+for (const backend of backends) {
+  describe(backend.name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+    let userId: string;
+    let otherUserId: string;
+
+    before(async () => {
+      ({ storage, close } = await backend.open());
+      userId = (await storage.createUser({ username: "alice", password: "hash" })).id;
+      otherUserId = (await storage.createUser({ username: "bob", password: "hash" })).id;
+    });
+
+    after(() => close());
+
+    const createItem = (title: string, owner = userId) =>
+      storage.createAudioContent({ userId: owner, title, fileName: `${title}.mp3`, filePath: `/tmp/${title}.mp3` });
+
+    it("creates and looks up users", async () => {
+      const user = await storage.getUserByUsername("alice");
+      assert.equal(user?.id, userId);
+      assert.equal((await storage.getUser(userId))?.username, "alice");
+      assert.equal(await storage.getUserByUsername("nobody"), undefined);
+    });
+
+    it("creates, updates and deletes audio content", async () => {
+      const content = await createItem("crud");
+      assert.equal(content.transcriptionStatus, "pending");
+      assert.deepEqual(content.keywords, []);
+
+      const updated = await storage.updateAudioContent(content.id, { title: "Renamed", progress: 42 });
+      assert.equal(updated?.title, "Renamed");
+      assert.equal(updated?.progress, 42);
+      assert.equal((await storage.getAudioContent(content.id))?.title, "Renamed");
+      assert.ok((await storage.getAudioContentByUser(userId)).some((item) => item.id === content.id));
+      assert.ok(!(await storage.getAudioContentByUser(otherUserId)).some((item) => item.id === content.id));
+
+      assert.equal(await storage.deleteAudioContent(content.id), true);
+      assert.equal(await storage.getAudioContent(content.id), undefined);
+      assert.equal(await storage.deleteAudioContent(content.id), false);
+      assert.equal(await storage.updateAudioContent(content.id, { title: "Gone" }), undefined);
+    });
+
+    it("creates, updates and deletes highlights", async () => {
+      const content = await createItem("highlights");
+      const later = await storage.createHighlight({ userId, audioContentId: content.id, text: "later", startTime: 30, endTime: 35 });
+      const earlier = await storage.createHighlight({ userId, audioContentId: content.id, text: "earlier", startTime: 5, endTime: 9 });
+      assert.equal(earlier.color, "yellow");
+      assert.equal(earlier.note, null);
+
+      const byItem = await storage.getHighlightsByAudioContent(content.id);
+      assert.deepEqual(byItem.map((highlight) => highlight.id), [earlier.id, later.id]);
+
+      const updated = await storage.updateHighlight(later.id, { note: "remember this" });
+      assert.equal(updated?.note, "remember this");
+      assert.equal((await storage.getHighlight(later.id))?.note, "remember this");
+
+      assert.equal(await storage.deleteHighlight(earlier.id), true);
+      assert.equal(await storage.getHighlight(earlier.id), undefined);
+      assert.equal(await storage.deleteHighlight(earlier.id), false);
+    });
+
+    it("deletes a highlight's reviews and unreviewed flashcards with it", async () => {
+      const content = await createItem("highlight cascade");
+      const highlight = await storage.createHighlight({ userId, audioContentId: content.id, text: "cascade", startTime: 1, endTime: 2 });
+      const kept = await storage.createHighlight({ userId, audioContentId: content.id, text: "kept", startTime: 3, endTime: 4 });
+      for (const { id } of [highlight, kept]) {
+        await storage.createHighlightReview({
+          highlightId: id,
+          userId,
+          grade: "good",
+          repetitions: 1,
+          easeFactor: 2.5,
+          intervalDays: 1,
+          dueAt: new Date(),
+        });
+      }
+      const [cardFromHighlight, reviewedCard, cardFromKept] = await storage.createFlashcards([
+        { userId, audioContentId: content.id, highlightId: highlight.id, question: "Q1", answer: "A1", startTime: 1, endTime: 2 },
+        { userId, audioContentId: content.id, highlightId: highlight.id, question: "Q2", answer: "A2", startTime: 1, endTime: 2 },
+        { userId, audioContentId: content.id, highlightId: kept.id, question: "Q3", answer: "A3", startTime: 3, endTime: 4 },
+      ]);
+      await storage.updateFlashcard(reviewedCard.id, { box: 1, lastReviewedAt: new Date() });
+
+      await storage.deleteHighlight(highlight.id);
+
+      assert.equal(await storage.getLatestHighlightReview(highlight.id), undefined);
+      assert.ok(await storage.getLatestHighlightReview(kept.id));
+      assert.equal(await storage.getFlashcard(cardFromHighlight.id), undefined);
+      assert.equal((await storage.getFlashcard(reviewedCard.id))?.highlightId, null);
+      assert.equal((await storage.getFlashcard(cardFromKept.id))?.highlightId, kept.id);
+      assert.ok(!(await storage.search(userId, "cascade", 10)).some((hit) => hit.id === highlight.id));
+    });
+
+    it("deletes everything belonging to an item with it", async () => {
+      const content = await createItem("item cascade");
+      const other = await createItem("bystander");
+
+      for (const item of [content, other]) {
+        const highlight = await storage.createHighlight({ userId, audioContentId: item.id, text: "quote", startTime: 0, endTime: 5 });
+        await storage.createHighlightReview({
+          highlightId: highlight.id,
+          userId,
+          grade: "good",
+          repetitions: 1,
+          easeFactor: 2.5,
+          intervalDays: 1,
+          dueAt: new Date(),
+        });
+        await storage.createTranscriptSegment({ audioContentId: item.id, startTime: 0, endTime: 5, text: "hello", sequenceNumber: 0 });
+        await storage.createSpeaker({ audioContentId: item.id, label: "SPEAKER_00", name: "Speaker 1", position: 0 });
+        await storage.saveWaveform({ audioContentId: item.id, peaks: [0.1, 0.5] });
+        await storage.replaceTranscriptChunks(item.id, [
+          { audioContentId: item.id, startTime: 0, endTime: 5, text: "hello", model: "cascade-model", embedding: [1, 0, 0] },
+        ]);
+        await storage.replaceChapters(item.id, [{ audioContentId: item.id, title: "Intro", startTime: 0, endTime: 5, source: "ai" }]);
+        const [keyPoint] = await storage.replaceKeyPoints(item.id, [
+          { audioContentId: item.id, position: 0, text: "point", segmentIds: [], startTime: 0, endTime: 5 },
+        ]);
+        await storage.createFlashcards([
+          { userId, audioContentId: item.id, keyPointId: keyPoint.id, question: "Q", answer: "A", startTime: 0, endTime: 5 },
+        ]);
+        const conversation = await storage.createChatConversation({ userId, title: "Chat", scopeType: "item", scopeId: item.id });
+        await storage.createChatMessage({ conversationId: conversation.id, role: "user", content: "why?", citations: [] });
+        await storage.createJob({ type: "transcribe", audioContentId: item.id });
+      }
+      const conversation = (await storage.getChatConversationsByUser(userId)).find((c) => c.scopeId === content.id)!;
+      const highlightId = (await storage.getHighlightsByAudioContent(content.id))[0].id;
+
+      assert.equal(await storage.deleteAudioContent(content.id), true);
+
+      assert.deepEqual(await storage.getHighlightsByAudioContent(content.id), []);
+      assert.equal(await storage.getLatestHighlightReview(highlightId), undefined);
+      assert.deepEqual(await storage.getTranscriptSegments(content.id), []);
+      assert.deepEqual(await storage.getSpeakers(content.id), []);
+      assert.equal(await storage.getWaveform(content.id), undefined);
+      assert.deepEqual(await storage.getChapters(content.id), []);
+      assert.deepEqual(await storage.getKeyPoints(content.id), []);
+      assert.deepEqual(await storage.getFlashcardsByAudioContent(content.id), []);
+      assert.equal(await storage.getChatConversation(conversation.id), undefined);
+      assert.deepEqual(await storage.getChatMessages(conversation.id), []);
+      assert.deepEqual(await storage.getJobsByAudioContent(content.id), []);
+      const hits = await storage.searchTranscriptChunks(userId, [1, 0, 0], "cascade-model", 10);
+      assert.deepEqual(hits.map((hit) => hit.audioContentId), [other.id]);
+
+      // The other item is untouched
+      assert.equal((await storage.getHighlightsByAudioContent(other.id)).length, 1);
+      assert.equal((await storage.getTranscriptSegments(other.id)).length, 1);
+      assert.equal((await storage.getSpeakers(other.id)).length, 1);
+      assert.ok(await storage.getWaveform(other.id));
+      assert.equal((await storage.getChapters(other.id)).length, 1);
+      assert.equal((await storage.getKeyPoints(other.id)).length, 1);
+      assert.equal((await storage.getFlashcardsByAudioContent(other.id)).length, 1);
+      assert.equal((await storage.getJobsByAudioContent(other.id)).length, 1);
+    });
+
+    it("deletes unreviewed cards with their key points and unlinks reviewed ones", async () => {
+      const content = await createItem("key point cards");
+      const point = (text: string) => ({ audioContentId: content.id, position: 0, text, segmentIds: [], startTime: 0, endTime: 5 });
+      const cardFor = (keyPointId: string) =>
+        ({ userId, audioContentId: content.id, keyPointId, question: "Q", answer: "A", startTime: 0, endTime: 5 });
+
+      const [first] = await storage.replaceKeyPoints(content.id, [point("first")]);
+      const [fresh, reviewed] = await storage.createFlashcards([cardFor(first.id), cardFor(first.id)]);
+      await storage.updateFlashcard(reviewed.id, { box: 1, lastReviewedAt: new Date() });
+
+      const [second] = await storage.replaceKeyPoints(content.id, [point("second")]);
+      assert.equal(await storage.getFlashcard(fresh.id), undefined);
+      assert.equal((await storage.getFlashcard(reviewed.id))?.keyPointId, null);
+
+      const [again, kept] = await storage.createFlashcards([cardFor(second.id), cardFor(second.id)]);
+      await storage.updateFlashcard(kept.id, { box: 1, lastReviewedAt: new Date() });
+      assert.equal(await storage.deleteKeyPoint(second.id), true);
+      assert.equal(await storage.getFlashcard(again.id), undefined);
+      assert.equal((await storage.getFlashcard(kept.id))?.keyPointId, null);
+    });
+
+    it("lists a feed's episodes newest first, with undated ones last", async () => {
+      const feed = await storage.createPodcastFeed({ userId, feedUrl: "https://example.com/order.xml", title: "Order Show" });
+      const addEpisode = async (title: string, publishedAt: Date | null) => {
+        const episode = await createItem(title);
+        await storage.updateAudioContent(episode.id, { feedId: feed.id, publishedAt });
+        // Distinct creation times, as episodes imported by separate polls have
+        await new Promise((resolve) => setTimeout(resolve, 5));
+      };
+      await addEpisode("undated older", null);
+      await addEpisode("january", new Date("2025-01-01"));
+      await addEpisode("undated newer", null);
+      await addEpisode("march", new Date("2025-03-01"));
+
+      assert.deepEqual(
+        (await storage.getAudioContentByFeed(feed.id)).map((episode) => episode.title),
+        ["march", "january", "undated newer", "undated older"],
+      );
+    });
+
+    it("deletes a feed's conversations with it and keeps its episodes", async () => {
+      const feed = await storage.createPodcastFeed({ userId, feedUrl: "https://example.com/cascade.xml", title: "Cascade Show" });
+      const otherFeed = await storage.createPodcastFeed({ userId, feedUrl: "https://example.com/other.xml", title: "Other Show" });
+      const episode = await createItem("feed episode");
+      await storage.updateAudioContent(episode.id, { feedId: feed.id });
+      const conversation = await storage.createChatConversation({ userId, title: "Chat", scopeType: "feed", scopeId: feed.id });
+      await storage.createChatMessage({ conversationId: conversation.id, role: "user", content: "why?", citations: [] });
+      const otherConversation = await storage.createChatConversation({ userId, title: "Chat", scopeType: "feed", scopeId: otherFeed.id });
+
+      assert.equal(await storage.deletePodcastFeed(feed.id), true);
+
+      assert.equal(await storage.getPodcastFeed(feed.id), undefined);
+      assert.equal(await storage.getChatConversation(conversation.id), undefined);
+      assert.deepEqual(await storage.getChatMessages(conversation.id), []);
+      assert.equal((await storage.getAudioContent(episode.id))?.feedId, null);
+      assert.ok(await storage.getChatConversation(otherConversation.id));
+    });
+
+    it("keeps the conversation title automatic unless told otherwise", async () => {
+      const automatic = await storage.createChatConversation({ userId, title: "Whole library", scopeType: "library" });
+      const named = await storage.createChatConversation({ userId, title: "Mine", scopeType: "library", autoTitle: false });
+      assert.equal(automatic.autoTitle, true);
+      assert.equal(named.autoTitle, false);
+    });
+
+    it("searches the user's transcripts, highlights and notes", async () => {
+      const content = await createItem("Search Talk");
+      const foreign = await createItem("Foreign Talk", otherUserId);
+      const segment = await storage.createTranscriptSegment({
+        audioContentId: content.id,
+        startTime: 10,
+        endTime: 15,
+        text: "Chlorophyll absorbs light in the leaf",
+        sequenceNumber: 0,
+      });
+      await storage.createTranscriptSegment({ audioContentId: content.id, startTime: 15, endTime: 20, text: "Unrelated words", sequenceNumber: 1 });
+      await storage.createTranscriptSegment({ audioContentId: foreign.id, startTime: 0, endTime: 5, text: "Chlorophyll elsewhere", sequenceNumber: 0 });
+      const highlight = await storage.createHighlight({
+        userId,
+        audioContentId: content.id,
+        text: "chlorophyll is green",
+        startTime: 12,
+        endTime: 14,
+        note: "look up chlorophyll later",
+      });
+
+      const hits = await storage.search(userId, "chlorophyll", 10);
+
+      assert.deepEqual(
+        hits.map((hit) => `${hit.kind}:${hit.id}`).sort(),
+        [`highlight:${highlight.id}`, `note:${highlight.id}`, `segment:${segment.id}`].sort(),
+      );
+      const segmentHit = hits.find((hit) => hit.kind === "segment")!;
+      assert.equal(segmentHit.audioTitle, "Search Talk");
+      assert.equal(segmentHit.startTime, 10);
+      assert.match(segmentHit.snippet, /<mark>Chlorophyll<\/mark>/);
+      assert.ok(hits.every((hit) => hit.rank > 0));
+      assert.equal((await storage.search(userId, "chlorophyll", 1)).length, 1);
+      assert.deepEqual(await storage.search(userId, "photosynthesis", 10), []);
+    });
+
+    it("finds the user's items by title, transcript and summary", async () => {
+      const byTitle = await createItem("Mitochondria Explained");
+      const byTranscript = await createItem("Cell Biology");
+      await storage.updateAudioContent(byTranscript.id, { transcriptionText: "The mitochondria is the powerhouse" });
+      const bySummary = await createItem("Energy");
+      await storage.updateAudioContent(bySummary.id, { aiSummary: "How MITOCHONDRIA make ATP" });
+      await createItem("Mitochondria Elsewhere", otherUserId);
+      await createItem("100% Discount");
+
+      const results = await storage.searchAudioContent(userId, "mitochondria");
+      assert.deepEqual(results.map((item) => item.id).sort(), [byTitle.id, byTranscript.id, bySummary.id].sort());
+      // LIKE wildcards in the query match literally
+      assert.deepEqual((await storage.searchAudioContent(userId, "0% D")).map((item) => item.title), ["100% Discount"]);
+      assert.deepEqual(await storage.searchAudioContent(userId, "%_%mitochondria_"), []);
+    });
+
+    it("ranks transcript chunks by similarity to the query embedding", async () => {
+      const content = await createItem("Semantic A");
+      const second = await createItem("Semantic B");
+      const foreign = await createItem("Semantic Foreign", otherUserId);
+      await storage.replaceTranscriptChunks(content.id, [
+        { audioContentId: content.id, startTime: 0, endTime: 30, text: "exact", model: "rank-model", embedding: [1, 0, 0] },
+        { audioContentId: content.id, startTime: 30, endTime: 60, text: "orthogonal", model: "rank-model", embedding: [0, 1, 0] },
+        { audioContentId: content.id, startTime: 60, endTime: 90, text: "other model", model: "other-model", embedding: [1, 0, 0] },
+      ]);
+      await storage.replaceTranscriptChunks(second.id, [
+        { audioContentId: second.id, startTime: 0, endTime: 30, text: "close", model: "rank-model", embedding: [0.8, 0.6, 0] },
+      ]);
+      await storage.replaceTranscriptChunks(foreign.id, [
+        { audioContentId: foreign.id, startTime: 0, endTime: 30, text: "foreign", model: "rank-model", embedding: [1, 0, 0] },
+      ]);
+
+      const hits = await storage.searchTranscriptChunks(userId, [1, 0, 0], "rank-model", 10);
+      assert.deepEqual(hits.map((hit) => hit.text), ["exact", "close", "orthogonal"]);
+      assert.ok(Math.abs(hits[0].score - 1) < 1e-6);
+      assert.ok(Math.abs(hits[1].score - 0.8) < 1e-6);
+      assert.ok(Math.abs(hits[2].score) < 1e-6);
+      assert.equal(hits[1].audioTitle, "Semantic B");
+
+      assert.deepEqual((await storage.searchTranscriptChunks(userId, [1, 0, 0], "rank-model", 1)).map((hit) => hit.text), ["exact"]);
+      const scoped = await storage.searchTranscriptChunks(userId, [1, 0, 0], "rank-model", 10, [second.id]);
+      assert.deepEqual(scoped.map((hit) => hit.text), ["close"]);
+      assert.deepEqual(await storage.searchTranscriptChunks(userId, [1, 0, 0], "rank-model", 10, []), []);
+
+      // Replacing drops the old passages
+      await storage.replaceTranscriptChunks(content.id, []);
+      const remaining = await storage.searchTranscriptChunks(userId, [1, 0, 0], "rank-model", 10);
+      assert.deepEqual(remaining.map((hit) => hit.text), ["close"]);
+    });
+  });
+}
@@ -1,45 +1,193 @@
-import { type User, type InsertUser, type AudioContent, type InsertAudioContent, type Highlight, type InsertHighlight, type TranscriptSegment, type InsertTranscriptSegment } from "@shared/schema";
+import { type User, type InsertUser, type UserSettings, type UpdateUserSettings, type AudioContent, type InsertAudioContent, type Highlight, type InsertHighlight, type HighlightReview, type InsertHighlightReview, type TranscriptSegment, type InsertTranscriptSegment, type Job, type InsertJob, type PodcastFeed, type InsertPodcastFeed, type Waveform, type InsertWaveform, type Speaker, type InsertSpeaker, type TranscriptChunk, type InsertTranscriptChunk, type Chapter, type InsertChapter, type KeyPoint, type InsertKeyPoint, type Flashcard, type InsertFlashcard, type ChatConversation, type InsertChatConversation, type ChatMessage, type InsertChatMessage, users, userSettings, audioContent, highlights, highlightReviews, transcriptSegments, jobs, podcastFeeds, waveforms, speakers, transcriptChunks, chapters, keyPoints, flashcards, chatConversations, chatMessages } from "@shared/schema";
 import { randomUUID } from "crypto";
+import type { SearchHit, SearchHitKind, SemanticSearchHit } from "@shared/search";
+import { and, asc, desc, eq, ilike, inArray, isNull, lt, lte, or, sql } from "drizzle-orm";
+import type { AnyPgColumn } from "drizzle-orm/pg-core";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { createDb, type Database } from "./db";
+import { InvertedIndex, buildSnippet, cosineSimilarity, tokenize } from "./search-index";
+
+const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
 
+  // User Settings
+  getUserSettings(userId: string): Promise<UserSettings | undefined>;
+  // Creates the user's settings row on first save
+  saveUserSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings>;
+
   // Audio Content
   getAudioContent(id: string): Promise<AudioContent | undefined>;
   getAudioContentByUser(userId: string): Promise<AudioContent[]>;
   createAudioContent(audioContent: InsertAudioContent & { userId: string }): Promise<AudioContent>;
   updateAudioContent(id: string, updates: Partial<AudioContent>): Promise<AudioContent | undefined>;
+  // Also removes the item's highlights, transcript data, key points, flashcards, jobs and conversations about it
   deleteAudioContent(id: string): Promise<boolean>;
+  // Episodes imported from a feed, newest first; undated episodes come after
+  // dated ones, most recently added first
+  getAudioContentByFeed(feedId: string): Promise<AudioContent[]>;
+  // Substring match on title, source, transcript and summary; search() ranks individual passages
   searchAudioContent(userId: string, query: string): Promise<AudioContent[]>;
 
+  // Podcast Feeds
+  getPodcastFeed(id: string): Promise<PodcastFeed | undefined>;
+  getPodcastFeedsByUser(userId: string): Promise<PodcastFeed[]>;
+  // Feeds never polled, or last polled before the given time
+  getPodcastFeedsDueForPoll(polledBefore: Date): Promise<PodcastFeed[]>;
+  createPodcastFeed(feed: InsertPodcastFeed & { userId: string }): Promise<PodcastFeed>;
+  updatePodcastFeed(id: string, updates: Partial<PodcastFeed>): Promise<PodcastFeed | undefined>;
+  // Removes the subscription and conversations about it; imported episodes stay in the library
+  deletePodcastFeed(id: string): Promise<boolean>;
+
+  // Search
+  // Ranked full-text matches in the user's transcript segments, highlights and highlight notes
+  search(userId: string, query: string, limit: number): Promise<SearchHit[]>;
+  // Replaces the item's passages and their embeddings
+  replaceTranscriptChunks(audioContentId: string, chunks: InsertTranscriptChunk[]): Promise<TranscriptChunk[]>;
+  // The user's passages closest to the embedding, comparing only vectors from the same
+  // model; audioContentIds narrows the search to those items
+  searchTranscriptChunks(
+    userId: string,
+    embedding: number[],
+    model: string,
+    limit: number,
+    audioContentIds?: string[],
+  ): Promise<SemanticSearchHit[]>;
+
   // Highlights
   getHighlight(id: string): Promise<Highlight | undefined>;
   getHighlightsByAudioContent(audioContentId: string): Promise<Highlight[]>;
   getHighlightsByUser(userId: string): Promise<Highlight[]>;
   createHighlight(highlight: InsertHighlight & { userId: string }): Promise<Highlight>;
   updateHighlight(id: string, updates: Partial<Highlight>): Promise<Highlight | undefined>;
+  // Also removes the highlight's reviews. Flashcards made from it are deleted
+  // unless they have been reviewed, which keeps them, unlinked
   deleteHighlight(id: string): Promise<boolean>;
 
+  // Highlight Reviews
+  // Newest first
+  getHighlightReviewsByUser(userId: string): Promise<HighlightReview[]>;
+  getLatestHighlightReview(highlightId: string): Promise<HighlightReview | undefined>;
+  createHighlightReview(review: InsertHighlightReview & { userId: string }): Promise<HighlightReview>;
+
   // Transcript Segments
   getTranscriptSegments(audioContentId: string): Promise<TranscriptSegment[]>;
   createTranscriptSegment(segment: InsertTranscriptSegment): Promise<TranscriptSegment>;
   deleteTranscriptSegments(audioContentId: string): Promise<boolean>;
+
+  // Speakers
+  getSpeakers(audioContentId: string): Promise<Speaker[]>;
+  getSpeaker(id: string): Promise<Speaker | undefined>;
+  createSpeaker(speaker: InsertSpeaker): Promise<Speaker>;
+  updateSpeaker(id: string, updates: Partial<Speaker>): Promise<Speaker | undefined>;
+  deleteSpeakers(audioContentId: string): Promise<boolean>;
+
+  // Chapters
+  // In playback order
+  getChapters(audioContentId: string): Promise<Chapter[]>;
+  // Replaces the item's chapters
+  replaceChapters(audioContentId: string, chapters: InsertChapter[]): Promise<Chapter[]>;
+
+  // Key Points
+  // In position order
+  getKeyPoints(audioContentId: string): Promise<KeyPoint[]>;
+  getKeyPoint(id: string): Promise<KeyPoint | undefined>;
+  // Replaces the item's key points. Flashcards made from the old ones are deleted
+  // unless they have been reviewed, which keeps them, unlinked; the same goes for deleteKeyPoint
+  replaceKeyPoints(audioContentId: string, keyPoints: InsertKeyPoint[]): Promise<KeyPoint[]>;
+  updateKeyPoint(id: string, updates: Partial<KeyPoint>): Promise<KeyPoint | undefined>;
+  deleteKeyPoint(id: string): Promise<boolean>;
+
+  // Flashcards
+  getFlashcard(id: string): Promise<Flashcard | undefined>;
+  // Newest first
+  getFlashcardsByUser(userId: string): Promise<Flashcard[]>;
+  // In playback order
+  getFlashcardsByAudioContent(audioContentId: string): Promise<Flashcard[]>;
+  // The user's cards due by the given time, longest overdue first
+  getDueFlashcards(userId: string, now: Date): Promise<Flashcard[]>;
+  createFlashcards(cards: (InsertFlashcard & { userId: string })[]): Promise<Flashcard[]>;
+  updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard | undefined>;
+  deleteFlashcard(id: string): Promise<boolean>;
+
+  // Waveforms
+  getWaveform(audioContentId: string): Promise<Waveform | undefined>;
+  // Replaces any waveform already stored for the item
+  saveWaveform(waveform: InsertWaveform): Promise<Waveform>;
+
+  // Chat
+  getChatConversation(id: string): Promise<ChatConversation | undefined>;
+  // Most recently active first
+  getChatConversationsByUser(userId: string): Promise<ChatConversation[]>;
+  createChatConversation(conversation: InsertChatConversation & { userId: string }): Promise<ChatConversation>;
+  updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation | undefined>;
+  // Also removes the conversation's messages
+  deleteChatConversation(id: string): Promise<boolean>;
+  // Oldest first
+  getChatMessages(conversationId: string): Promise<ChatMessage[]>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+
+  // Jobs
+  createJob(job: InsertJob): Promise<Job>;
+  getJobsByAudioContent(audioContentId: string): Promise<Job[]>;
+  // Atomically marks the next due queued job as running and counts the attempt
+  claimNextJob(): Promise<Job | undefined>;
+  updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined>;
+  // Puts jobs left running by a previous process back in the queue
+  requeueRunningJobs(): Promise<Job[]>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User>;
+  private userSettings: Map<string, UserSettings>;
   private audioContent: Map<string, AudioContent>;
   private highlights: Map<string, Highlight>;
+  private highlightReviews: Map<string, HighlightReview>;
   private transcriptSegments: Map<string, TranscriptSegment>;
+  private jobs: Map<string, Job>;
+  private podcastFeeds: Map<string, PodcastFeed>;
+  private waveforms: Map<string, Waveform>;
+  private speakers: Map<string, Speaker>;
+  private transcriptChunks: Map<string, TranscriptChunk>;
+  private chapters: Map<string, Chapter>;
+  private keyPoints: Map<string, KeyPoint>;
+  private flashcards: Map<string, Flashcard>;
+  private chatConversations: Map<string, ChatConversation>;
+  private chatMessages: Map<string, ChatMessage>;
+  // Keyed "<kind>:<id>", matching SearchHitKind
+  private searchIndex: InvertedIndex;
+  sessionStore: session.Store;
 
   constructor() {
     this.users = new Map();
+    this.userSettings = new Map();
     this.audioContent = new Map();
     this.highlights = new Map();
+    this.highlightReviews = new Map();
     this.transcriptSegments = new Map();
+    this.jobs = new Map();
+    this.podcastFeeds = new Map();
+    this.waveforms = new Map();
+    this.speakers = new Map();
+    this.transcriptChunks = new Map();
+    this.chapters = new Map();
+    this.keyPoints = new Map();
+    this.flashcards = new Map();
+    this.chatConversations = new Map();
+    this.chatMessages = new Map();
+    this.searchIndex = new InvertedIndex();
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 24 * 60 * 60 * 1000, // prune expired sessions daily
+    });
   }
 
   // Users
@@ -60,6 +208,23 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  // User Settings
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    return this.userSettings.get(userId);
+  }
+
+  async saveUserSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings> {
+    const saved: UserSettings = {
+      markdownTemplate: null,
+      ...this.userSettings.get(userId),
+      ...updates,
+      userId,
+      updatedAt: new Date(),
+    };
+    this.userSettings.set(userId, saved);
+    return saved;
+  }
+
   // Audio Content
   async getAudioContent(id: string): Promise<AudioContent | undefined> {
     return this.audioContent.get(id);
@@ -76,8 +241,24 @@ export class MemStorage implements IStorage {
     const content: AudioContent = {
       ...audioContent,
       id,
+      source: audioContent.source ?? null,
+      duration: audioContent.duration ?? null,
+      fileSize: audioContent.fileSize ?? null,
+      mimeType: audioContent.mimeType ?? null,
+      codec: null,
+      bitRate: null,
+      channels: null,
+      sampleRate: null,
+      feedId: audioContent.feedId ?? null,
+      episodeGuid: audioContent.episodeGuid ?? null,
+      publishedAt: audioContent.publishedAt ?? null,
+      artworkUrl: audioContent.artworkUrl ?? null,
+      showNotes: audioContent.showNotes ?? null,
       transcriptionStatus: "pending",
       transcriptionText: null,
+      transcriptionError: null,
+      transcriptionProvider: null,
+      transcriptionProgress: 0,
       aiSummary: null,
       keywords: [],
       progress: 0,
@@ -98,9 +279,52 @@ export class MemStorage implements IStorage {
   }
 
   async deleteAudioContent(id: string): Promise<boolean> {
+    if (!this.audioContent.has(id)) return false;
+
+    await Promise.all(
+      Array.from(this.highlights.values())
+        .filter(highlight => highlight.audioContentId === id)
+        .map(highlight => this.deleteHighlight(highlight.id)),
+    );
+    await this.deleteTranscriptSegments(id);
+    this.waveforms.delete(id);
+    await this.deleteSpeakers(id);
+    await this.replaceTranscriptChunks(id, []);
+    await this.replaceChapters(id, []);
+    await this.replaceKeyPoints(id, []);
+    Array.from(this.flashcards.values())
+      .filter(card => card.audioContentId === id)
+      .forEach(card => this.flashcards.delete(card.id));
+    await Promise.all(
+      Array.from(this.chatConversations.values())
+        .filter(conversation => conversation.scopeType === "item" && conversation.scopeId === id)
+        .map(conversation => this.deleteChatConversation(conversation.id)),
+    );
+    Array.from(this.jobs.values())
+      .filter(job => job.audioContentId === id)
+      .forEach(job => this.jobs.delete(job.id));
+
     return this.audioContent.delete(id);
   }
 
+  async getAudioContentByFeed(feedId: string): Promise<AudioContent[]> {
+    const time = (date: Date | null) => (date ? new Date(date).getTime() : null);
+    return Array.from(this.audioContent.values())
+      .filter(content => content.feedId === feedId)
+      // Maps keep insertion order, so reversing first breaks createdAt ties newest first
+      .reverse()
+      .sort((a, b) => {
+        const publishedA = time(a.publishedAt);
+        const publishedB = time(b.publishedAt);
+        if (publishedA !== publishedB) {
+          if (publishedA === null) return 1;
+          if (publishedB === null) return -1;
+          return publishedB - publishedA;
+        }
+        return (time(b.createdAt) ?? 0) - (time(a.createdAt) ?? 0);
+      });
+  }
+
   async searchAudioContent(userId: string, query: string): Promise<AudioContent[]> {
     const lowerQuery = query.toLowerCase();
     return Array.from(this.audioContent.values())
@@ -113,6 +337,134 @@ export class MemStorage implements IStorage {
       );
   }
 
+  // Podcast Feeds
+  async getPodcastFeed(id: string): Promise<PodcastFeed | undefined> {
+    return this.podcastFeeds.get(id);
+  }
+
+  async getPodcastFeedsByUser(userId: string): Promise<PodcastFeed[]> {
+    return Array.from(this.podcastFeeds.values())
+      .filter(feed => feed.userId === userId)
+      .sort((a, b) => a.title.localeCompare(b.title));
+  }
+
+  async getPodcastFeedsDueForPoll(polledBefore: Date): Promise<PodcastFeed[]> {
+    return Array.from(this.podcastFeeds.values())
+      .filter(feed => !feed.lastPolledAt || feed.lastPolledAt.getTime() < polledBefore.getTime());
+  }
+
+  async createPodcastFeed(feed: InsertPodcastFeed & { userId: string }): Promise<PodcastFeed> {
+    const id = randomUUID();
+    const newFeed: PodcastFeed = {
+      ...feed,
+      id,
+      description: feed.description ?? null,
+      artworkUrl: feed.artworkUrl ?? null,
+      autoTranscribe: feed.autoTranscribe ?? true,
+      keepLastEpisodes: feed.keepLastEpisodes ?? null,
+      lastEpisodeAt: null,
+      seenEpisodeGuids: [],
+      lastPolledAt: null,
+      lastError: null,
+      createdAt: new Date(),
+    };
+    this.podcastFeeds.set(id, newFeed);
+    return newFeed;
+  }
+
+  async updatePodcastFeed(id: string, updates: Partial<PodcastFeed>): Promise<PodcastFeed | undefined> {
+    const feed = this.podcastFeeds.get(id);
+    if (!feed) return undefined;
+
+    const updatedFeed = { ...feed, ...updates };
+    this.podcastFeeds.set(id, updatedFeed);
+    return updatedFeed;
+  }
+
+  async deletePodcastFeed(id: string): Promise<boolean> {
+    const episodes = await this.getAudioContentByFeed(id);
+    for (const episode of episodes) {
+      this.audioContent.set(episode.id, { ...episode, feedId: null });
+    }
+    await Promise.all(
+      Array.from(this.chatConversations.values())
+        .filter(conversation => conversation.scopeType === "feed" && conversation.scopeId === id)
+        .map(conversation => this.deleteChatConversation(conversation.id)),
+    );
+    return this.podcastFeeds.delete(id);
+  }
+
+  // Search
+  async search(userId: string, query: string, limit: number): Promise<SearchHit[]> {
+    const terms = tokenize(query);
+    const hits: SearchHit[] = [];
+
+    for (const { key, score } of this.searchIndex.search(terms)) {
+      if (hits.length >= limit) break;
+
+      const [kind, id] = key.split(":") as [SearchHitKind, string];
+      const source = kind === "segment" ? this.transcriptSegments.get(id) : this.highlights.get(id);
+      const content = source && this.audioContent.get(source.audioContentId);
+      if (!source || !content || content.userId !== userId) continue;
+
+      const text = kind === "note" ? (source as Highlight).note || "" : source.text;
+      hits.push({
+        kind,
+        id,
+        audioContentId: content.id,
+        audioTitle: content.title,
+        startTime: source.startTime,
+        endTime: source.endTime,
+        snippet: buildSnippet(text, terms),
+        rank: score,
+      });
+    }
+    return hits;
+  }
+
+  async replaceTranscriptChunks(audioContentId: string, chunks: InsertTranscriptChunk[]): Promise<TranscriptChunk[]> {
+    Array.from(this.transcriptChunks.values())
+      .filter(chunk => chunk.audioContentId === audioContentId)
+      .forEach(chunk => this.transcriptChunks.delete(chunk.id));
+
+    return chunks.map((chunk) => {
+      const created: TranscriptChunk = { ...chunk, id: randomUUID() };
+      this.transcriptChunks.set(created.id, created);
+      return created;
+    });
+  }
+
+  // A brute-force scan; fine at the size of one person's library
+  async searchTranscriptChunks(
+    userId: string,
+    embedding: number[],
+    model: string,
+    limit: number,
+    audioContentIds?: string[],
+  ): Promise<SemanticSearchHit[]> {
+    return Array.from(this.transcriptChunks.values())
+      .filter(chunk =>
+        chunk.model === model &&
+        this.audioContent.get(chunk.audioContentId)?.userId === userId &&
+        (!audioContentIds || audioContentIds.includes(chunk.audioContentId)))
+      .map((chunk): SemanticSearchHit => ({
+        chunkId: chunk.id,
+        audioContentId: chunk.audioContentId,
+        audioTitle: this.audioContent.get(chunk.audioContentId)!.title,
+        startTime: chunk.startTime,
+        endTime: chunk.endTime,
+        text: chunk.text,
+        score: cosineSimilarity(embedding, chunk.embedding),
+      }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  private indexHighlight(highlight: Highlight) {
+    this.searchIndex.add(`highlight:${highlight.id}`, highlight.text);
+    this.searchIndex.add(`note:${highlight.id}`, highlight.note);
+  }
+
   // Highlights
   async getHighlight(id: string): Promise<Highlight | undefined> {
     return this.highlights.get(id);
@@ -140,6 +492,7 @@ export class MemStorage implements IStorage {
       createdAt: new Date(),
     };
     this.highlights.set(id, newHighlight);
+    this.indexHighlight(newHighlight);
     return newHighlight;
   }
 
@@ -149,13 +502,40 @@ export class MemStorage implements IStorage {
     
     const updatedHighlight = { ...highlight, ...updates };
     this.highlights.set(id, updatedHighlight);
+    this.indexHighlight(updatedHighlight);
     return updatedHighlight;
   }
 
   async deleteHighlight(id: string): Promise<boolean> {
+    Array.from(this.highlightReviews.values())
+      .filter(review => review.highlightId === id)
+      .forEach(review => this.highlightReviews.delete(review.id));
+    this.releaseFlashcards("highlightId", id);
+    this.searchIndex.remove(`highlight:${id}`);
+    this.searchIndex.remove(`note:${id}`);
     return this.highlights.delete(id);
   }
 
+  // Highlight Reviews
+  async getHighlightReviewsByUser(userId: string): Promise<HighlightReview[]> {
+    return Array.from(this.highlightReviews.values())
+      .filter(review => review.userId === userId)
+      .sort((a, b) => b.reviewedAt.getTime() - a.reviewedAt.getTime());
+  }
+
+  async getLatestHighlightReview(highlightId: string): Promise<HighlightReview | undefined> {
+    return Array.from(this.highlightReviews.values())
+      .filter(review => review.highlightId === highlightId)
+      .sort((a, b) => b.reviewedAt.getTime() - a.reviewedAt.getTime())[0];
+  }
+
+  async createHighlightReview(review: InsertHighlightReview & { userId: string }): Promise<HighlightReview> {
+    const id = randomUUID();
+    const newReview: HighlightReview = { ...review, id, reviewedAt: review.reviewedAt ?? new Date() };
+    this.highlightReviews.set(id, newReview);
+    return newReview;
+  }
+
   // Transcript Segments
   async getTranscriptSegments(audioContentId: string): Promise<TranscriptSegment[]> {
     return Array.from(this.transcriptSegments.values())
@@ -169,8 +549,10 @@ export class MemStorage implements IStorage {
       ...segment,
       id,
       confidence: segment.confidence || null,
+      speaker: segment.speaker ?? null,
     };
     this.transcriptSegments.set(id, newSegment);
+    this.searchIndex.add(`segment:${id}`, newSegment.text);
     return newSegment;
   }
 
@@ -178,9 +560,983 @@ export class MemStorage implements IStorage {
     const segments = Array.from(this.transcriptSegments.entries())
       .filter(([_, segment]) => segment.audioContentId === audioContentId);
     
-    segments.forEach(([id]) => this.transcriptSegments.delete(id));
+    segments.forEach(([id]) => {
+      this.transcriptSegments.delete(id);
+      this.searchIndex.remove(`segment:${id}`);
+    });
+    return true;
+  }
+
+  // Speakers
+  async getSpeakers(audioContentId: string): Promise<Speaker[]> {
+    return Array.from(this.speakers.values())
+      .filter(speaker => speaker.audioContentId === audioContentId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getSpeaker(id: string): Promise<Speaker | undefined> {
+    return this.speakers.get(id);
+  }
+
+  async createSpeaker(speaker: InsertSpeaker): Promise<Speaker> {
+    const id = randomUUID();
+    const newSpeaker: Speaker = { ...speaker, id };
+    this.speakers.set(id, newSpeaker);
+    return newSpeaker;
+  }
+
+  async updateSpeaker(id: string, updates: Partial<Speaker>): Promise<Speaker | undefined> {
+    const speaker = this.speakers.get(id);
+    if (!speaker) return undefined;
+
+    const updatedSpeaker = { ...speaker, ...updates };
+    this.speakers.set(id, updatedSpeaker);
+    return updatedSpeaker;
+  }
+
+  async deleteSpeakers(audioContentId: string): Promise<boolean> {
+    const toDelete = Array.from(this.speakers.values())
+      .filter(speaker => speaker.audioContentId === audioContentId);
+    toDelete.forEach(speaker => this.speakers.delete(speaker.id));
+    return true;
+  }
+
+  // Chapters
+  async getChapters(audioContentId: string): Promise<Chapter[]> {
+    return Array.from(this.chapters.values())
+      .filter(chapter => chapter.audioContentId === audioContentId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  async replaceChapters(audioContentId: string, chapters: InsertChapter[]): Promise<Chapter[]> {
+    Array.from(this.chapters.values())
+      .filter(chapter => chapter.audioContentId === audioContentId)
+      .forEach(chapter => this.chapters.delete(chapter.id));
+
+    return chapters.map((chapter) => {
+      const created: Chapter = { ...chapter, id: randomUUID(), synopsis: chapter.synopsis ?? null };
+      this.chapters.set(created.id, created);
+      return created;
+    });
+  }
+
+  // Key Points
+  async getKeyPoints(audioContentId: string): Promise<KeyPoint[]> {
+    return Array.from(this.keyPoints.values())
+      .filter(keyPoint => keyPoint.audioContentId === audioContentId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  async getKeyPoint(id: string): Promise<KeyPoint | undefined> {
+    return this.keyPoints.get(id);
+  }
+
+  async replaceKeyPoints(audioContentId: string, keyPoints: InsertKeyPoint[]): Promise<KeyPoint[]> {
+    Array.from(this.keyPoints.values())
+      .filter(keyPoint => keyPoint.audioContentId === audioContentId)
+      .forEach(keyPoint => {
+        this.releaseFlashcards("keyPointId", keyPoint.id);
+        this.keyPoints.delete(keyPoint.id);
+      });
+
+    return keyPoints.map((keyPoint) => {
+      const created: KeyPoint = {
+        ...keyPoint,
+        id: randomUUID(),
+        segmentIds: keyPoint.segmentIds ?? [],
+        createdAt: new Date(),
+      };
+      this.keyPoints.set(created.id, created);
+      return created;
+    });
+  }
+
+  async updateKeyPoint(id: string, updates: Partial<KeyPoint>): Promise<KeyPoint | undefined> {
+    const keyPoint = this.keyPoints.get(id);
+    if (!keyPoint) return undefined;
+
+    const updatedKeyPoint = { ...keyPoint, ...updates };
+    this.keyPoints.set(id, updatedKeyPoint);
+    return updatedKeyPoint;
+  }
+
+  async deleteKeyPoint(id: string): Promise<boolean> {
+    this.releaseFlashcards("keyPointId", id);
+    return this.keyPoints.delete(id);
+  }
+
+  // Deletes the cards made from a highlight or key point, keeping reviewed ones unlinked
+  private releaseFlashcards(source: "highlightId" | "keyPointId", sourceId: string) {
+    Array.from(this.flashcards.values())
+      .filter(card => card[source] === sourceId)
+      .forEach(card => card.lastReviewedAt
+        ? this.flashcards.set(card.id, { ...card, [source]: null })
+        : this.flashcards.delete(card.id));
+  }
+
+  // Flashcards
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    return this.flashcards.get(id);
+  }
+
+  async getFlashcardsByUser(userId: string): Promise<Flashcard[]> {
+    return Array.from(this.flashcards.values())
+      .filter(card => card.userId === userId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
+  async getFlashcardsByAudioContent(audioContentId: string): Promise<Flashcard[]> {
+    return Array.from(this.flashcards.values())
+      .filter(card => card.audioContentId === audioContentId)
+      .sort((a, b) => a.startTime - b.startTime);
+  }
+
+  async getDueFlashcards(userId: string, now: Date): Promise<Flashcard[]> {
+    return Array.from(this.flashcards.values())
+      .filter(card => card.userId === userId && card.dueAt <= now)
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  }
+
+  async createFlashcards(cards: (InsertFlashcard & { userId: string })[]): Promise<Flashcard[]> {
+    const now = new Date();
+    return cards.map((card) => {
+      const created: Flashcard = {
+        ...card,
+        id: randomUUID(),
+        highlightId: card.highlightId ?? null,
+        keyPointId: card.keyPointId ?? null,
+        box: 0,
+        dueAt: now,
+        lastReviewedAt: null,
+        createdAt: now,
+      };
+      this.flashcards.set(created.id, created);
+      return created;
+    });
+  }
+
+  async updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard | undefined> {
+    const card = this.flashcards.get(id);
+    if (!card) return undefined;
+
+    const updatedCard = { ...card, ...updates };
+    this.flashcards.set(id, updatedCard);
+    return updatedCard;
+  }
+
+  async deleteFlashcard(id: string): Promise<boolean> {
+    return this.flashcards.delete(id);
+  }
+
+  // Waveforms
+  async getWaveform(audioContentId: string): Promise<Waveform | undefined> {
+    return this.waveforms.get(audioContentId);
+  }
+
+  async saveWaveform(waveform: InsertWaveform): Promise<Waveform> {
+    const saved: Waveform = { ...waveform, createdAt: new Date() };
+    this.waveforms.set(waveform.audioContentId, saved);
+    return saved;
+  }
+
+  // Chat
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    return this.chatConversations.get(id);
+  }
+
+  async getChatConversationsByUser(userId: string): Promise<ChatConversation[]> {
+    return Array.from(this.chatConversations.values())
+      .filter(conversation => conversation.userId === userId)
+      .sort((a, b) => new Date(b.updatedAt || 0).getTime() - new Date(a.updatedAt || 0).getTime());
+  }
+
+  async createChatConversation(conversation: InsertChatConversation & { userId: string }): Promise<ChatConversation> {
+    const id = randomUUID();
+    const now = new Date();
+    const newConversation: ChatConversation = {
+      ...conversation,
+      id,
+      scopeId: conversation.scopeId ?? null,
+      autoTitle: conversation.autoTitle ?? true,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.chatConversations.set(id, newConversation);
+    return newConversation;
+  }
+
+  async updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation | undefined> {
+    const conversation = this.chatConversations.get(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation = { ...conversation, ...updates, updatedAt: new Date() };
+    this.chatConversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  async deleteChatConversation(id: string): Promise<boolean> {
+    Array.from(this.chatMessages.values())
+      .filter(message => message.conversationId === id)
+      .forEach(message => this.chatMessages.delete(message.id));
+    return this.chatConversations.delete(id);
+  }
+
+  async getChatMessages(conversationId: string): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .filter(message => message.conversationId === conversationId)
+      .sort((a, b) => new Date(a.createdAt || 0).getTime() - new Date(b.createdAt || 0).getTime());
+  }
+
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const id = randomUUID();
+    const newMessage: ChatMessage = {
+      ...message,
+      id,
+      citations: message.citations ?? [],
+      createdAt: new Date(),
+    };
+    this.chatMessages.set(id, newMessage);
+    return newMessage;
+  }
+
+  // Jobs
+  async createJob(job: InsertJob): Promise<Job> {
+    const id = randomUUID();
+    const newJob: Job = {
+      ...job,
+      id,
+      payload: job.payload ?? {},
+      status: "queued",
+      attempts: 0,
+      maxAttempts: job.maxAttempts ?? 5,
+      nextRunAt: job.nextRunAt ?? new Date(),
+      lastError: null,
+      lockedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.jobs.set(id, newJob);
+    return newJob;
+  }
+
+  async getJobsByAudioContent(audioContentId: string): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.audioContentId === audioContentId)
+      .sort((a, b) => new Date(b.createdAt || 0).getTime() - new Date(a.createdAt || 0).getTime());
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    const now = Date.now();
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === "queued" && job.nextRunAt.getTime() <= now)
+      .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime())[0];
+    if (!next) return undefined;
+
+    const claimed: Job = {
+      ...next,
+      status: "running",
+      attempts: next.attempts + 1,
+      lockedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.jobs.set(claimed.id, claimed);
+    return claimed;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async requeueRunningJobs(): Promise<Job[]> {
+    const running = Array.from(this.jobs.values()).filter(job => job.status === "running");
+    return Promise.all(
+      running.map(job => this.updateJob(job.id, { status: "queued", lockedAt: null }) as Promise<Job>),
+    );
+  }
+}
+
+// Matches buildSnippet in search-index.ts so both backends return the same snippet format
+const SEARCH_HEADLINE_OPTIONS = "StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=12";
+
+export class DbStorage implements IStorage {
+  constructor(private db: Database, public sessionStore: session.Store) {}
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  // User Settings
+  async getUserSettings(userId: string): Promise<UserSettings | undefined> {
+    const [settings] = await this.db.select().from(userSettings).where(eq(userSettings.userId, userId));
+    return settings;
+  }
+
+  async saveUserSettings(userId: string, updates: UpdateUserSettings): Promise<UserSettings> {
+    const [saved] = await this.db
+      .insert(userSettings)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: userSettings.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Audio Content
+  async getAudioContent(id: string): Promise<AudioContent | undefined> {
+    const [content] = await this.db.select().from(audioContent).where(eq(audioContent.id, id));
+    return content;
+  }
+
+  async getAudioContentByUser(userId: string): Promise<AudioContent[]> {
+    return this.db
+      .select()
+      .from(audioContent)
+      .where(eq(audioContent.userId, userId))
+      .orderBy(desc(audioContent.lastAccessedAt));
+  }
+
+  async createAudioContent(content: InsertAudioContent & { userId: string }): Promise<AudioContent> {
+    const [created] = await this.db.insert(audioContent).values(content).returning();
+    return created;
+  }
+
+  async updateAudioContent(id: string, updates: Partial<AudioContent>): Promise<AudioContent | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(audioContent)
+      .set(values)
+      .where(eq(audioContent.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAudioContent(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      const itemHighlights = tx
+        .select({ id: highlights.id })
+        .from(highlights)
+        .where(eq(highlights.audioContentId, id));
+      await tx.delete(highlightReviews).where(inArray(highlightReviews.highlightId, itemHighlights));
+      await tx.delete(highlights).where(eq(highlights.audioContentId, id));
+      await tx.delete(transcriptSegments).where(eq(transcriptSegments.audioContentId, id));
+      await tx.delete(waveforms).where(eq(waveforms.audioContentId, id));
+      await tx.delete(speakers).where(eq(speakers.audioContentId, id));
+      await tx.delete(transcriptChunks).where(eq(transcriptChunks.audioContentId, id));
+      await tx.delete(chapters).where(eq(chapters.audioContentId, id));
+      await tx.delete(keyPoints).where(eq(keyPoints.audioContentId, id));
+      await tx.delete(flashcards).where(eq(flashcards.audioContentId, id));
+      const itemConversations = tx
+        .select({ id: chatConversations.id })
+        .from(chatConversations)
+        .where(and(eq(chatConversations.scopeType, "item"), eq(chatConversations.scopeId, id)));
+      await tx.delete(chatMessages).where(inArray(chatMessages.conversationId, itemConversations));
+      await tx
+        .delete(chatConversations)
+        .where(and(eq(chatConversations.scopeType, "item"), eq(chatConversations.scopeId, id)));
+      await tx.delete(jobs).where(eq(jobs.audioContentId, id));
+      const deleted = await tx
+        .delete(audioContent)
+        .where(eq(audioContent.id, id))
+        .returning({ id: audioContent.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getAudioContentByFeed(feedId: string): Promise<AudioContent[]> {
+    return this.db
+      .select()
+      .from(audioContent)
+      .where(eq(audioContent.feedId, feedId))
+      // DESC alone would put undated episodes first
+      .orderBy(sql`${audioContent.publishedAt} desc nulls last`, desc(audioContent.createdAt));
+  }
+
+  async searchAudioContent(userId: string, query: string): Promise<AudioContent[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, "\\$&")}%`;
+    return this.db
+      .select()
+      .from(audioContent)
+      .where(
+        and(
+          eq(audioContent.userId, userId),
+          or(
+            ilike(audioContent.title, pattern),
+            ilike(audioContent.source, pattern),
+            ilike(audioContent.transcriptionText, pattern),
+            ilike(audioContent.aiSummary, pattern),
+          ),
+        ),
+      );
+  }
+
+  // Podcast Feeds
+  async getPodcastFeed(id: string): Promise<PodcastFeed | undefined> {
+    const [feed] = await this.db.select().from(podcastFeeds).where(eq(podcastFeeds.id, id));
+    return feed;
+  }
+
+  async getPodcastFeedsByUser(userId: string): Promise<PodcastFeed[]> {
+    return this.db
+      .select()
+      .from(podcastFeeds)
+      .where(eq(podcastFeeds.userId, userId))
+      .orderBy(asc(podcastFeeds.title));
+  }
+
+  async getPodcastFeedsDueForPoll(polledBefore: Date): Promise<PodcastFeed[]> {
+    return this.db
+      .select()
+      .from(podcastFeeds)
+      .where(or(isNull(podcastFeeds.lastPolledAt), lt(podcastFeeds.lastPolledAt, polledBefore)));
+  }
+
+  async createPodcastFeed(feed: InsertPodcastFeed & { userId: string }): Promise<PodcastFeed> {
+    const [created] = await this.db.insert(podcastFeeds).values(feed).returning();
+    return created;
+  }
+
+  async updatePodcastFeed(id: string, updates: Partial<PodcastFeed>): Promise<PodcastFeed | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(podcastFeeds)
+      .set(values)
+      .where(eq(podcastFeeds.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deletePodcastFeed(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.update(audioContent).set({ feedId: null }).where(eq(audioContent.feedId, id));
+      const feedConversations = tx
+        .select({ id: chatConversations.id })
+        .from(chatConversations)
+        .where(and(eq(chatConversations.scopeType, "feed"), eq(chatConversations.scopeId, id)));
+      await tx.delete(chatMessages).where(inArray(chatMessages.conversationId, feedConversations));
+      await tx
+        .delete(chatConversations)
+        .where(and(eq(chatConversations.scopeType, "feed"), eq(chatConversations.scopeId, id)));
+      const deleted = await tx
+        .delete(podcastFeeds)
+        .where(eq(podcastFeeds.id, id))
+        .returning({ id: podcastFeeds.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Search
+  async search(userId: string, query: string, limit: number): Promise<SearchHit[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    // Same expressions as the GIN indexes in the schema
+    const matches = (column: AnyPgColumn) => sql`to_tsvector('english', ${column}) @@ ${tsQuery}`;
+    const rank = (column: AnyPgColumn) =>
+      sql<number>`ts_rank(to_tsvector('english', ${column}), ${tsQuery})`.mapWith(Number);
+    const headline = (column: AnyPgColumn) =>
+      sql<string>`ts_headline('english', ${column}, ${tsQuery}, ${SEARCH_HEADLINE_OPTIONS})`;
+
+    const searchHighlights = (kind: SearchHitKind, column: AnyPgColumn) =>
+      this.db
+        .select({
+          id: highlights.id,
+          audioContentId: highlights.audioContentId,
+          audioTitle: audioContent.title,
+          startTime: highlights.startTime,
+          endTime: highlights.endTime,
+          snippet: headline(column),
+          rank: rank(column),
+        })
+        .from(highlights)
+        .innerJoin(audioContent, eq(audioContent.id, highlights.audioContentId))
+        .where(and(eq(highlights.userId, userId), matches(column)))
+        .orderBy(desc(rank(column)))
+        .limit(limit)
+        .then((rows) => rows.map((row) => ({ ...row, kind })));
+
+    const [segmentHits, highlightHits, noteHits] = await Promise.all([
+      this.db
+        .select({
+          id: transcriptSegments.id,
+          audioContentId: transcriptSegments.audioContentId,
+          audioTitle: audioContent.title,
+          startTime: transcriptSegments.startTime,
+          endTime: transcriptSegments.endTime,
+          snippet: headline(transcriptSegments.text),
+          rank: rank(transcriptSegments.text),
+        })
+        .from(transcriptSegments)
+        .innerJoin(audioContent, eq(audioContent.id, transcriptSegments.audioContentId))
+        .where(and(eq(audioContent.userId, userId), matches(transcriptSegments.text)))
+        .orderBy(desc(rank(transcriptSegments.text)))
+        .limit(limit)
+        .then((rows) => rows.map((row): SearchHit => ({ ...row, kind: "segment" }))),
+      searchHighlights("highlight", highlights.text),
+      searchHighlights("note", highlights.note),
+    ]);
+
+    return [...segmentHits, ...highlightHits, ...noteHits]
+      .sort((a, b) => b.rank - a.rank)
+      .slice(0, limit);
+  }
+
+  async replaceTranscriptChunks(audioContentId: string, chunks: InsertTranscriptChunk[]): Promise<TranscriptChunk[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(transcriptChunks).where(eq(transcriptChunks.audioContentId, audioContentId));
+      if (chunks.length === 0) return [];
+      return tx.insert(transcriptChunks).values(chunks).returning();
+    });
+  }
+
+  async searchTranscriptChunks(
+    userId: string,
+    embedding: number[],
+    model: string,
+    limit: number,
+    audioContentIds?: string[],
+  ): Promise<SemanticSearchHit[]> {
+    if (audioContentIds?.length === 0) return [];
+
+    // pgvector's cosine distance; exact rather than indexed so any dimension works
+    const distance = sql<number>`${transcriptChunks.embedding} <=> ${`[${embedding.join(",")}]`}::vector`;
+    const rows = await this.db
+      .select({
+        chunkId: transcriptChunks.id,
+        audioContentId: transcriptChunks.audioContentId,
+        audioTitle: audioContent.title,
+        startTime: transcriptChunks.startTime,
+        endTime: transcriptChunks.endTime,
+        text: transcriptChunks.text,
+        distance: distance.mapWith(Number),
+      })
+      .from(transcriptChunks)
+      .innerJoin(audioContent, eq(audioContent.id, transcriptChunks.audioContentId))
+      .where(
+        and(
+          eq(audioContent.userId, userId),
+          eq(transcriptChunks.model, model),
+          audioContentIds ? inArray(transcriptChunks.audioContentId, audioContentIds) : undefined,
+        ),
+      )
+      .orderBy(distance)
+      .limit(limit);
+    return rows.map(({ distance, ...row }) => ({ ...row, score: 1 - distance }));
+  }
+
+  // Highlights
+  async getHighlight(id: string): Promise<Highlight | undefined> {
+    const [highlight] = await this.db.select().from(highlights).where(eq(highlights.id, id));
+    return highlight;
+  }
+
+  async getHighlightsByAudioContent(audioContentId: string): Promise<Highlight[]> {
+    return this.db
+      .select()
+      .from(highlights)
+      .where(eq(highlights.audioContentId, audioContentId))
+      .orderBy(asc(highlights.startTime));
+  }
+
+  async getHighlightsByUser(userId: string): Promise<Highlight[]> {
+    return this.db
+      .select()
+      .from(highlights)
+      .where(eq(highlights.userId, userId))
+      .orderBy(desc(highlights.createdAt));
+  }
+
+  async createHighlight(highlight: InsertHighlight & { userId: string }): Promise<Highlight> {
+    const [created] = await this.db.insert(highlights).values(highlight).returning();
+    return created;
+  }
+
+  async updateHighlight(id: string, updates: Partial<Highlight>): Promise<Highlight | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(highlights)
+      .set(values)
+      .where(eq(highlights.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteHighlight(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(highlightReviews).where(eq(highlightReviews.highlightId, id));
+      await tx.delete(flashcards).where(and(eq(flashcards.highlightId, id), isNull(flashcards.lastReviewedAt)));
+      await tx.update(flashcards).set({ highlightId: null }).where(eq(flashcards.highlightId, id));
+      const deleted = await tx
+        .delete(highlights)
+        .where(eq(highlights.id, id))
+        .returning({ id: highlights.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Highlight Reviews
+  async getHighlightReviewsByUser(userId: string): Promise<HighlightReview[]> {
+    return this.db
+      .select()
+      .from(highlightReviews)
+      .where(eq(highlightReviews.userId, userId))
+      .orderBy(desc(highlightReviews.reviewedAt));
+  }
+
+  async getLatestHighlightReview(highlightId: string): Promise<HighlightReview | undefined> {
+    const [review] = await this.db
+      .select()
+      .from(highlightReviews)
+      .where(eq(highlightReviews.highlightId, highlightId))
+      .orderBy(desc(highlightReviews.reviewedAt))
+      .limit(1);
+    return review;
+  }
+
+  async createHighlightReview(review: InsertHighlightReview & { userId: string }): Promise<HighlightReview> {
+    const [created] = await this.db.insert(highlightReviews).values(review).returning();
+    return created;
+  }
+
+  // Transcript Segments
+  async getTranscriptSegments(audioContentId: string): Promise<TranscriptSegment[]> {
+    return this.db
+      .select()
+      .from(transcriptSegments)
+      .where(eq(transcriptSegments.audioContentId, audioContentId))
+      .orderBy(asc(transcriptSegments.sequenceNumber));
+  }
+
+  async createTranscriptSegment(segment: InsertTranscriptSegment): Promise<TranscriptSegment> {
+    const [created] = await this.db.insert(transcriptSegments).values(segment).returning();
+    return created;
+  }
+
+  async deleteTranscriptSegments(audioContentId: string): Promise<boolean> {
+    await this.db
+      .delete(transcriptSegments)
+      .where(eq(transcriptSegments.audioContentId, audioContentId));
     return true;
   }
+
+  // Speakers
+  async getSpeakers(audioContentId: string): Promise<Speaker[]> {
+    return this.db
+      .select()
+      .from(speakers)
+      .where(eq(speakers.audioContentId, audioContentId))
+      .orderBy(asc(speakers.position));
+  }
+
+  async getSpeaker(id: string): Promise<Speaker | undefined> {
+    const [speaker] = await this.db.select().from(speakers).where(eq(speakers.id, id));
+    return speaker;
+  }
+
+  async createSpeaker(speaker: InsertSpeaker): Promise<Speaker> {
+    const [created] = await this.db.insert(speakers).values(speaker).returning();
+    return created;
+  }
+
+  async updateSpeaker(id: string, updates: Partial<Speaker>): Promise<Speaker | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(speakers)
+      .set(values)
+      .where(eq(speakers.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSpeakers(audioContentId: string): Promise<boolean> {
+    await this.db.delete(speakers).where(eq(speakers.audioContentId, audioContentId));
+    return true;
+  }
+
+  // Chapters
+  async getChapters(audioContentId: string): Promise<Chapter[]> {
+    return this.db
+      .select()
+      .from(chapters)
+      .where(eq(chapters.audioContentId, audioContentId))
+      .orderBy(asc(chapters.startTime));
+  }
+
+  async replaceChapters(audioContentId: string, newChapters: InsertChapter[]): Promise<Chapter[]> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(chapters).where(eq(chapters.audioContentId, audioContentId));
+      if (newChapters.length === 0) return [];
+      return tx.insert(chapters).values(newChapters).returning();
+    });
+  }
+
+  // Key Points
+  async getKeyPoints(audioContentId: string): Promise<KeyPoint[]> {
+    return this.db
+      .select()
+      .from(keyPoints)
+      .where(eq(keyPoints.audioContentId, audioContentId))
+      .orderBy(asc(keyPoints.position));
+  }
+
+  async getKeyPoint(id: string): Promise<KeyPoint | undefined> {
+    const [keyPoint] = await this.db.select().from(keyPoints).where(eq(keyPoints.id, id));
+    return keyPoint;
+  }
+
+  async replaceKeyPoints(audioContentId: string, newKeyPoints: InsertKeyPoint[]): Promise<KeyPoint[]> {
+    return this.db.transaction(async (tx) => {
+      const oldKeyPoints = tx
+        .select({ id: keyPoints.id })
+        .from(keyPoints)
+        .where(eq(keyPoints.audioContentId, audioContentId));
+      await tx
+        .delete(flashcards)
+        .where(and(inArray(flashcards.keyPointId, oldKeyPoints), isNull(flashcards.lastReviewedAt)));
+      await tx.update(flashcards).set({ keyPointId: null }).where(inArray(flashcards.keyPointId, oldKeyPoints));
+      await tx.delete(keyPoints).where(eq(keyPoints.audioContentId, audioContentId));
+      if (newKeyPoints.length === 0) return [];
+      return tx.insert(keyPoints).values(newKeyPoints).returning();
+    });
+  }
+
+  async updateKeyPoint(id: string, updates: Partial<KeyPoint>): Promise<KeyPoint | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(keyPoints)
+      .set(values)
+      .where(eq(keyPoints.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteKeyPoint(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(flashcards).where(and(eq(flashcards.keyPointId, id), isNull(flashcards.lastReviewedAt)));
+      await tx.update(flashcards).set({ keyPointId: null }).where(eq(flashcards.keyPointId, id));
+      const deleted = await tx
+        .delete(keyPoints)
+        .where(eq(keyPoints.id, id))
+        .returning({ id: keyPoints.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Flashcards
+  async getFlashcard(id: string): Promise<Flashcard | undefined> {
+    const [card] = await this.db.select().from(flashcards).where(eq(flashcards.id, id));
+    return card;
+  }
+
+  async getFlashcardsByUser(userId: string): Promise<Flashcard[]> {
+    return this.db
+      .select()
+      .from(flashcards)
+      .where(eq(flashcards.userId, userId))
+      .orderBy(desc(flashcards.createdAt));
+  }
+
+  async getFlashcardsByAudioContent(audioContentId: string): Promise<Flashcard[]> {
+    return this.db
+      .select()
+      .from(flashcards)
+      .where(eq(flashcards.audioContentId, audioContentId))
+      .orderBy(asc(flashcards.startTime));
+  }
+
+  async getDueFlashcards(userId: string, now: Date): Promise<Flashcard[]> {
+    return this.db
+      .select()
+      .from(flashcards)
+      .where(and(eq(flashcards.userId, userId), lte(flashcards.dueAt, now)))
+      .orderBy(asc(flashcards.dueAt));
+  }
+
+  async createFlashcards(cards: (InsertFlashcard & { userId: string })[]): Promise<Flashcard[]> {
+    if (cards.length === 0) return [];
+    return this.db.insert(flashcards).values(cards).returning();
+  }
+
+  async updateFlashcard(id: string, updates: Partial<Flashcard>): Promise<Flashcard | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(flashcards)
+      .set(values)
+      .where(eq(flashcards.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteFlashcard(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(flashcards)
+      .where(eq(flashcards.id, id))
+      .returning({ id: flashcards.id });
+    return deleted.length > 0;
+  }
+
+  // Waveforms
+  async getWaveform(audioContentId: string): Promise<Waveform | undefined> {
+    const [waveform] = await this.db.select().from(waveforms).where(eq(waveforms.audioContentId, audioContentId));
+    return waveform;
+  }
+
+  async saveWaveform(waveform: InsertWaveform): Promise<Waveform> {
+    const [saved] = await this.db
+      .insert(waveforms)
+      .values(waveform)
+      .onConflictDoUpdate({
+        target: waveforms.audioContentId,
+        set: { peaks: waveform.peaks, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  // Chat
+  async getChatConversation(id: string): Promise<ChatConversation | undefined> {
+    const [conversation] = await this.db.select().from(chatConversations).where(eq(chatConversations.id, id));
+    return conversation;
+  }
+
+  async getChatConversationsByUser(userId: string): Promise<ChatConversation[]> {
+    return this.db
+      .select()
+      .from(chatConversations)
+      .where(eq(chatConversations.userId, userId))
+      .orderBy(desc(chatConversations.updatedAt));
+  }
+
+  async createChatConversation(conversation: InsertChatConversation & { userId: string }): Promise<ChatConversation> {
+    const [created] = await this.db.insert(chatConversations).values(conversation).returning();
+    return created;
+  }
+
+  async updateChatConversation(id: string, updates: Partial<ChatConversation>): Promise<ChatConversation | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(chatConversations)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(chatConversations.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteChatConversation(id: string): Promise<boolean> {
+    return this.db.transaction(async (tx) => {
+      await tx.delete(chatMessages).where(eq(chatMessages.conversationId, id));
+      const deleted = await tx
+        .delete(chatConversations)
+        .where(eq(chatConversations.id, id))
+        .returning({ id: chatConversations.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async getChatMessages(conversationId: string): Promise<ChatMessage[]> {
+    return this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.conversationId, conversationId))
+      .orderBy(asc(chatMessages.createdAt));
+  }
+
+  async createChatMessage(message: InsertChatMessage): Promise<ChatMessage> {
+    const [created] = await this.db.insert(chatMessages).values(message).returning();
+    return created;
+  }
+
+  // Jobs
+  async createJob(job: InsertJob): Promise<Job> {
+    const [created] = await this.db.insert(jobs).values(job).returning();
+    return created;
+  }
+
+  async getJobsByAudioContent(audioContentId: string): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(eq(jobs.audioContentId, audioContentId))
+      .orderBy(desc(jobs.createdAt));
+  }
+
+  async claimNextJob(): Promise<Job | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without double-claiming
+    const next = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "queued"), lte(jobs.nextRunAt, new Date())))
+      .orderBy(asc(jobs.nextRunAt))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [claimed] = await this.db
+      .update(jobs)
+      .set({
+        status: "running",
+        attempts: sql`${jobs.attempts} + 1`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return claimed;
+  }
+
+  async updateJob(id: string, updates: Partial<Job>): Promise<Job | undefined> {
+    const { id: _id, ...values } = updates;
+    const [updated] = await this.db
+      .update(jobs)
+      .set({ ...values, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  async requeueRunningJobs(): Promise<Job[]> {
+    return this.db
+      .update(jobs)
+      .set({ status: "queued", lockedAt: null, updatedAt: new Date() })
+      .where(eq(jobs.status, "running"))
+      .returning();
+  }
+}
+
+// STORAGE_BACKEND=memory|postgres picks the backend explicitly; otherwise
+// Postgres is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  if (backend === "memory") {
+    return new MemStorage();
+  }
+
+  if (backend !== "postgres") {
+    throw new Error(`Unknown STORAGE_BACKEND "${backend}", expected "memory" or "postgres"`);
+  }
+
+  if (!process.env.DATABASE_URL) {
+    throw new Error("STORAGE_BACKEND=postgres requires DATABASE_URL to be set");
+  }
+
+  const { pool, db } = createDb(process.env.DATABASE_URL);
+  return new DbStorage(db, new PostgresSessionStore({ pool, createTableIfMissing: true }));
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,30 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+export const uploadDir = "uploads";
+if (!fs.existsSync(uploadDir)) {
+  fs.mkdirSync(uploadDir, { recursive: true });
+}
+
+// Rendered highlight clips, kept until their highlight is deleted
+export const clipCacheDir = path.join(uploadDir, "clips");
+if (!fs.existsSync(clipCacheDir)) {
+  fs.mkdirSync(clipCacheDir, { recursive: true });
+}
+
+// Random name in the upload directory, the same way multer stores uploads
+export function newUploadPath(): string {
+  return path.join(uploadDir, crypto.randomBytes(16).toString("hex"));
+}
+
+// Deletes an item's audio file; a file that is already gone is not an error
+export async function removeUploadedFile(filePath: string) {
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+      console.error("Failed to delete audio file:", error);
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { AudioContent } from "./schema";
+
+// Job lifecycle events pushed to the client over /api/events
+export type JobEventType =
+  | "queued"
+  | "started"
+  | "progress"
+  | "retrying"
+  | "transcribed"
+  | "summary_ready"
+  | "error";
+
+export interface JobEvent {
+  type: JobEventType;
+  jobType: string;
+  audioContentId: string;
+  message: string;
+  completedChunks?: number;
+  totalChunks?: number;
+  // Set while an imported URL is downloading; totalBytes is missing when the server sends no length
+  bytesReceived?: number;
+  totalBytes?: number;
+  // Sent once peaks are stored so the player can fetch them
+  waveformReady?: boolean;
+  // Sent when the item's chapters were read or generated
+  chaptersReady?: boolean;
+  error?: string;
+  // Latest row, so the client can update its cache without refetching
+  content?: AudioContent;
+  timestamp: string;
+}
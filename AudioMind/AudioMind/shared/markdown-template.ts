@@ -0,0 +1,60 @@
+// Default template for Markdown notes, in the template language of
+// server/services/template.ts. Users can replace it in Settings.
+export const DEFAULT_MARKDOWN_TEMPLATE = `---
+title: {{quote title}}
+{{#if source}}
+source: {{quote source}}
+{{/if}}
+{{#if published}}
+published: {{published}}
+{{/if}}
+added: {{added}}
+duration: {{quote duration}}
+link: {{quote link}}
+tags: [{{#each tags}}{{quote this}}{{#unless @last}}, {{/unless}}{{/each}}]
+---
+
+# {{title}}
+
+{{#if summary}}
+## Summary
+
+{{summary}}
+
+{{/if}}
+{{#if keywords}}
+**Keywords:** {{keywords}}
+
+{{/if}}
+{{#if keyPoints}}
+## Key points
+
+{{#each keyPoints}}
+- {{text}} ([{{time}}]({{link}}))
+{{/each}}
+
+{{/if}}
+{{#if highlights}}
+## Highlights
+
+{{#each highlights}}
+> {{text}}
+> — [{{time}}]({{link}}) · {{color}}
+{{#if note}}
+
+{{note}}
+{{/if}}
+
+{{/each}}
+{{/if}}
+`;
+
+// Shown next to the template editor
+export const MARKDOWN_TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: "title, source, link", description: "Item title, source, and a link that opens it in Pensieve" },
+  { name: "duration, published, added, exported", description: "Length as h:mm:ss; dates as YYYY-MM-DD" },
+  { name: "summary, keywords, tags", description: "AI summary; keywords as written and as tag-safe slugs" },
+  { name: "keyPoints", description: "List of { text, time, seconds, link }" },
+  { name: "highlights", description: "List of { text, note, color, time, endTime, seconds, link }" },
+  { name: "chapters", description: "List of { title, synopsis, time, seconds, link }" },
+];
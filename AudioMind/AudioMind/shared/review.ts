@@ -0,0 +1,8 @@
+import type { Highlight } from "./schema";
+
+// Today's highlight review: what is left to review and how the habit is going
+export interface HighlightReviewSession {
+  queue: Highlight[]; // due highlights, longest overdue first, then new ones
+  reviewedToday: number; // reviews recorded today, counting repeats
+  streak: number; // consecutive days with a review, through today or yesterday
+}
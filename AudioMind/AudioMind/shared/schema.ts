@@ -1,5 +1,5 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, integer, timestamp, boolean, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, integer, real, timestamp, boolean, jsonb, index, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,6 +9,13 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// One row per user, created the first time they change a setting
+export const userSettings = pgTable("user_settings", {
+  userId: varchar("user_id").primaryKey(),
+  markdownTemplate: text("markdown_template"), // null uses DEFAULT_MARKDOWN_TEMPLATE
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 export const audioContent = pgTable("audio_content", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull(),
@@ -19,15 +26,48 @@ export const audioContent = pgTable("audio_content", {
   duration: integer("duration"), // in seconds
   fileSize: integer("file_size"), // in bytes
   mimeType: text("mime_type"),
-  transcriptionStatus: text("transcription_status").default("pending"), // pending, processing, completed, error
+  // Filled in by ffprobe once the file has been processed
+  codec: text("codec"),
+  bitRate: integer("bit_rate"), // bits per second
+  channels: integer("channels"),
+  sampleRate: integer("sample_rate"), // Hz
+  transcriptionStatus: text("transcription_status").default("pending"), // pending, processing, completed, error, skipped
   transcriptionText: text("transcription_text"),
+  // Why the last attempt failed: shown while a retry is pending and after transcription fails for good
+  transcriptionError: text("transcription_error"),
+  transcriptionProvider: text("transcription_provider"), // openai, whisper-cpp, fake
+  transcriptionProgress: integer("transcription_progress").default(0), // 0-100 while processing
   aiSummary: text("ai_summary"),
   keywords: jsonb("keywords").$type<string[]>().default([]),
   progress: integer("progress").default(0), // playback progress in seconds
+  // Set on episodes imported from a podcast feed
+  feedId: varchar("feed_id"),
+  episodeGuid: text("episode_guid"),
+  publishedAt: timestamp("published_at"),
+  artworkUrl: text("artwork_url"),
+  showNotes: text("show_notes"),
   createdAt: timestamp("created_at").defaultNow(),
   lastAccessedAt: timestamp("last_accessed_at").defaultNow(),
 });
 
+export const podcastFeeds = pgTable("podcast_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  feedUrl: text("feed_url").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  artworkUrl: text("artwork_url"),
+  autoTranscribe: boolean("auto_transcribe").notNull().default(true),
+  keepLastEpisodes: integer("keep_last_episodes"), // null keeps every episode
+  lastEpisodeAt: timestamp("last_episode_at"), // newest published date imported so far
+  // Every episode guid the poller has come across, so undated episodes aren't
+  // taken for new ones once keep-last-N has deleted them
+  seenEpisodeGuids: jsonb("seen_episode_guids").$type<string[]>().notNull().default([]),
+  lastPolledAt: timestamp("last_polled_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 export const highlights = pgTable("highlights", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   audioContentId: varchar("audio_content_id").notNull(),
@@ -38,7 +78,11 @@ export const highlights = pgTable("highlights", {
   color: text("color").default("yellow"), // highlight color
   note: text("note"), // personal note
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  // Full-text search; queries must use the same to_tsvector expressions to hit these
+  index("highlights_text_search_idx").using("gin", sql`to_tsvector('english', ${table.text})`),
+  index("highlights_note_search_idx").using("gin", sql`to_tsvector('english', ${table.note})`),
+]);
 
 export const transcriptSegments = pgTable("transcript_segments", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -48,6 +92,158 @@ export const transcriptSegments = pgTable("transcript_segments", {
   text: text("text").notNull(),
   confidence: integer("confidence"), // 0-100
   sequenceNumber: integer("sequence_number").notNull(),
+  speaker: text("speaker"), // matches speakers.label when diarization ran
+}, (table) => [
+  index("transcript_segments_text_search_idx").using("gin", sql`to_tsvector('english', ${table.text})`),
+]);
+
+// pgvector column without a fixed size, so embedding models of any dimension fit
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType: () => "vector",
+  toDriver: (value) => `[${value.join(",")}]`,
+  fromDriver: (value) => JSON.parse(value),
+});
+
+// Passages of consecutive transcript segments with their embeddings, for semantic search
+export const transcriptChunks = pgTable("transcript_chunks", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  audioContentId: varchar("audio_content_id").notNull(),
+  startTime: integer("start_time").notNull(),
+  endTime: integer("end_time").notNull(),
+  text: text("text").notNull(),
+  model: text("model").notNull(), // embedding model; vectors from different models aren't comparable
+  embedding: vector("embedding").notNull(),
+}, (table) => [
+  index("transcript_chunks_audio_content_id_idx").on(table.audioContentId),
+]);
+
+// Chapters read from the file's own markers (ID3 CHAP, MP4 chapters) or generated from the transcript
+export const chapters = pgTable("chapters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  audioContentId: varchar("audio_content_id").notNull(),
+  title: text("title").notNull(),
+  startTime: integer("start_time").notNull(), // seconds
+  endTime: integer("end_time").notNull(),
+  synopsis: text("synopsis"),
+  source: text("source").notNull(), // embedded, ai
+}, (table) => [
+  index("chapters_audio_content_id_idx").on(table.audioContentId),
+]);
+
+export const keyPoints = pgTable("key_points", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  audioContentId: varchar("audio_content_id").notNull(),
+  position: integer("position").notNull(), // order within the item
+  text: text("text").notNull(),
+  // The transcript segments that support the point, and the span they cover in seconds
+  segmentIds: jsonb("segment_ids").$type<string[]>().notNull().default([]),
+  startTime: integer("start_time").notNull(),
+  endTime: integer("end_time").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("key_points_audio_content_id_idx").on(table.audioContentId),
+]);
+
+// Question/answer cards for review, made from a highlight or a key point.
+// Scheduled Leitner-style: box counts successful recalls in a row.
+export const flashcards = pgTable("flashcards", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  audioContentId: varchar("audio_content_id").notNull(),
+  highlightId: varchar("highlight_id"), // cleared when the highlight is deleted
+  keyPointId: varchar("key_point_id"), // cleared when the key point is replaced or deleted
+  question: text("question").notNull(),
+  answer: text("answer").notNull(),
+  startTime: integer("start_time").notNull(), // the clip played with the answer, in seconds
+  endTime: integer("end_time").notNull(),
+  box: integer("box").notNull().default(0),
+  dueAt: timestamp("due_at").notNull().defaultNow(),
+  lastReviewedAt: timestamp("last_reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("flashcards_user_id_due_at_idx").on(table.userId, table.dueAt),
+  index("flashcards_audio_content_id_idx").on(table.audioContentId),
+]);
+
+// One row per review of a highlight, with the SM-2 schedule it produced. A
+// highlight's latest review says when it is next due; unreviewed highlights are new.
+export const highlightReviews = pgTable("highlight_reviews", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  highlightId: varchar("highlight_id").notNull(),
+  userId: varchar("user_id").notNull(),
+  grade: text("grade").notNull(), // again, hard, good, easy
+  repetitions: integer("repetitions").notNull(), // successful recalls in a row
+  easeFactor: real("ease_factor").notNull(),
+  intervalDays: integer("interval_days").notNull(),
+  dueAt: timestamp("due_at").notNull(),
+  reviewedAt: timestamp("reviewed_at").notNull().defaultNow(),
+}, (table) => [
+  index("highlight_reviews_user_id_reviewed_at_idx").on(table.userId, table.reviewedAt),
+  index("highlight_reviews_highlight_id_reviewed_at_idx").on(table.highlightId, table.reviewedAt),
+]);
+
+// Speakers found by diarization, per audio item; users can rename them
+export const speakers = pgTable("speakers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  audioContentId: varchar("audio_content_id").notNull(),
+  label: text("label").notNull(), // provider's label, e.g. "SPEAKER_00"
+  name: text("name").notNull(), // "Speaker 1" until renamed
+  position: integer("position").notNull(), // order of first appearance, picks the colour
+});
+
+// Peak amplitudes (0-1) computed once at ingest and downsampled per request
+export const waveforms = pgTable("waveforms", {
+  audioContentId: varchar("audio_content_id").primaryKey(),
+  peaks: jsonb("peaks").$type<number[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A transcript passage an assistant answer draws on; answers cite it as [index]
+export interface ChatCitation {
+  index: number;
+  audioContentId: string;
+  audioTitle: string;
+  startTime: number; // seconds
+  endTime: number;
+}
+
+// Questions asked of one item, one podcast feed's episodes, or the whole library
+export const chatConversations = pgTable("chat_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull(),
+  title: text("title").notNull(),
+  scopeType: text("scope_type").notNull(), // item, feed, library
+  scopeId: varchar("scope_id"), // audio content or feed id; null for the library
+  // False once the user has named the conversation, so the first question doesn't rename it
+  autoTitle: boolean("auto_title").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const chatMessages = pgTable("chat_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  conversationId: varchar("conversation_id").notNull(),
+  role: text("role").notNull(), // user, assistant
+  content: text("content").notNull(),
+  citations: jsonb("citations").$type<ChatCitation[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("chat_messages_conversation_id_idx").on(table.conversationId),
+]);
+
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: text("type").notNull(), // transcribe, summarize
+  audioContentId: varchar("audio_content_id").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().default({}),
+  status: text("status").notNull().default("queued"), // queued, running, completed, failed
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  nextRunAt: timestamp("next_run_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  lockedAt: timestamp("locked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -55,6 +251,15 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const updateUserSettingsSchema = z.object({
+  markdownTemplate: z.string().max(20000, "Template is too long").nullable(),
+}).partial();
+
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(256),
+});
+
 export const insertAudioContentSchema = createInsertSchema(audioContent).pick({
   title: true,
   source: true,
@@ -63,8 +268,67 @@ export const insertAudioContentSchema = createInsertSchema(audioContent).pick({
   duration: true,
   fileSize: true,
   mimeType: true,
+  feedId: true,
+  episodeGuid: true,
+  publishedAt: true,
+  artworkUrl: true,
+  showNotes: true,
+});
+
+export const updateAudioContentSchema = createInsertSchema(audioContent, {
+  title: (schema) => schema.trim().min(1, "Title is required").max(500),
+  source: (schema) => schema.trim().max(500),
+}).pick({
+  title: true,
+  source: true,
+}).partial();
+
+export const importAudioUrlSchema = z.object({
+  url: z.string().trim().url("Enter a valid URL").refine((value) => /^https?:\/\//i.test(value), "Only http and https URLs are supported"),
+  title: z.string().trim().min(1, "Title is required").max(500),
+  source: z.string().trim().max(500).optional(),
 });
 
+export const transcriptExportFormats = ["srt", "vtt", "ttml", "txt", "json"] as const;
+
+// Query string of GET /api/audio-content/:id/export
+export const transcriptExportSchema = z.object({
+  format: z.enum(transcriptExportFormats, { message: "Format must be one of srt, vtt, ttml, txt, json" }),
+  maxLineLength: z.coerce.number().int().min(16, "Max line length must be between 16 and 200").max(200, "Max line length must be between 16 and 200").default(42),
+  speakers: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+  offset: z.coerce.number().min(-86400).max(86400).default(0), // seconds
+});
+
+// mp3 and ogg are audio; audiogram is an MP4 video with a waveform and the highlight's text
+export const clipFormats = ["mp3", "ogg", "audiogram"] as const;
+
+// Query string of GET /api/highlights/:id/clip
+export const highlightClipSchema = z.object({
+  format: z.enum(clipFormats, { message: "Format must be one of mp3, ogg, audiogram" }).default("mp3"),
+  padding: z.coerce.number().min(0, "Padding must be between 0 and 10 seconds").max(10, "Padding must be between 0 and 10 seconds").default(0), // seconds added before and after
+  fade: z.coerce.number().min(0, "Fade must be between 0 and 5 seconds").max(5, "Fade must be between 0 and 5 seconds").default(0), // seconds of fade in and of fade out
+});
+
+export const insertPodcastFeedSchema = createInsertSchema(podcastFeeds).pick({
+  feedUrl: true,
+  title: true,
+  description: true,
+  artworkUrl: true,
+  autoTranscribe: true,
+  keepLastEpisodes: true,
+});
+
+export const subscribePodcastFeedSchema = z.object({
+  feedUrl: z.string().trim().url("Enter a valid feed URL"),
+  autoTranscribe: z.boolean().default(true),
+  keepLastEpisodes: z.number().int().min(1).max(500).nullable().default(null),
+});
+
+export const updatePodcastFeedSchema = subscribePodcastFeedSchema.pick({
+  autoTranscribe: true,
+  keepLastEpisodes: true,
+}).partial();
+
 export const insertHighlightSchema = createInsertSchema(highlights).pick({
   audioContentId: true,
   text: true,
@@ -74,6 +338,16 @@ export const insertHighlightSchema = createInsertSchema(highlights).pick({
   note: true,
 });
 
+export const insertHighlightReviewSchema = createInsertSchema(highlightReviews).pick({
+  highlightId: true,
+  grade: true,
+  repetitions: true,
+  easeFactor: true,
+  intervalDays: true,
+  dueAt: true,
+  reviewedAt: true,
+});
+
 export const insertTranscriptSegmentSchema = createInsertSchema(transcriptSegments).pick({
   audioContentId: true,
   startTime: true,
@@ -81,13 +355,187 @@ export const insertTranscriptSegmentSchema = createInsertSchema(transcriptSegmen
   text: true,
   confidence: true,
   sequenceNumber: true,
+  speaker: true,
+});
+
+export const insertTranscriptChunkSchema = createInsertSchema(transcriptChunks, {
+  embedding: z.array(z.number()),
+}).pick({
+  audioContentId: true,
+  startTime: true,
+  endTime: true,
+  text: true,
+  model: true,
+  embedding: true,
+});
+
+export const insertChapterSchema = createInsertSchema(chapters).pick({
+  audioContentId: true,
+  title: true,
+  startTime: true,
+  endTime: true,
+  synopsis: true,
+  source: true,
+});
+
+export const insertSpeakerSchema = createInsertSchema(speakers).pick({
+  audioContentId: true,
+  label: true,
+  name: true,
+  position: true,
+});
+
+export const insertKeyPointSchema = createInsertSchema(keyPoints, {
+  segmentIds: z.array(z.string()),
+}).pick({
+  audioContentId: true,
+  position: true,
+  text: true,
+  segmentIds: true,
+  startTime: true,
+  endTime: true,
+});
+
+export const updateKeyPointSchema = z.object({
+  text: z.string().trim().min(1, "Key point can't be empty").max(1000),
+});
+
+export const insertFlashcardSchema = createInsertSchema(flashcards).pick({
+  audioContentId: true,
+  highlightId: true,
+  keyPointId: true,
+  question: true,
+  answer: true,
+  startTime: true,
+  endTime: true,
+});
+
+export const updateFlashcardSchema = z.object({
+  question: z.string().trim().min(1, "Question can't be empty").max(1000),
+  answer: z.string().trim().min(1, "Answer can't be empty").max(2000),
+}).partial();
+
+export const flashcardSources = ["highlights", "keyPoints"] as const;
+
+export const generateFlashcardsSchema = z.object({
+  sources: z.array(z.enum(flashcardSources)).min(1, "Choose highlights, key points or both").default(["highlights", "keyPoints"]),
+});
+
+// again: forgotten; hard, good, easy: recalled with decreasing effort
+export const reviewGrades = ["again", "hard", "good", "easy"] as const;
+
+export const reviewGradeSchema = z.object({
+  grade: z.enum(reviewGrades, { message: "Grade must be one of again, hard, good, easy" }),
+});
+
+// Query string of GET /api/flashcards/export
+export const flashcardExportSchema = z.object({
+  audioContentId: z.string().min(1).optional(), // all of the user's cards when absent
+  audio: z.enum(["true", "false"]).default("true").transform((value) => value === "true"),
+});
+
+export const updateSpeakerSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+});
+
+export const insertWaveformSchema = createInsertSchema(waveforms, {
+  peaks: z.array(z.number()),
+}).pick({
+  audioContentId: true,
+  peaks: true,
+});
+
+export const chatScopeSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("item"), id: z.string().min(1) }),
+  z.object({ type: z.literal("feed"), id: z.string().min(1) }),
+  z.object({ type: z.literal("library") }),
+]);
+
+export const createChatConversationSchema = z.object({
+  scope: chatScopeSchema,
+  title: z.string().trim().min(1).max(200).optional(),
+});
+
+export const sendChatMessageSchema = z.object({
+  content: z.string().trim().min(1, "Ask a question").max(2000),
+});
+
+export const insertChatConversationSchema = createInsertSchema(chatConversations).pick({
+  title: true,
+  scopeType: true,
+  scopeId: true,
+  autoTitle: true,
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages, {
+  citations: z.array(z.object({
+    index: z.number(),
+    audioContentId: z.string(),
+    audioTitle: z.string(),
+    startTime: z.number(),
+    endTime: z.number(),
+  })),
+}).pick({
+  conversationId: true,
+  role: true,
+  content: true,
+  citations: true,
+});
+
+export const insertJobSchema = createInsertSchema(jobs).pick({
+  type: true,
+  audioContentId: true,
+  payload: true,
+  maxAttempts: true,
+  nextRunAt: true,
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UpdateUserSettings = z.infer<typeof updateUserSettingsSchema>;
+export type UserSettings = typeof userSettings.$inferSelect;
+export type PublicUser = Omit<User, "password">;
 export type InsertAudioContent = z.infer<typeof insertAudioContentSchema>;
 export type AudioContent = typeof audioContent.$inferSelect;
+export type UpdateAudioContent = z.infer<typeof updateAudioContentSchema>;
+export type TranscriptExportFormat = (typeof transcriptExportFormats)[number];
+export type TranscriptExportOptions = z.infer<typeof transcriptExportSchema>;
+export type ClipFormat = (typeof clipFormats)[number];
+export type HighlightClipOptions = z.infer<typeof highlightClipSchema>;
+export type ImportAudioUrl = z.infer<typeof importAudioUrlSchema>;
+export type PodcastFeed = typeof podcastFeeds.$inferSelect;
+export type InsertPodcastFeed = z.infer<typeof insertPodcastFeedSchema>;
+export type SubscribePodcastFeed = z.infer<typeof subscribePodcastFeedSchema>;
+export type UpdatePodcastFeed = z.infer<typeof updatePodcastFeedSchema>;
 export type InsertHighlight = z.infer<typeof insertHighlightSchema>;
 export type Highlight = typeof highlights.$inferSelect;
+export type InsertHighlightReview = z.infer<typeof insertHighlightReviewSchema>;
+export type HighlightReview = typeof highlightReviews.$inferSelect;
 export type InsertTranscriptSegment = z.infer<typeof insertTranscriptSegmentSchema>;
 export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
+export type InsertTranscriptChunk = z.infer<typeof insertTranscriptChunkSchema>;
+export type TranscriptChunk = typeof transcriptChunks.$inferSelect;
+export type InsertChapter = z.infer<typeof insertChapterSchema>;
+export type Chapter = typeof chapters.$inferSelect;
+export type InsertKeyPoint = z.infer<typeof insertKeyPointSchema>;
+export type UpdateKeyPoint = z.infer<typeof updateKeyPointSchema>;
+export type KeyPoint = typeof keyPoints.$inferSelect;
+export type InsertFlashcard = z.infer<typeof insertFlashcardSchema>;
+export type UpdateFlashcard = z.infer<typeof updateFlashcardSchema>;
+export type FlashcardSource = (typeof flashcardSources)[number];
+export type ReviewGrade = (typeof reviewGrades)[number];
+export type FlashcardExportOptions = z.infer<typeof flashcardExportSchema>;
+export type Flashcard = typeof flashcards.$inferSelect;
+export type InsertSpeaker = z.infer<typeof insertSpeakerSchema>;
+export type Speaker = typeof speakers.$inferSelect;
+export type InsertWaveform = z.infer<typeof insertWaveformSchema>;
+export type Waveform = typeof waveforms.$inferSelect;
+export type ChatScope = z.infer<typeof chatScopeSchema>;
+export type CreateChatConversation = z.infer<typeof createChatConversationSchema>;
+export type SendChatMessage = z.infer<typeof sendChatMessageSchema>;
+export type InsertChatConversation = z.infer<typeof insertChatConversationSchema>;
+export type ChatConversation = typeof chatConversations.$inferSelect;
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type Job = typeof jobs.$inferSelect;
@@ -0,0 +1,26 @@
+// What a full-text search hit points at: a transcript segment, a highlight's
+// text, or the note attached to a highlight
+export type SearchHitKind = "segment" | "highlight" | "note";
+
+export interface SearchHit {
+  kind: SearchHitKind;
+  id: string; // segment or highlight id
+  audioContentId: string;
+  audioTitle: string;
+  startTime: number; // seconds, where playback should jump to
+  endTime: number;
+  // Matching excerpt with matched words wrapped in <mark>...</mark>; the rest is plain text, not HTML
+  snippet: string;
+  rank: number; // higher is better; only comparable within one response
+}
+
+// A transcript passage close in meaning to a semantic search query
+export interface SemanticSearchHit {
+  chunkId: string;
+  audioContentId: string;
+  audioTitle: string;
+  startTime: number; // seconds
+  endTime: number;
+  text: string;
+  score: number; // cosine similarity, 1 is identical
+}